@@ -12,11 +12,14 @@ import { MiniprogramsModule } from './modules/miniprograms/miniprograms.module';
 import { BuildTasksModule } from './modules/build-tasks/build-tasks.module';
 import { NotificationsModule } from './modules/notifications/notifications.module';
 import { GitCredentialsModule } from './modules/git-credentials/git-credentials.module';
+import { EnvVariablesModule } from './modules/env-variables/env-variables.module';
+import { BuildSchedulesModule } from './modules/build-schedules/build-schedules.module';
 import { GitOperationsModule } from './modules/git-operations/git-operations.module';
 import { NotificationConfigsModule } from './modules/notification-configs/notification-configs.module';
 import { SystemModule } from './modules/system/system.module';
 import { WebsocketModule } from './modules/websocket/websocket.module';
 import { WebhooksModule } from './modules/webhooks/webhooks.module';
+import { OutboundWebhooksModule } from './modules/outbound-webhooks/outbound-webhooks.module';
 import { RedisModule } from './modules/redis/redis.module';
 import { CommonModule } from './common/common.module';
 import { JwtAuthGuard } from './modules/auth/guards/jwt-auth.guard';
@@ -62,11 +65,14 @@ import configuration from './config/configuration';
     BuildTasksModule,
     NotificationsModule,
     GitCredentialsModule,
+    EnvVariablesModule,
+    BuildSchedulesModule,
     GitOperationsModule,
     NotificationConfigsModule,
     SystemModule,
     WebsocketModule,
     WebhooksModule,
+    OutboundWebhooksModule,
   ],
   controllers: [AppController],
   providers: [
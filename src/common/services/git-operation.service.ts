@@ -104,6 +104,36 @@ export class GitOperationService {
     }
   }
 
+  /**
+   * 获取远程分支最新提交SHA，分支不存在时返回 null
+   */
+  async getBranchHead(
+    userId: string,
+    repositoryUrl: string,
+    branch: string,
+    credentialId?: string,
+  ): Promise<string | null> {
+    this.validateRepositoryUrl(repositoryUrl);
+
+    const workDir = await this.createTempWorkDirectory();
+
+    try {
+      let git = createGit(workDir);
+      if (credentialId) {
+        const credential = await this.gitCredentialsService.getDecryptedCredential(credentialId, userId);
+        git = await this.configureGitWithCredentials(workDir, credential, repositoryUrl);
+      }
+
+      const urlToUse = (git as any)._authenticatedUrl || repositoryUrl;
+      const result = await git.listRemote(['--heads', urlToUse, `refs/heads/${branch}`]);
+      const [sha] = result.trim().split('\t');
+
+      return sha || null;
+    } finally {
+      await this.cleanupTempDirectory(workDir);
+    }
+  }
+
   /**
    * 验证仓库URL格式
    */
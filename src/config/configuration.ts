@@ -4,6 +4,8 @@ export default () => ({
     name: process.env.APP_NAME || 'Avocado Mini Server',
     version: process.env.APP_VERSION || '1.0.0',
     port: parseInt(process.env.PORT, 10) || 3000,
+    baseUrl: process.env.APP_URL || 'http://localhost:3000', // 对外访问的接口地址
+    webUrl: process.env.WEB_URL || process.env.APP_URL || 'http://localhost:3000', // 管理后台地址，用于生成任务链接
     environment: process.env.NODE_ENV || 'development',
   },
 
@@ -39,6 +41,55 @@ export default () => ({
     timeout: parseInt(process.env.BUILD_TIMEOUT, 10) || 1800000, // 30分钟
     maxConcurrentBuilds: parseInt(process.env.MAX_CONCURRENT_BUILDS, 10) || 3,
     queueSize: parseInt(process.env.BUILD_QUEUE_SIZE, 10) || 200,
+    // 工作区与依赖缓存
+    cache: {
+      enabled: process.env.BUILD_CACHE_ENABLED !== 'false',
+      path: process.env.BUILD_CACHE_PATH || './tmp/cache',
+      maxSize: parseInt(process.env.BUILD_CACHE_MAX_SIZE, 10) || 10737418240, // 10GB
+    },
+    // 定时构建
+    schedule: {
+      enabled: process.env.BUILD_SCHEDULE_ENABLED !== 'false',
+      pollInterval: parseInt(process.env.BUILD_SCHEDULE_POLL_INTERVAL, 10) || 30000, // 30秒
+    },
+  },
+
+  // Webhook配置
+  webhook: {
+    dedupWindow: parseInt(process.env.WEBHOOK_DEDUP_WINDOW, 10) || 600, // 相同提交去重窗口（秒）
+    // 出站Webhook投递
+    outbound: {
+      timeout: parseInt(process.env.OUTBOUND_WEBHOOK_TIMEOUT, 10) || 10000, // 10秒
+      attempts: parseInt(process.env.OUTBOUND_WEBHOOK_ATTEMPTS, 10) || 5,
+      backoff: parseInt(process.env.OUTBOUND_WEBHOOK_BACKOFF, 10) || 10000, // 首次重试间隔，之后指数增长
+    },
+  },
+
+  // 通知配置
+  notification: {
+    retry: {
+      enabled: process.env.NOTIFICATION_RETRY_ENABLED !== 'false',
+      interval: parseInt(process.env.NOTIFICATION_RETRY_INTERVAL, 10) || 60000, // 1分钟，每条通知最多发送3次
+    },
+  },
+
+  // 邮件通知配置
+  mail: {
+    host: process.env.SMTP_HOST,
+    port: parseInt(process.env.SMTP_PORT, 10) || 465,
+    secure: process.env.SMTP_SECURE !== 'false', // 465 端口直接使用 TLS，587 端口设为 false 后通过 STARTTLS 升级
+    requireTls: process.env.SMTP_REQUIRE_TLS === 'true', // 未升级到 TLS 时拒绝发送
+    rejectUnauthorized: process.env.SMTP_TLS_REJECT_UNAUTHORIZED !== 'false',
+    user: process.env.SMTP_USER,
+    pass: process.env.SMTP_PASS,
+    from: process.env.SMTP_FROM || process.env.SMTP_USER,
+  },
+
+  // 飞书配置，上传图片需要自建应用凭证，未配置时卡片中不显示预览二维码
+  feishu: {
+    apiUrl: process.env.FEISHU_API_URL || 'https://open.feishu.cn', // Lark 国际版使用 https://open.larksuite.com
+    appId: process.env.FEISHU_APP_ID,
+    appSecret: process.env.FEISHU_APP_SECRET,
   },
 
   // 日志配置
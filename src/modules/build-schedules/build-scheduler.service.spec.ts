@@ -0,0 +1,182 @@
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { BuildType, TaskStatus, TriggerType, VersionStrategy } from '@prisma/client';
+import { GitOperationService } from '../../common/services/git-operation.service';
+import { BuildTasksService } from '../build-tasks/build-tasks.service';
+import { MiniprogramsService } from '../miniprograms/miniprograms.service';
+import { VersionService } from '../miniprograms/version.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { RedisService } from '../redis/redis.service';
+import { BuildSchedulerService } from './build-scheduler.service';
+import { BuildSchedulesService } from './build-schedules.service';
+
+describe('BuildSchedulerService', () => {
+  let service: BuildSchedulerService;
+  let locks: Set<string>;
+
+  const now = new Date('2026-10-19T02:00:30+08:00');
+
+  const schedule = (data: Record<string, any> = {}) => ({
+    id: 'schedule-1',
+    miniprogramId: 'mp-1',
+    name: 'nightly',
+    cron: '0 2 * * *',
+    timezone: 'Asia/Shanghai',
+    branch: 'develop',
+    type: BuildType.PREVIEW,
+    versionStrategy: VersionStrategy.PATCH,
+    description: null,
+    skipIfNoChanges: false,
+    enabled: true,
+    nextRunAt: new Date('2026-10-19T02:00:00+08:00'),
+    lastRunAt: null,
+    lastCommitId: null,
+    lastTaskId: null,
+    lastMessage: null,
+    ...data,
+  });
+
+  const mockPrisma = {
+    buildSchedule: {
+      findMany: jest.fn(),
+      update: jest.fn(),
+    },
+    buildTask: {
+      findFirst: jest.fn(),
+    },
+  };
+
+  const mockRedisService = {
+    setNx: jest.fn(async (key: string) => {
+      if (locks.has(key)) {
+        return false;
+      }
+      locks.add(key);
+      return true;
+    }),
+  };
+
+  const mockBuildTasksService = {
+    create: jest.fn(async () => ({ id: 'task-1' })),
+  };
+
+  const mockMiniprogramsService = {
+    findOne: jest.fn(async () => ({
+      id: 'mp-1',
+      userId: 'user-1',
+      config: { gitUrl: 'https://example.com/repo.git', gitCredentialId: null },
+    })),
+  };
+
+  const mockVersionService = {
+    reserve: jest.fn(async () => ({ version: '1.0.1', previousVersion: '1.0.0', buildNumber: 3 })),
+    release: jest.fn(),
+  };
+
+  const mockGitOperationService = {
+    getBranchHead: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    locks = new Set();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BuildSchedulerService,
+        BuildSchedulesService,
+        { provide: PrismaService, useValue: mockPrisma },
+        { provide: ConfigService, useValue: { get: jest.fn((key: string, defaultValue?: any) => defaultValue) } },
+        { provide: RedisService, useValue: mockRedisService },
+        { provide: BuildTasksService, useValue: mockBuildTasksService },
+        { provide: MiniprogramsService, useValue: mockMiniprogramsService },
+        { provide: GitOperationService, useValue: mockGitOperationService },
+        { provide: VersionService, useValue: mockVersionService },
+      ],
+    }).compile();
+
+    service = module.get<BuildSchedulerService>(BuildSchedulerService);
+  });
+
+  it('should create a scheduled build task and advance the next run', async () => {
+    mockPrisma.buildSchedule.findMany.mockResolvedValue([schedule()]);
+
+    await service.tick(now);
+
+    expect(mockVersionService.reserve).toHaveBeenCalledWith('mp-1', { strategy: VersionStrategy.PATCH, type: BuildType.PREVIEW });
+    expect(mockBuildTasksService.create).toHaveBeenCalledWith('user-1', expect.objectContaining({
+      appId: 'mp-1',
+      type: BuildType.PREVIEW,
+      branch: 'develop',
+      version: '1.0.1',
+      triggerType: TriggerType.SCHEDULED,
+    }), { previousVersion: '1.0.0', buildNumber: 3 });
+    expect(mockPrisma.buildSchedule.update.mock.calls[0][0].data).toEqual({
+      nextRunAt: new Date('2026-10-20T02:00:00+08:00'),
+      lastRunAt: now,
+    });
+    expect(mockPrisma.buildSchedule.update.mock.calls[1][0].data).toMatchObject({ lastTaskId: 'task-1' });
+  });
+
+  it('should release the reserved version when the task cannot be created', async () => {
+    mockPrisma.buildSchedule.findMany.mockResolvedValue([schedule()]);
+    mockBuildTasksService.create.mockRejectedValueOnce(new Error('该小程序已有正在进行的同类型构建任务'));
+
+    await service.tick(now);
+
+    expect(mockVersionService.release).toHaveBeenCalledWith('mp-1', expect.objectContaining({ version: '1.0.1' }), true);
+    expect(mockPrisma.buildSchedule.update.mock.calls[1][0].data.lastMessage).toContain('触发构建失败');
+  });
+
+  it('should fire only once when another instance holds the lock', async () => {
+    mockPrisma.buildSchedule.findMany.mockResolvedValue([schedule()]);
+
+    await service.tick(now);
+    await service.tick(now);
+
+    expect(mockBuildTasksService.create).toHaveBeenCalledTimes(1);
+  });
+
+  it('should skip when the last successful scheduled build used the head commit', async () => {
+    mockPrisma.buildSchedule.findMany.mockResolvedValue([schedule({ skipIfNoChanges: true })]);
+    mockPrisma.buildTask.findFirst.mockResolvedValue({ commitId: 'abc123' });
+    mockGitOperationService.getBranchHead.mockResolvedValue('abc123');
+
+    await service.tick(now);
+
+    expect(mockPrisma.buildTask.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+      where: expect.objectContaining({
+        appId: 'mp-1',
+        branch: 'develop',
+        type: BuildType.PREVIEW,
+        triggerType: TriggerType.SCHEDULED,
+        status: TaskStatus.SUCCESS,
+      }),
+    }));
+    expect(mockBuildTasksService.create).not.toHaveBeenCalled();
+    expect(mockVersionService.reserve).not.toHaveBeenCalled();
+    expect(mockPrisma.buildSchedule.update.mock.calls[1][0].data).toMatchObject({ lastCommitId: 'abc123' });
+    expect(mockPrisma.buildSchedule.update.mock.calls[1][0].data.lastMessage).toContain('没有新提交');
+  });
+
+  it('should build again when the last build of the head commit did not succeed', async () => {
+    // 上次触发时记录了该提交，但构建失败，没有成功构建过该提交
+    mockPrisma.buildSchedule.findMany.mockResolvedValue([
+      schedule({ skipIfNoChanges: true, lastCommitId: 'def456', lastTaskId: 'task-0' }),
+    ]);
+    mockPrisma.buildTask.findFirst.mockResolvedValue({ commitId: 'abc123' });
+    mockGitOperationService.getBranchHead.mockResolvedValue('def456');
+
+    await service.tick(now);
+
+    expect(mockBuildTasksService.create).toHaveBeenCalledWith(
+      'user-1',
+      expect.not.objectContaining({ commitId: expect.anything() }),
+      expect.anything(),
+    );
+    expect(mockPrisma.buildSchedule.update.mock.calls[1][0].data).toMatchObject({
+      lastTaskId: 'task-1',
+      lastCommitId: 'abc123',
+    });
+  });
+});
@@ -0,0 +1,202 @@
+import { Injectable, Logger, OnApplicationBootstrap, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { BuildSchedule, BuildTask, Prisma, TaskStatus, TriggerType } from '@prisma/client';
+import { GitOperationService } from '../../common/services/git-operation.service';
+import { BuildTasksService } from '../build-tasks/build-tasks.service';
+import { MiniprogramsService, MiniprogramWithConfig } from '../miniprograms/miniprograms.service';
+import { VersionService } from '../miniprograms/version.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { RedisService } from '../redis/redis.service';
+import { BuildSchedulesService } from './build-schedules.service';
+
+/**
+ * 定时构建调度器
+ * 定期扫描到期的计划并创建构建任务，通过 Redis 锁保证多实例下每次只触发一次
+ */
+@Injectable()
+export class BuildSchedulerService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(BuildSchedulerService.name);
+  private readonly lockPrefix = 'build-schedule:lock:';
+  private readonly lockTtl = 3600; // 秒
+  private timer?: NodeJS.Timeout;
+  private ticking = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+    private readonly redisService: RedisService,
+    private readonly buildSchedulesService: BuildSchedulesService,
+    private readonly buildTasksService: BuildTasksService,
+    private readonly miniprogramsService: MiniprogramsService,
+    private readonly gitOperationService: GitOperationService,
+    private readonly versionService: VersionService,
+  ) {}
+
+  onApplicationBootstrap(): void {
+    if (!this.configService.get<boolean>('build.schedule.enabled', true)) {
+      this.logger.log('定时构建已禁用');
+      return;
+    }
+
+    const interval = this.configService.get<number>('build.schedule.pollInterval', 30000);
+    this.timer = setInterval(() => {
+      this.tick().catch((error) => this.logger.error('Failed to process build schedules:', error));
+    }, interval);
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * 执行所有到期的计划
+   */
+  async tick(now: Date = new Date()): Promise<void> {
+    if (this.ticking) {
+      return;
+    }
+
+    this.ticking = true;
+    try {
+      const schedules = await this.prisma.buildSchedule.findMany({
+        where: {
+          enabled: true,
+          nextRunAt: { lte: now },
+        },
+      });
+
+      for (const schedule of schedules) {
+        await this.fire(schedule, now);
+      }
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async fire(schedule: BuildSchedule, now: Date): Promise<void> {
+    // 锁以计划ID和本次执行时间区分，其他实例拿不到锁即跳过
+    const lockKey = `${this.lockPrefix}${schedule.id}:${schedule.nextRunAt.getTime()}`;
+    if (!(await this.redisService.setNx(lockKey, String(process.pid), this.lockTtl))) {
+      return;
+    }
+
+    // 先推进下次执行时间，停机期间错过的多次执行只补一次
+    let nextRunAt: Date | null = null;
+    try {
+      nextRunAt = this.buildSchedulesService.getNextRunTimes(schedule.cron, schedule.timezone, 1, now)[0];
+    } catch (error) {
+      this.logger.error(`定时构建计划 ${schedule.id} 表达式无效: ${error.message}`);
+    }
+
+    await this.prisma.buildSchedule.update({
+      where: { id: schedule.id },
+      data: { nextRunAt, lastRunAt: now },
+    });
+
+    const result = await this.run(schedule);
+    await this.prisma.buildSchedule.update({
+      where: { id: schedule.id },
+      data: result,
+    });
+  }
+
+  /**
+   * 创建构建任务，返回需要记录到计划上的执行结果
+   */
+  private async run(schedule: BuildSchedule): Promise<Prisma.BuildScheduleUpdateInput> {
+    try {
+      const miniprogram = await this.miniprogramsService.findOne(schedule.miniprogramId);
+
+      // 与上次成功的定时构建实际使用的提交比较，失败或取消的构建下次执行时重新构建
+      let lastCommitId: string | undefined;
+      if (schedule.skipIfNoChanges) {
+        const headCommitId = await this.getHeadCommit(miniprogram, schedule.branch);
+        lastCommitId = await this.getLastBuiltCommit(schedule);
+        if (headCommitId && headCommitId === lastCommitId) {
+          this.logger.log(`定时构建计划 ${schedule.id} 分支 ${schedule.branch} 没有新提交，跳过`);
+          return { lastCommitId, lastMessage: `分支 ${schedule.branch} 自上次构建以来没有新提交，已跳过` };
+        }
+      }
+
+      const reservation = await this.versionService.reserve(miniprogram.id, {
+        strategy: schedule.versionStrategy,
+        type: schedule.type,
+      });
+
+      let buildTask: BuildTask;
+      try {
+        buildTask = await this.buildTasksService.create(miniprogram.userId, {
+          appId: miniprogram.id,
+          type: schedule.type,
+          branch: schedule.branch,
+          version: reservation.version,
+          description: schedule.description || `定时构建${schedule.name ? `: ${schedule.name}` : ''}`,
+          operator: 'scheduler',
+          triggerType: TriggerType.SCHEDULED,
+        }, {
+          previousVersion: reservation.previousVersion,
+          buildNumber: reservation.buildNumber,
+        });
+      } catch (error) {
+        await this.versionService.release(miniprogram.id, reservation, true);
+        throw error;
+      }
+
+      this.logger.log(`定时构建计划 ${schedule.id} 触发构建任务: ${buildTask.id}`);
+
+      return {
+        lastTaskId: buildTask.id,
+        lastCommitId: lastCommitId ?? schedule.lastCommitId,
+        lastMessage: '构建任务已触发',
+      };
+    } catch (error) {
+      this.logger.error(`定时构建计划 ${schedule.id} 触发失败: ${error.message}`, error.stack);
+      return { lastMessage: `触发构建失败: ${error.message}`.slice(0, 255) };
+    }
+  }
+
+  /**
+   * 获取同一分支和构建类型最近一次成功的定时构建所构建的提交（构建时回写到任务）
+   */
+  private async getLastBuiltCommit(schedule: BuildSchedule): Promise<string | undefined> {
+    const task = await this.prisma.buildTask.findFirst({
+      where: {
+        appId: schedule.miniprogramId,
+        branch: schedule.branch,
+        type: schedule.type,
+        triggerType: TriggerType.SCHEDULED,
+        status: TaskStatus.SUCCESS,
+        commitId: { not: null },
+      },
+      orderBy: { endTime: 'desc' },
+      select: { commitId: true },
+    });
+
+    return task?.commitId || undefined;
+  }
+
+  /**
+   * 获取分支最新提交，获取失败时返回 undefined（按有新提交处理）
+   */
+  private async getHeadCommit(miniprogram: MiniprogramWithConfig, branch: string): Promise<string | undefined> {
+    if (!miniprogram.config?.gitUrl) {
+      return undefined;
+    }
+
+    try {
+      const sha = await this.gitOperationService.getBranchHead(
+        miniprogram.userId,
+        miniprogram.config.gitUrl,
+        branch,
+        miniprogram.config.gitCredentialId || undefined,
+      );
+      return sha || undefined;
+    } catch (error) {
+      this.logger.warn(`获取分支 ${branch} 最新提交失败: ${error.message}`);
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,124 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { User, UserRole } from '@prisma/client';
+import { RequirePermissions } from '../../common/decorators/auth.decorator';
+import { CurrentUser } from '../../common/decorators/user.decorator';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { BuildSchedulesService } from './build-schedules.service';
+import { CreateBuildScheduleDto } from './dto/create-build-schedule.dto';
+import { NextRunsQueryDto, PreviewScheduleDto } from './dto/preview-schedule.dto';
+import { UpdateBuildScheduleDto } from './dto/update-build-schedule.dto';
+
+@ApiTags('build-schedules')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@Controller('miniprograms/:miniprogramId/schedules')
+export class BuildSchedulesController {
+  constructor(private readonly buildSchedulesService: BuildSchedulesService) {}
+
+  @Post()
+  @RequirePermissions('miniprograms:update')
+  @ApiOperation({ summary: '创建定时构建计划' })
+  @ApiResponse({ status: 201, description: '定时构建计划创建成功' })
+  @ApiResponse({ status: 400, description: 'Cron表达式或时区无效' })
+  create(
+    @CurrentUser() user: User,
+    @Param('miniprogramId') miniprogramId: string,
+    @Body() createBuildScheduleDto: CreateBuildScheduleDto,
+  ) {
+    const userId = user.role === UserRole.ADMIN ? undefined : user.id;
+    return this.buildSchedulesService.create(miniprogramId, createBuildScheduleDto, userId);
+  }
+
+  @Post('preview')
+  @RequirePermissions('miniprograms:read')
+  @ApiOperation({ summary: '预览Cron表达式的执行时间' })
+  @ApiResponse({ status: 200, description: '获取执行时间成功' })
+  @ApiResponse({ status: 400, description: 'Cron表达式或时区无效' })
+  preview(@Body() previewScheduleDto: PreviewScheduleDto) {
+    return this.buildSchedulesService.preview(previewScheduleDto);
+  }
+
+  @Get()
+  @RequirePermissions('miniprograms:read')
+  @ApiOperation({ summary: '获取定时构建计划列表' })
+  @ApiResponse({ status: 200, description: '获取定时构建计划列表成功' })
+  findAll(@CurrentUser() user: User, @Param('miniprogramId') miniprogramId: string) {
+    const userId = user.role === UserRole.ADMIN ? undefined : user.id;
+    return this.buildSchedulesService.findAll(miniprogramId, userId);
+  }
+
+  @Get(':id')
+  @RequirePermissions('miniprograms:read')
+  @ApiOperation({ summary: '获取定时构建计划详情' })
+  @ApiResponse({ status: 200, description: '获取定时构建计划成功' })
+  @ApiResponse({ status: 404, description: '定时构建计划不存在' })
+  findOne(
+    @CurrentUser() user: User,
+    @Param('miniprogramId') miniprogramId: string,
+    @Param('id') id: string,
+  ) {
+    const userId = user.role === UserRole.ADMIN ? undefined : user.id;
+    return this.buildSchedulesService.findOne(miniprogramId, id, userId);
+  }
+
+  @Get(':id/next-runs')
+  @RequirePermissions('miniprograms:read')
+  @ApiOperation({ summary: '预览定时构建计划接下来的执行时间' })
+  @ApiResponse({ status: 200, description: '获取执行时间成功' })
+  @ApiResponse({ status: 404, description: '定时构建计划不存在' })
+  getNextRuns(
+    @CurrentUser() user: User,
+    @Param('miniprogramId') miniprogramId: string,
+    @Param('id') id: string,
+    @Query() query: NextRunsQueryDto,
+  ) {
+    const userId = user.role === UserRole.ADMIN ? undefined : user.id;
+    return this.buildSchedulesService.getNextRuns(miniprogramId, id, query.count, userId);
+  }
+
+  @Patch(':id')
+  @RequirePermissions('miniprograms:update')
+  @ApiOperation({ summary: '更新定时构建计划' })
+  @ApiResponse({ status: 200, description: '定时构建计划更新成功' })
+  @ApiResponse({ status: 404, description: '定时构建计划不存在' })
+  update(
+    @CurrentUser() user: User,
+    @Param('miniprogramId') miniprogramId: string,
+    @Param('id') id: string,
+    @Body() updateBuildScheduleDto: UpdateBuildScheduleDto,
+  ) {
+    const userId = user.role === UserRole.ADMIN ? undefined : user.id;
+    return this.buildSchedulesService.update(miniprogramId, id, updateBuildScheduleDto, userId);
+  }
+
+  @Delete(':id')
+  @RequirePermissions('miniprograms:update')
+  @ApiOperation({ summary: '删除定时构建计划' })
+  @ApiResponse({ status: 200, description: '定时构建计划删除成功' })
+  @ApiResponse({ status: 404, description: '定时构建计划不存在' })
+  remove(
+    @CurrentUser() user: User,
+    @Param('miniprogramId') miniprogramId: string,
+    @Param('id') id: string,
+  ) {
+    const userId = user.role === UserRole.ADMIN ? undefined : user.id;
+    return this.buildSchedulesService.remove(miniprogramId, id, userId);
+  }
+}
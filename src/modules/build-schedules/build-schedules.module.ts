@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { BuildSchedulesController } from './build-schedules.controller';
+import { BuildSchedulesService } from './build-schedules.service';
+import { BuildSchedulerService } from './build-scheduler.service';
+import { AuthModule } from '../auth/auth.module';
+import { MiniprogramsModule } from '../miniprograms/miniprograms.module';
+import { BuildTasksModule } from '../build-tasks/build-tasks.module';
+import { CommonModule } from '../../common/common.module';
+
+@Module({
+  imports: [AuthModule, MiniprogramsModule, BuildTasksModule, CommonModule],
+  controllers: [BuildSchedulesController],
+  providers: [BuildSchedulesService, BuildSchedulerService],
+  exports: [BuildSchedulesService],
+})
+export class BuildSchedulesModule {}
@@ -0,0 +1,40 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { MiniprogramsService } from '../miniprograms/miniprograms.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { BuildSchedulesService } from './build-schedules.service';
+
+describe('BuildSchedulesService', () => {
+  let service: BuildSchedulesService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BuildSchedulesService,
+        { provide: PrismaService, useValue: {} },
+        { provide: MiniprogramsService, useValue: { findOne: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<BuildSchedulesService>(BuildSchedulesService);
+  });
+
+  describe('getNextRunTimes', () => {
+    it('should evaluate the expression in the schedule timezone', () => {
+      const from = new Date('2026-10-19T00:00:00Z');
+
+      const times = service.getNextRunTimes('0 2 * * *', 'Asia/Shanghai', 2, from);
+
+      // 北京时间 02:00 即 UTC 前一天 18:00
+      expect(times.map((time) => time.toISOString())).toEqual([
+        '2026-10-19T18:00:00.000Z',
+        '2026-10-20T18:00:00.000Z',
+      ]);
+    });
+
+    it('should reject invalid expressions and timezones', () => {
+      expect(() => service.getNextRunTimes('not a cron', 'Asia/Shanghai', 1)).toThrow(BadRequestException);
+      expect(() => service.getNextRunTimes('0 2 * * *', 'Mars/Olympus', 1)).toThrow(BadRequestException);
+    });
+  });
+});
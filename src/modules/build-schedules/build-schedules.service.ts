@@ -0,0 +1,150 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { BuildSchedule } from '@prisma/client';
+import { parseExpression } from 'cron-parser';
+import { MiniprogramsService } from '../miniprograms/miniprograms.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { CreateBuildScheduleDto } from './dto/create-build-schedule.dto';
+import { PreviewScheduleDto } from './dto/preview-schedule.dto';
+import { UpdateBuildScheduleDto } from './dto/update-build-schedule.dto';
+
+export const DEFAULT_SCHEDULE_TIMEZONE = 'Asia/Shanghai';
+
+@Injectable()
+export class BuildSchedulesService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly miniprogramsService: MiniprogramsService,
+  ) {}
+
+  /**
+   * 创建定时构建计划
+   */
+  async create(miniprogramId: string, createBuildScheduleDto: CreateBuildScheduleDto, userId?: string): Promise<BuildSchedule> {
+    await this.ensureMiniprogram(miniprogramId, userId);
+
+    const timezone = createBuildScheduleDto.timezone || DEFAULT_SCHEDULE_TIMEZONE;
+    const enabled = createBuildScheduleDto.enabled ?? true;
+    const nextRunAt = this.getNextRunTimes(createBuildScheduleDto.cron, timezone, 1)[0];
+
+    return this.prisma.buildSchedule.create({
+      data: {
+        ...createBuildScheduleDto,
+        miniprogramId,
+        timezone,
+        enabled,
+        nextRunAt: enabled ? nextRunAt : null,
+      },
+    });
+  }
+
+  /**
+   * 查询小程序的定时构建计划
+   */
+  async findAll(miniprogramId: string, userId?: string): Promise<BuildSchedule[]> {
+    await this.ensureMiniprogram(miniprogramId, userId);
+
+    return this.prisma.buildSchedule.findMany({
+      where: { miniprogramId },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * 查询定时构建计划详情
+   */
+  async findOne(miniprogramId: string, id: string, userId?: string): Promise<BuildSchedule> {
+    await this.ensureMiniprogram(miniprogramId, userId);
+
+    const schedule = await this.prisma.buildSchedule.findFirst({
+      where: { id, miniprogramId },
+    });
+    if (!schedule) {
+      throw new NotFoundException('定时构建计划不存在');
+    }
+    return schedule;
+  }
+
+  /**
+   * 更新定时构建计划
+   * 表达式、时区或启用状态变化时重新计算下次执行时间
+   */
+  async update(
+    miniprogramId: string,
+    id: string,
+    updateBuildScheduleDto: UpdateBuildScheduleDto,
+    userId?: string,
+  ): Promise<BuildSchedule> {
+    const schedule = await this.findOne(miniprogramId, id, userId);
+
+    const cron = updateBuildScheduleDto.cron ?? schedule.cron;
+    const timezone = updateBuildScheduleDto.timezone || schedule.timezone;
+    const enabled = updateBuildScheduleDto.enabled ?? schedule.enabled;
+    const nextRunAt = this.getNextRunTimes(cron, timezone, 1)[0];
+
+    return this.prisma.buildSchedule.update({
+      where: { id },
+      data: {
+        ...updateBuildScheduleDto,
+        timezone,
+        nextRunAt: enabled ? nextRunAt : null,
+      },
+    });
+  }
+
+  /**
+   * 删除定时构建计划
+   */
+  async remove(miniprogramId: string, id: string, userId?: string): Promise<void> {
+    await this.findOne(miniprogramId, id, userId);
+    await this.prisma.buildSchedule.delete({ where: { id } });
+  }
+
+  /**
+   * 预览计划接下来的执行时间
+   */
+  async getNextRuns(miniprogramId: string, id: string, count = 5, userId?: string): Promise<Date[]> {
+    const schedule = await this.findOne(miniprogramId, id, userId);
+    return this.getNextRunTimes(schedule.cron, schedule.timezone, count);
+  }
+
+  /**
+   * 预览任意表达式接下来的执行时间（保存前校验）
+   */
+  preview(previewScheduleDto: PreviewScheduleDto): Date[] {
+    const { cron, timezone = DEFAULT_SCHEDULE_TIMEZONE, count = 5 } = previewScheduleDto;
+    return this.getNextRunTimes(cron, timezone, count);
+  }
+
+  /**
+   * 计算表达式在指定时间之后的执行时间
+   */
+  getNextRunTimes(cron: string, timezone: string, count: number, from: Date = new Date()): Date[] {
+    this.validateTimezone(timezone);
+
+    let interval;
+    try {
+      interval = parseExpression(cron, { currentDate: from, tz: timezone });
+    } catch (error) {
+      throw new BadRequestException(`无效的Cron表达式: ${error.message}`);
+    }
+
+    const times: Date[] = [];
+    for (let i = 0; i < count; i++) {
+      times.push(interval.next().toDate());
+    }
+    return times;
+  }
+
+  private validateTimezone(timezone: string): void {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    } catch {
+      throw new BadRequestException(`无效的时区: ${timezone}`);
+    }
+  }
+
+  private async ensureMiniprogram(miniprogramId: string, userId?: string): Promise<void> {
+    // 不存在或无权限时抛出 NotFoundException
+    await this.miniprogramsService.findOne(miniprogramId, userId);
+  }
+}
@@ -0,0 +1,52 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { BuildType, VersionStrategy } from '@prisma/client';
+import { IsBoolean, IsEnum, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class CreateBuildScheduleDto {
+  @ApiPropertyOptional({ description: '计划名称', maxLength: 100 })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  name?: string;
+
+  @ApiProperty({ description: 'Cron表达式（支持秒级，5或6段）', example: '0 2 * * *' })
+  @IsString()
+  @MaxLength(100)
+  cron: string;
+
+  @ApiPropertyOptional({ description: '时区', default: 'Asia/Shanghai' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  timezone?: string;
+
+  @ApiProperty({ description: 'Git分支', maxLength: 100 })
+  @IsString()
+  @MaxLength(100)
+  branch: string;
+
+  @ApiPropertyOptional({ description: '构建类型', enum: BuildType, default: BuildType.PREVIEW })
+  @IsOptional()
+  @IsEnum(BuildType)
+  type?: BuildType;
+
+  @ApiPropertyOptional({ description: '版本策略', enum: VersionStrategy, default: VersionStrategy.KEEP })
+  @IsOptional()
+  @IsEnum(VersionStrategy)
+  versionStrategy?: VersionStrategy;
+
+  @ApiPropertyOptional({ description: '版本描述' })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiPropertyOptional({ description: '自上次成功的定时构建以来没有新提交时跳过', default: false })
+  @IsOptional()
+  @IsBoolean()
+  skipIfNoChanges?: boolean;
+
+  @ApiPropertyOptional({ description: '是否启用', default: true })
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+}
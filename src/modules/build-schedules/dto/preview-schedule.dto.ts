@@ -0,0 +1,26 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, IsString, Max, MaxLength, Min } from 'class-validator';
+
+export class NextRunsQueryDto {
+  @ApiPropertyOptional({ description: '预览次数', minimum: 1, maximum: 20, default: 5 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(20)
+  count?: number;
+}
+
+export class PreviewScheduleDto extends NextRunsQueryDto {
+  @ApiProperty({ description: 'Cron表达式', example: '0 2 * * *' })
+  @IsString()
+  @MaxLength(100)
+  cron: string;
+
+  @ApiPropertyOptional({ description: '时区', default: 'Asia/Shanghai' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  timezone?: string;
+}
@@ -0,0 +1,4 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateBuildScheduleDto } from './create-build-schedule.dto';
+
+export class UpdateBuildScheduleDto extends PartialType(CreateBuildScheduleDto) {}
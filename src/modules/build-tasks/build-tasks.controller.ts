@@ -5,6 +5,7 @@ import {
   Param,
   Post,
   Query,
+  Res,
   UseGuards,
 } from '@nestjs/common';
 import {
@@ -15,7 +16,8 @@ import {
   ApiTags,
 } from '@nestjs/swagger';
 import { User, UserRole } from '@prisma/client';
-import { RequirePermissions } from '../../common/decorators/auth.decorator';
+import { Response } from 'express';
+import { Public, RequirePermissions } from '../../common/decorators/auth.decorator';
 import { CurrentUser } from '../../common/decorators/user.decorator';
 import { PaginationDto } from '../../common/dto/pagination.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
@@ -23,6 +25,7 @@ import { PermissionsGuard } from '../auth/guards/permissions.guard';
 import { BuildTasksService } from './build-tasks.service';
 import { CreateBuildTaskDto } from './dto/create-build-task.dto';
 import { BuildTaskQueryDto } from './dto/build-task-query.dto';
+import { BuildLogQueryDto } from './dto/build-log-query.dto';
 
 @ApiTags('build-tasks')
 @ApiBearerAuth()
@@ -83,6 +86,16 @@ export class BuildTasksController {
     return this.buildTasksService.getQueueStatus();
   }
 
+  @Get('pull-request-previews')
+  @RequirePermissions('buildTasks:read')
+  @ApiOperation({ summary: '获取未关闭 PR 的最新预览' })
+  @ApiResponse({ status: 200, description: '获取 PR 预览成功，二维码通过 qrcodeTaskId 对应任务的二维码接口获取' })
+  @ApiQuery({ name: 'appId', required: true, description: '小程序ID' })
+  findPullRequestPreviews(@CurrentUser() user: User, @Query('appId') appId: string) {
+    const userId = user.role === UserRole.ADMIN ? undefined : user.id;
+    return this.buildTasksService.findPullRequestPreviews(appId, userId);
+  }
+
   @Get(':id')
   @RequirePermissions('buildTasks:read')
   @ApiOperation({ summary: '根据ID获取构建任务详情' })
@@ -93,6 +106,43 @@ export class BuildTasksController {
     return this.buildTasksService.findOne(id, userId);
   }
 
+  @Get(':id/logs')
+  @RequirePermissions('buildTasks:read')
+  @ApiOperation({ summary: '分页获取构建日志' })
+  @ApiResponse({ status: 200, description: '获取构建日志成功' })
+  @ApiResponse({ status: 404, description: '构建任务不存在' })
+  getLogs(@CurrentUser() user: User, @Param('id') id: string, @Query() queryDto: BuildLogQueryDto) {
+    const userId = user.role === UserRole.ADMIN ? undefined : user.id;
+    return this.buildTasksService.getLogs(id, queryDto, userId);
+  }
+
+  @Get(':id/logs/raw')
+  @RequirePermissions('buildTasks:read')
+  @ApiOperation({ summary: '下载完整构建日志（纯文本）' })
+  @ApiResponse({ status: 200, description: '下载构建日志成功' })
+  @ApiResponse({ status: 404, description: '构建任务不存在' })
+  async downloadLogs(@CurrentUser() user: User, @Param('id') id: string, @Res() res: Response) {
+    const userId = user.role === UserRole.ADMIN ? undefined : user.id;
+    const content = await this.buildTasksService.getRawLog(id, userId);
+
+    res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="build-${id}.log"`);
+    res.send(content);
+  }
+
+  @Get(':id/qrcode')
+  @Public()
+  @ApiOperation({ summary: '获取预览二维码图片（用于 PR 评论等外部引用）' })
+  @ApiResponse({ status: 200, description: '获取预览二维码成功' })
+  @ApiResponse({ status: 404, description: '预览二维码不存在' })
+  async getQrcode(@Param('id') id: string, @Res() res: Response) {
+    const image = await this.buildTasksService.getQrcodeImage(id);
+
+    res.setHeader('Content-Type', 'image/jpeg');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.send(image);
+  }
+
   @Post(':id/cancel')
   @RequirePermissions('buildTasks:update')
   @ApiOperation({ summary: '取消构建任务' })
@@ -4,23 +4,45 @@ import { BuildTasksController } from './build-tasks.controller';
 import { BuildTasksService } from './build-tasks.service';
 import { BuildProcessor } from './processors/build.processor';
 import { BuildService } from './services/build.service';
+import { WorkspaceCacheService } from './services/workspace-cache.service';
+import { BuildCancellationService } from './services/build-cancellation.service';
+import { BuildLogService } from './services/build-log.service';
+import { PullRequestPreviewService } from './services/pull-request-preview.service';
+import { ChangelogService } from './services/changelog.service';
 import { MiniprogramsModule } from '../miniprograms/miniprograms.module';
 import { AuthModule } from '../auth/auth.module';
 import { GitCredentialsModule } from '../git-credentials/git-credentials.module';
+import { EnvVariablesModule } from '../env-variables/env-variables.module';
 import { WebsocketModule } from '../websocket/websocket.module';
+import { OutboundWebhooksModule } from '../outbound-webhooks/outbound-webhooks.module';
+import { CommitStatusModule } from '../commit-status/commit-status.module';
+import { NotificationsModule } from '../notifications/notifications.module';
 
 @Module({
   imports: [
     AuthModule,
     MiniprogramsModule,
     GitCredentialsModule,
+    EnvVariablesModule,
     WebsocketModule,
+    OutboundWebhooksModule,
+    CommitStatusModule,
+    NotificationsModule,
     BullModule.registerQueue({
       name: 'build',
     }),
   ],
   controllers: [BuildTasksController],
-  providers: [BuildTasksService, BuildProcessor, BuildService],
-  exports: [BuildTasksService],
+  providers: [
+    BuildTasksService,
+    BuildProcessor,
+    BuildService,
+    WorkspaceCacheService,
+    BuildCancellationService,
+    BuildLogService,
+    PullRequestPreviewService,
+    ChangelogService,
+  ],
+  exports: [BuildTasksService, PullRequestPreviewService],
 })
 export class BuildTasksModule {}
\ No newline at end of file
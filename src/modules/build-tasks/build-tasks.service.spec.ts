@@ -0,0 +1,78 @@
+import { getQueueToken } from '@nestjs/bull';
+import { Test, TestingModule } from '@nestjs/testing';
+import { BuildType, TaskStatus } from '@prisma/client';
+import { LogRedactionService } from '../../common/services/log-redaction.service';
+import { CommitStatusService } from '../commit-status/commit-status.service';
+import { MiniprogramsService } from '../miniprograms/miniprograms.service';
+import { VersionService } from '../miniprograms/version.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { BuildNotificationEvent } from '../notifications/services/notification-template.service';
+import { OutboundWebhooksService } from '../outbound-webhooks/outbound-webhooks.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { BuildGateway } from '../websocket/gateways/build.gateway';
+import { BuildTasksService } from './build-tasks.service';
+import { BuildCancellationService } from './services/build-cancellation.service';
+import { BuildLogService } from './services/build-log.service';
+import { PullRequestPreviewService } from './services/pull-request-preview.service';
+
+describe('BuildTasksService', () => {
+  let service: BuildTasksService;
+  let task: Record<string, any>;
+
+  const mockPrisma = {
+    buildTask: {
+      findFirst: jest.fn(async () => ({ ...task })),
+      findUnique: jest.fn(async () => task),
+      update: jest.fn(async ({ data }) => Object.assign(task, data)),
+    },
+  };
+  const job = { data: { taskId: 'task-1' }, remove: jest.fn() };
+  const mockQueue = { getJobs: jest.fn(async () => [job]) };
+  const mockGateway = { sendBuildStatus: jest.fn() };
+  const mockNotificationsService = { sendBuildNotification: jest.fn(), setLogTailProvider: jest.fn() };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    task = { id: 'task-1', appId: 'mp-1', type: BuildType.PREVIEW, status: TaskStatus.PENDING };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BuildTasksService,
+        { provide: PrismaService, useValue: mockPrisma },
+        { provide: getQueueToken('build'), useValue: mockQueue },
+        { provide: MiniprogramsService, useValue: {} },
+        { provide: BuildCancellationService, useValue: { requestCancel: jest.fn() } },
+        { provide: LogRedactionService, useValue: {} },
+        { provide: BuildLogService, useValue: {} },
+        { provide: OutboundWebhooksService, useValue: { publish: jest.fn() } },
+        { provide: CommitStatusService, useValue: { report: jest.fn() } },
+        { provide: PullRequestPreviewService, useValue: {} },
+        { provide: VersionService, useValue: { release: jest.fn() } },
+        { provide: NotificationsService, useValue: mockNotificationsService },
+        { provide: BuildGateway, useValue: mockGateway },
+      ],
+    }).compile();
+
+    service = module.get<BuildTasksService>(BuildTasksService);
+  });
+
+  describe('cancel', () => {
+    it('should push the cancelled status of a queued task to subscribers', async () => {
+      await service.cancel('task-1');
+
+      expect(job.remove).toHaveBeenCalled();
+      expect(task.status).toBe(TaskStatus.CANCELLED);
+      expect(mockGateway.sendBuildStatus).toHaveBeenCalledWith('task-1', TaskStatus.CANCELLED, { message: '构建已取消' });
+      expect(mockNotificationsService.sendBuildNotification).toHaveBeenCalledWith('task-1', BuildNotificationEvent.CANCEL);
+    });
+
+    it('should leave the status push of a running task to the processor', async () => {
+      task.status = TaskStatus.RUNNING;
+
+      await service.cancel('task-1');
+
+      expect(mockGateway.sendBuildStatus).not.toHaveBeenCalled();
+      expect(mockNotificationsService.sendBuildNotification).not.toHaveBeenCalled();
+    });
+  });
+});
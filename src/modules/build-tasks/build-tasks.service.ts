@@ -1,37 +1,99 @@
-import { Injectable, NotFoundException, BadRequestException, Logger } from '@nestjs/common';
+import { Injectable, NotFoundException, BadRequestException, Logger, OnModuleInit } from '@nestjs/common';
 import { InjectQueue } from '@nestjs/bull';
 import { Queue } from 'bull';
-import { BuildTask, TaskStatus, Prisma, User, UserRole, BuildType } from '@prisma/client';
+import { BuildTask, TaskStatus, Prisma, User, UserRole, BuildType, PullRequestPreview } from '@prisma/client';
 import { v4 as uuidv4 } from 'uuid';
 import { PrismaService } from '../prisma/prisma.service';
 import { MiniprogramsService } from '../miniprograms/miniprograms.service';
+import { VersionService } from '../miniprograms/version.service';
 import { CreateBuildTaskDto } from './dto/create-build-task.dto';
 import { PaginationDto, PaginationResult } from '../../common/dto/pagination.dto';
+import { LogRedactionService } from '../../common/services/log-redaction.service';
+import { BuildCancellationService } from './services/build-cancellation.service';
+import { BuildStepResult, readPreviewQrcode } from './services/build.service';
+import { BuildLogPage, BuildLogService, LogLevel } from './services/build-log.service';
+import { BuildLogQueryDto } from './dto/build-log-query.dto';
+import { OutboundWebhooksService } from '../outbound-webhooks/outbound-webhooks.service';
+import { OutboundWebhookEvent } from '../outbound-webhooks/dto/create-outbound-webhook.dto';
+import { CommitStatusService } from '../commit-status/commit-status.service';
+import { PullRequestPreviewService } from './services/pull-request-preview.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { BuildNotificationEvent } from '../notifications/services/notification-template.service';
+import { BuildGateway } from '../websocket/gateways/build.gateway';
 
 export interface BuildJobData {
   taskId: string;
   appId: string;
   type: BuildType;
   branch: string;
+  tag?: string;
+  pullRequestNumber?: number; // PR 预览时从目标仓库拉取 PR 引用
+  gitProvider?: string;
   version: string;
   description?: string;
   operator: string;
 }
 
+/**
+ * Webhook 和定时构建创建任务时的内部参数，不通过接口开放
+ */
+export interface CreateBuildTaskOptions {
+  previousVersion?: string | null; // 预留版本号前的版本，构建失败时用于回滚
+  buildNumber?: number | null; // 预留版本号时分配的构建号
+  gitProvider?: string; // 代码平台，用于回写提交状态
+  pullRequestNumber?: number;
+}
+
+// 任务状态对应的出站 Webhook 事件
+const STATUS_EVENTS: Partial<Record<TaskStatus, OutboundWebhookEvent>> = {
+  [TaskStatus.RUNNING]: OutboundWebhookEvent.BUILD_STARTED,
+  [TaskStatus.SUCCESS]: OutboundWebhookEvent.BUILD_SUCCEEDED,
+  [TaskStatus.FAILED]: OutboundWebhookEvent.BUILD_FAILED,
+  [TaskStatus.CANCELLED]: OutboundWebhookEvent.BUILD_CANCELLED,
+};
+
+export interface UpdateStatusOptions {
+  willRetry?: boolean; // 失败后队列还会重试
+  isRetry?: boolean; // 队列自动重试的执行
+}
+
+export interface AppendLogOptions {
+  level?: LogLevel;
+  stage?: string;
+}
+
 @Injectable()
-export class BuildTasksService {
+export class BuildTasksService implements OnModuleInit {
   private readonly logger = new Logger(BuildTasksService.name);
 
   constructor(
     private readonly prisma: PrismaService,
     private readonly miniprogramsService: MiniprogramsService,
     @InjectQueue('build') private readonly buildQueue: Queue,
+    private readonly buildCancellationService: BuildCancellationService,
+    private readonly logRedactionService: LogRedactionService,
+    private readonly buildLogService: BuildLogService,
+    private readonly outboundWebhooksService: OutboundWebhooksService,
+    private readonly commitStatusService: CommitStatusService,
+    private readonly pullRequestPreviewService: PullRequestPreviewService,
+    private readonly versionService: VersionService,
+    private readonly notificationsService: NotificationsService,
+    private readonly buildGateway: BuildGateway,
   ) {}
 
+  onModuleInit(): void {
+    // 失败邮件通知发送和重试时读取日志末尾
+    this.notificationsService.setLogTailProvider((taskId) => this.getLogTail(taskId));
+  }
+
   /**
    * 创建构建任务
    */
-  async create(userId: string, createBuildTaskDto: CreateBuildTaskDto): Promise<BuildTask> {
+  async create(
+    userId: string,
+    createBuildTaskDto: CreateBuildTaskDto,
+    options: CreateBuildTaskOptions = {},
+  ): Promise<BuildTask> {
     const { appId, ...taskData } = createBuildTaskDto;
 
     // 检查小程序是否存在
@@ -46,11 +108,12 @@ export class BuildTasksService {
       throw new BadRequestException('无权限操作该小程序');
     }
 
-    // 检查是否有正在进行的同类型任务
+    // 检查是否有正在进行的同类型任务，PR 预览只与同一 PR 的任务互斥
     const runningTask = await this.prisma.buildTask.findFirst({
       where: {
         appId,
         type: taskData.type,
+        pullRequestNumber: options.pullRequestNumber ?? null,
         status: {
           in: [TaskStatus.PENDING, TaskStatus.RUNNING],
         },
@@ -78,6 +141,7 @@ export class BuildTasksService {
         appId,
         userId,
         ...taskData,
+        ...options,
         status: TaskStatus.PENDING,
         createTime: new Date(),
       },
@@ -105,6 +169,9 @@ export class BuildTasksService {
       appId,
       type: taskData.type,
       branch: taskData.branch,
+      tag: taskData.tag,
+      pullRequestNumber: options.pullRequestNumber,
+      gitProvider: options.gitProvider,
       version: taskData.version,
       description: taskData.description,
       operator: taskData.operator,
@@ -122,6 +189,8 @@ export class BuildTasksService {
     });
 
     this.logger.log(`Build task ${taskId} created and added to queue`);
+    await this.outboundWebhooksService.publish(OutboundWebhookEvent.BUILD_QUEUED, buildTask);
+    this.reportCommitStatus(buildTask);
 
     return buildTask;
   }
@@ -250,6 +319,7 @@ export class BuildTasksService {
     id: string,
     status: TaskStatus,
     data?: Partial<BuildTask>,
+    options: UpdateStatusOptions = {},
   ): Promise<BuildTask> {
     const updateData: any = { status };
 
@@ -257,7 +327,7 @@ export class BuildTasksService {
       updateData.startTime = new Date();
     }
 
-    if (status === TaskStatus.SUCCESS || status === TaskStatus.FAILED) {
+    if (status === TaskStatus.SUCCESS || status === TaskStatus.FAILED || status === TaskStatus.CANCELLED) {
       updateData.endTime = new Date();
       
       // 计算耗时
@@ -274,7 +344,7 @@ export class BuildTasksService {
       Object.assign(updateData, data);
     }
 
-    return this.prisma.buildTask.update({
+    const buildTask = await this.prisma.buildTask.update({
       where: { id },
       data: updateData,
       include: {
@@ -294,6 +364,23 @@ export class BuildTasksService {
         },
       },
     });
+
+    if (status === TaskStatus.SUCCESS && buildTask.type === BuildType.PREVIEW && buildTask.pullRequestNumber) {
+      await this.pullRequestPreviewService.recordQrcode(buildTask);
+    }
+    // 队列重试时仍使用预留的版本号，最后一次失败或取消时才回滚
+    if ((status === TaskStatus.FAILED && !options.willRetry) || status === TaskStatus.CANCELLED) {
+      await this.releaseVersion(buildTask);
+    }
+    // 队列重试对外视为同一次构建，只在首次开始和最终失败时通知
+    const retrying = (status === TaskStatus.RUNNING && options.isRetry)
+      || (status === TaskStatus.FAILED && options.willRetry);
+    if (STATUS_EVENTS[status] && !retrying) {
+      await this.outboundWebhooksService.publish(STATUS_EVENTS[status], buildTask);
+    }
+    this.reportCommitStatus(buildTask);
+
+    return buildTask;
   }
 
   /**
@@ -307,19 +394,62 @@ export class BuildTasksService {
   }
 
   /**
-   * 添加构建日志
+   * 更新流水线步骤执行记录
    */
-  async appendLog(id: string, log: string): Promise<void> {
-    const task = await this.prisma.buildTask.findUnique({ where: { id } });
-    const currentLog = task?.buildLog || '';
-    const newLog = currentLog + log + '\n';
-
+  async updateSteps(id: string, steps: BuildStepResult[]): Promise<void> {
     await this.prisma.buildTask.update({
       where: { id },
-      data: { buildLog: newLog },
+      data: { steps: steps as unknown as Prisma.InputJsonValue },
     });
   }
 
+  /**
+   * 添加构建日志（脱敏后追加写入）
+   */
+  async appendLog(id: string, log: string, options: AppendLogOptions = {}): Promise<void> {
+    await this.buildLogService.append(id, this.logRedactionService.redact(log, id), {
+      level: options.level || LogLevel.INFO,
+      stage: options.stage,
+    });
+  }
+
+  /**
+   * 写入缓冲中的剩余日志
+   */
+  async flushLogs(id: string): Promise<void> {
+    await this.buildLogService.close(id);
+  }
+
+  /**
+   * 分页查询构建日志
+   */
+  async getLogs(id: string, queryDto: BuildLogQueryDto, userId?: string): Promise<BuildLogPage> {
+    await this.findOne(id, userId);
+    return this.buildLogService.query(id, queryDto);
+  }
+
+  /**
+   * 获取纯文本格式的完整构建日志
+   */
+  async getRawLog(id: string, userId?: string): Promise<string> {
+    const task = await this.findOne(id, userId);
+    const lines = await this.buildLogService.getLines(id);
+
+    // 旧任务的日志仍保存在 buildLog 字段中
+    if (lines.length === 0) {
+      return task.buildLog || '';
+    }
+    return this.buildLogService.formatLines(lines);
+  }
+
+  /**
+   * 获取日志末尾若干行的纯文本，用于失败通知
+   */
+  async getLogTail(id: string, lineCount = 200): Promise<string> {
+    const lines = await this.buildLogService.getLines(id);
+    return this.buildLogService.formatLines(lines.slice(-lineCount));
+  }
+
   /**
    * 取消构建任务
    */
@@ -330,14 +460,81 @@ export class BuildTasksService {
       throw new BadRequestException('只能取消等待中或运行中的任务');
     }
 
-    // 从队列中移除任务
-    const jobs = await this.buildQueue.getJobs(['waiting', 'active']);
+    // 从队列中移除尚未开始的任务（执行中的任务处于锁定状态，无法直接移除）
+    const jobs = await this.buildQueue.getJobs(['waiting', 'delayed']);
     const job = jobs.find(j => j.data.taskId === id);
     if (job) {
       await job.remove();
     }
 
-    return this.updateStatus(id, TaskStatus.CANCELLED);
+    // 通知执行中的构建中止，同时防止刚被取走的任务继续执行
+    await this.buildCancellationService.requestCancel(id);
+
+    const cancelledTask = await this.updateStatus(id, TaskStatus.CANCELLED);
+    // 执行中的任务由构建处理器在中止后推送状态和发送取消通知
+    if (task.status === TaskStatus.PENDING) {
+      this.buildGateway.sendBuildStatus(id, TaskStatus.CANCELLED, { message: '构建已取消' });
+      await this.notificationsService.sendBuildNotification(id, BuildNotificationEvent.CANCEL);
+    }
+
+    return cancelledTask;
+  }
+
+  /**
+   * 取消 PR 尚未完成的预览任务，返回取消的数量
+   */
+  async cancelPullRequestPreviews(appId: string, pullRequestNumber: number): Promise<number> {
+    const tasks = await this.prisma.buildTask.findMany({
+      where: {
+        appId,
+        pullRequestNumber,
+        type: BuildType.PREVIEW,
+        status: {
+          in: [TaskStatus.PENDING, TaskStatus.RUNNING],
+        },
+      },
+      select: { id: true },
+    });
+
+    let cancelled = 0;
+    for (const task of tasks) {
+      try {
+        await this.cancel(task.id);
+        cancelled++;
+        this.logger.log(`Build task ${task.id} superseded for pull request #${pullRequestNumber}`);
+      } catch (error) {
+        // 查询后任务可能已经结束
+        this.logger.warn(`Failed to cancel superseded build task ${task.id}: ${error.message}`);
+      }
+    }
+    return cancelled;
+  }
+
+  /**
+   * 获取最近一次成功上传的提交，用于生成更新日志
+   */
+  async findLastUploadCommit(appId: string): Promise<string | null> {
+    const task = await this.prisma.buildTask.findFirst({
+      where: {
+        appId,
+        type: BuildType.UPLOAD,
+        status: TaskStatus.SUCCESS,
+        commitId: { not: null },
+        NOT: { commitId: 'unknown' },
+      },
+      orderBy: { endTime: 'desc' },
+      select: { commitId: true },
+    });
+
+    return task?.commitId ?? null;
+  }
+
+  /**
+   * 查询小程序未关闭 PR 的最新预览
+   */
+  async findPullRequestPreviews(appId: string, userId?: string): Promise<PullRequestPreview[]> {
+    await this.miniprogramsService.findOne(appId, userId);
+    return this.pullRequestPreviewService.findOpen(appId);
   }
 
   /**
@@ -366,6 +563,8 @@ export class BuildTasksService {
         endTime: null,
         duration: null,
         errorMessage: null,
+        failureReason: null,
+        steps: Prisma.DbNull,
       },
       include: {
         miniprogram: {
@@ -391,6 +590,9 @@ export class BuildTasksService {
       appId: task.appId,
       type: task.type,
       branch: task.branch,
+      tag: task.tag || undefined,
+      pullRequestNumber: task.pullRequestNumber ?? undefined,
+      gitProvider: task.gitProvider ?? undefined,
       version: task.version,
       description: task.description,
       operator: task.operator,
@@ -404,6 +606,8 @@ export class BuildTasksService {
     });
 
     this.logger.log(`Build task ${id} retried and added to queue`);
+    await this.outboundWebhooksService.publish(OutboundWebhookEvent.BUILD_QUEUED, updatedTask);
+    this.reportCommitStatus(updatedTask);
 
     return updatedTask;
   }
@@ -482,4 +686,40 @@ export class BuildTasksService {
     this.logger.log(`Cleaned up ${result.count} expired build tasks`);
     return result.count;
   }
+
+  /**
+   * 读取预览二维码图片，base64 格式输出的文件解码后返回
+   */
+  async getQrcodeImage(id: string): Promise<Buffer> {
+    const task = await this.prisma.buildTask.findUnique({ where: { id } });
+    if (!task || task.type !== BuildType.PREVIEW || task.status !== TaskStatus.SUCCESS) {
+      throw new NotFoundException('预览二维码不存在');
+    }
+
+    const image = await readPreviewQrcode(id);
+    if (!image) {
+      throw new NotFoundException('预览二维码不存在');
+    }
+    return image;
+  }
+
+  /**
+   * 回写提交状态，涉及外部请求，不阻塞构建流程
+   */
+  private reportCommitStatus(task: BuildTask): void {
+    void this.commitStatusService.report(task);
+  }
+
+  /**
+   * 按小程序配置回滚构建预留的版本号，失败只记录日志
+   */
+  private async releaseVersion(task: BuildTask): Promise<void> {
+    try {
+      if (await this.versionService.release(task.appId, task)) {
+        this.logger.log(`Build task ${task.id} version ${task.version} rolled back to ${task.previousVersion}`);
+      }
+    } catch (error) {
+      this.logger.warn(`Failed to roll back version of build task ${task.id}: ${error.message}`);
+    }
+  }
 }
\ No newline at end of file
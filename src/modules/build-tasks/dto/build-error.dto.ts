@@ -0,0 +1,25 @@
+import { FailureReason } from '@prisma/client';
+
+/**
+ * 构建异常
+ */
+export class BuildException extends Error {
+  constructor(
+    public readonly reason: FailureReason,
+    public readonly message: string,
+    public readonly originalError?: Error,
+  ) {
+    super(message);
+    this.name = 'BuildException';
+  }
+}
+
+/**
+ * 构建被取消
+ */
+export class BuildCancelledException extends Error {
+  constructor(message = '构建已取消') {
+    super(message);
+    this.name = 'BuildCancelledException';
+  }
+}
@@ -0,0 +1,36 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsEnum, IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+import { LogLevel } from '../services/build-log.service';
+
+export class BuildLogQueryDto {
+  @ApiPropertyOptional({ description: '起始行（过滤后的偏移量）', minimum: 0, default: 0 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  offset?: number = 0;
+
+  @ApiPropertyOptional({ description: '返回行数', minimum: 1, maximum: 5000, default: 500 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(5000)
+  limit?: number = 500;
+
+  @ApiPropertyOptional({ description: '日志级别', enum: LogLevel })
+  @IsOptional()
+  @IsEnum(LogLevel)
+  level?: LogLevel;
+
+  @ApiPropertyOptional({ description: '流水线步骤，如 CLONE、INSTALL、BUILD' })
+  @IsOptional()
+  @IsString()
+  stage?: string;
+
+  @ApiPropertyOptional({ description: '搜索关键词' })
+  @IsOptional()
+  @IsString()
+  search?: string;
+}
@@ -1,4 +1,4 @@
-import { IsString, IsOptional, IsEnum, IsInt, Min, Max } from 'class-validator';
+import { IsString, IsOptional, IsEnum, IsInt, Min, Max, MaxLength } from 'class-validator';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import { BuildType, TriggerType } from '@prisma/client';
 
@@ -27,6 +27,22 @@ export class CreateBuildTaskDto {
   @IsString()
   commitId?: string;
 
+  @ApiPropertyOptional({ description: '提交信息' })
+  @IsOptional()
+  @IsString()
+  commitMessage?: string;
+
+  @ApiPropertyOptional({ description: '提交作者' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  commitAuthor?: string;
+
+  @ApiPropertyOptional({ description: 'Git标签，设置后检出该标签而不是分支最新提交' })
+  @IsOptional()
+  @IsString()
+  tag?: string;
+
   @ApiProperty({ description: '版本号' })
   @IsString()
   version: string;
@@ -0,0 +1,129 @@
+import { getQueueToken } from '@nestjs/bull';
+import { Test, TestingModule } from '@nestjs/testing';
+import { BuildType, TaskStatus } from '@prisma/client';
+import { Job } from 'bull';
+import { LogRedactionService } from '../../../common/services/log-redaction.service';
+import { CommitStatusService } from '../../commit-status/commit-status.service';
+import { MiniprogramsService } from '../../miniprograms/miniprograms.service';
+import { VersionService } from '../../miniprograms/version.service';
+import { NotificationsService } from '../../notifications/notifications.service';
+import { OutboundWebhookEvent } from '../../outbound-webhooks/dto/create-outbound-webhook.dto';
+import { OutboundWebhooksService } from '../../outbound-webhooks/outbound-webhooks.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { BuildGateway } from '../../websocket/gateways/build.gateway';
+import { BuildJobData, BuildTasksService } from '../build-tasks.service';
+import { BuildCancellationService } from '../services/build-cancellation.service';
+import { BuildLogService } from '../services/build-log.service';
+import { BuildService } from '../services/build.service';
+import { PullRequestPreviewService } from '../services/pull-request-preview.service';
+import { BuildProcessor } from './build.processor';
+
+describe('BuildProcessor', () => {
+  let processor: BuildProcessor;
+  let task: Record<string, any>;
+
+  const mockPrisma = {
+    buildTask: {
+      findUnique: jest.fn(async () => task),
+      update: jest.fn(async ({ data }) => Object.assign(task, data)),
+    },
+  };
+  const mockBuildService = { build: jest.fn() };
+  const mockVersionService = { release: jest.fn() };
+  const mockNotificationsService = { sendBuildNotification: jest.fn() };
+  const mockOutboundWebhooksService = { publish: jest.fn() };
+  const mockBuildLogService = {
+    append: jest.fn(),
+    close: jest.fn(),
+    getLines: jest.fn(async () => []),
+    formatLines: jest.fn(() => ''),
+  };
+  const mockMiniprogramsService = {
+    findOne: jest.fn(async () => ({ id: 'mp-1', name: 'demo', appId: 'wx1', config: {} })),
+  };
+
+  const jobData: BuildJobData = {
+    taskId: 'task-1',
+    appId: 'mp-1',
+    type: BuildType.UPLOAD,
+    branch: 'main',
+    version: '1.0.1',
+    operator: 'alice',
+  };
+
+  // 模拟 Bull 按 attempts 重试同一个任务
+  const run = (attemptsMade: number) => processor.handleBuildMiniprogram({
+    data: jobData,
+    attemptsMade,
+    opts: { attempts: 3 },
+  } as Job<BuildJobData>);
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    task = { id: 'task-1', appId: 'mp-1', type: BuildType.UPLOAD, version: '1.0.1', previousVersion: '1.0.0', buildNumber: 5 };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BuildProcessor,
+        BuildTasksService,
+        { provide: PrismaService, useValue: mockPrisma },
+        { provide: getQueueToken('build'), useValue: {} },
+        { provide: BuildService, useValue: mockBuildService },
+        { provide: VersionService, useValue: mockVersionService },
+        { provide: NotificationsService, useValue: mockNotificationsService },
+        { provide: BuildLogService, useValue: mockBuildLogService },
+        { provide: MiniprogramsService, useValue: mockMiniprogramsService },
+        { provide: BuildCancellationService, useValue: { isCancelRequested: jest.fn(async () => false) } },
+        { provide: LogRedactionService, useValue: { redact: (log: string) => log } },
+        { provide: OutboundWebhooksService, useValue: mockOutboundWebhooksService },
+        { provide: CommitStatusService, useValue: { report: jest.fn() } },
+        { provide: PullRequestPreviewService, useValue: { recordQrcode: jest.fn() } },
+        { provide: BuildGateway, useValue: { sendBuildStatus: jest.fn() } },
+      ],
+    }).compile();
+
+    processor = module.get<BuildProcessor>(BuildProcessor);
+  });
+
+  it('should keep the reserved version when a failed attempt succeeds on retry', async () => {
+    mockBuildService.build
+      .mockRejectedValueOnce(new Error('npm install 失败'))
+      .mockResolvedValueOnce({
+        qrcodeUrl: null,
+        packageSize: [],
+        commitId: 'abc123',
+        commitMessage: 'fix: deps',
+        commitAuthor: 'alice',
+      });
+
+    await expect(run(0)).rejects.toThrow('npm install 失败');
+    expect(task.status).toBe(TaskStatus.FAILED);
+
+    await run(1);
+
+    expect(task).toMatchObject({ status: TaskStatus.SUCCESS, version: '1.0.1', commitId: 'abc123', commitAuthor: 'alice' });
+    expect(mockVersionService.release).not.toHaveBeenCalled();
+  });
+
+  it('should roll back the version after the final attempt fails', async () => {
+    mockBuildService.build.mockRejectedValue(new Error('npm install 失败'));
+
+    await expect(run(1)).rejects.toThrow();
+    expect(mockVersionService.release).not.toHaveBeenCalled();
+
+    await expect(run(2)).rejects.toThrow();
+    expect(mockVersionService.release).toHaveBeenCalledTimes(1);
+    expect(mockVersionService.release).toHaveBeenCalledWith('mp-1', expect.objectContaining({ version: '1.0.1' }));
+  });
+
+  it('should publish one started and one final event across retries', async () => {
+    mockBuildService.build.mockRejectedValue(new Error('npm install 失败'));
+
+    for (const attemptsMade of [0, 1, 2]) {
+      await expect(run(attemptsMade)).rejects.toThrow();
+    }
+
+    expect(mockOutboundWebhooksService.publish.mock.calls.map(([event]) => event))
+      .toEqual([OutboundWebhookEvent.BUILD_STARTED, OutboundWebhookEvent.BUILD_FAILED]);
+  });
+});
@@ -1,10 +1,15 @@
 import { Process, Processor } from '@nestjs/bull';
 import { Logger } from '@nestjs/common';
 import { Job } from 'bull';
-import { TaskStatus } from '@prisma/client';
+import { BuildType, FailureReason, TaskStatus } from '@prisma/client';
 import { BuildTasksService, BuildJobData } from '../build-tasks.service';
 import { MiniprogramsService } from '../../miniprograms/miniprograms.service';
-import { BuildService } from '../services/build.service';
+import { BuildService, getPullRequestRef } from '../services/build.service';
+import { BuildCancelledException, BuildException } from '../dto/build-error.dto';
+import { BuildCancellationService } from '../services/build-cancellation.service';
+import { LogLevel } from '../services/build-log.service';
+import { NotificationsService } from '../../notifications/notifications.service';
+import { BuildNotificationEvent } from '../../notifications/services/notification-template.service';
 
 @Processor('build')
 export class BuildProcessor {
@@ -14,18 +19,33 @@ export class BuildProcessor {
     private readonly buildTasksService: BuildTasksService,
     private readonly miniprogramsService: MiniprogramsService,
     private readonly buildService: BuildService,
+    private readonly buildCancellationService: BuildCancellationService,
+    private readonly notificationsService: NotificationsService,
   ) {}
 
   @Process('build-miniprogram')
   async handleBuildMiniprogram(job: Job<BuildJobData>): Promise<void> {
-    const { taskId, appId, type, branch, version, description, operator } = job.data;
+    const { taskId, appId, type, branch, tag, pullRequestNumber, gitProvider, version, description, operator } = job.data;
+
+    if (await this.buildCancellationService.isCancelRequested(taskId)) {
+      this.logger.log(`Build task ${taskId} was cancelled before start, skipping`);
+      return;
+    }
 
     this.logger.log(`Starting build task ${taskId} for app ${appId}`);
+    // 失败后由队列重试，开始和失败通知只在首次执行和最后一次失败时发送
+    const firstAttempt = job.attemptsMade === 0;
+    const finalAttempt = job.attemptsMade + 1 >= (job.opts.attempts || 1);
 
     try {
       // 更新任务状态为运行中
-      await this.buildTasksService.updateStatus(taskId, TaskStatus.RUNNING);
-      await this.buildTasksService.appendLog(taskId, `[${new Date().toISOString()}] 开始构建任务`);
+      await this.buildTasksService.updateStatus(taskId, TaskStatus.RUNNING, undefined, {
+        isRetry: !firstAttempt,
+      });
+      await this.buildTasksService.appendLog(taskId, '开始构建任务');
+      if (firstAttempt) {
+        await this.notificationsService.sendBuildNotification(taskId, BuildNotificationEvent.START);
+      }
 
       // 获取小程序配置
       const miniprogram = await this.miniprogramsService.findOne(appId);
@@ -35,29 +55,41 @@ export class BuildProcessor {
 
       await this.buildTasksService.appendLog(
         taskId,
-        `[${new Date().toISOString()}] 小程序: ${miniprogram.name} (${miniprogram.appId})`,
+        `小程序: ${miniprogram.name} (${miniprogram.appId})`,
       );
 
       // 更新进度
       await this.buildTasksService.updateProgress(taskId, 10);
 
+      // 生成更新日志时以上次成功上传的提交为起点
+      const changelogSince = type === BuildType.UPLOAD && miniprogram.config?.changelogEnabled
+        ? await this.buildTasksService.findLastUploadCommit(appId)
+        : undefined;
+
       // 执行构建
       const buildResult = await this.buildService.build({
         taskId,
         miniprogram,
         type,
         branch,
+        tag,
+        // Fork 的源分支不在目标仓库中，PR 统一从 PR 引用拉取
+        pullRequestRef: pullRequestNumber ? getPullRequestRef(gitProvider, pullRequestNumber) : undefined,
         version,
         description,
+        changelogSince,
         operator,
         onProgress: async (progress: number, message?: string) => {
           await this.buildTasksService.updateProgress(taskId, progress);
           if (message) {
-            await this.buildTasksService.appendLog(taskId, `[${new Date().toISOString()}] ${message}`);
+            await this.buildTasksService.appendLog(taskId, message);
           }
         },
-        onLog: async (log: string) => {
-          await this.buildTasksService.appendLog(taskId, `[${new Date().toISOString()}] ${log}`);
+        onLog: async (log, meta) => {
+          await this.buildTasksService.appendLog(taskId, log, meta);
+        },
+        onStepsChange: async (steps) => {
+          await this.buildTasksService.updateSteps(taskId, steps);
         },
       });
 
@@ -65,29 +97,43 @@ export class BuildProcessor {
       await this.buildTasksService.updateStatus(taskId, TaskStatus.SUCCESS, {
         qrcodeUrl: buildResult.qrcodeUrl,
         packageSize: buildResult.packageSize,
+        commitId: buildResult.commitId,
+        commitMessage: buildResult.commitMessage,
+        commitAuthor: buildResult.commitAuthor,
       });
 
-      await this.buildTasksService.appendLog(
-        taskId,
-        `[${new Date().toISOString()}] 构建任务完成`,
-      );
+      await this.buildTasksService.appendLog(taskId, '构建任务完成');
+      await this.notificationsService.sendBuildNotification(taskId, BuildNotificationEvent.SUCCESS);
 
       this.logger.log(`Build task ${taskId} completed successfully`);
 
     } catch (error) {
+      // 取消的任务状态已由取消接口更新，不再重试
+      if (error instanceof BuildCancelledException) {
+        this.logger.log(`Build task ${taskId} cancelled`);
+        await this.buildTasksService.appendLog(taskId, error.message, { level: LogLevel.WARN });
+        await this.notificationsService.sendBuildNotification(taskId, BuildNotificationEvent.CANCEL);
+        return;
+      }
+
       this.logger.error(`Build task ${taskId} failed:`, error);
 
       // 更新任务状态为失败
       await this.buildTasksService.updateStatus(taskId, TaskStatus.FAILED, {
         errorMessage: error.message,
-      });
+        failureReason: error instanceof BuildException ? error.reason : FailureReason.ERROR,
+      }, { willRetry: !finalAttempt });
 
-      await this.buildTasksService.appendLog(
-        taskId,
-        `[${new Date().toISOString()}] 构建失败: ${error.message}`,
-      );
+      await this.buildTasksService.appendLog(taskId, `构建失败: ${error.message}`, {
+        level: LogLevel.ERROR,
+      });
+      if (finalAttempt) {
+        await this.notificationsService.sendBuildNotification(taskId, BuildNotificationEvent.FAIL);
+      }
 
       throw error;
+    } finally {
+      await this.buildTasksService.flushLogs(taskId);
     }
   }
 }
\ No newline at end of file
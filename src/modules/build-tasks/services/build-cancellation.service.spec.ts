@@ -0,0 +1,64 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { RedisService } from '../../redis/redis.service';
+import { BuildCancellationService } from './build-cancellation.service';
+
+describe('BuildCancellationService', () => {
+  let service: BuildCancellationService;
+  let store: Map<string, string>;
+  let subscriber: (message: string) => void;
+
+  beforeEach(async () => {
+    store = new Map();
+
+    const redisService = {
+      set: jest.fn(async (key: string, value: string) => {
+        store.set(key, value);
+      }),
+      exists: jest.fn(async (key: string) => store.has(key)),
+      publish: jest.fn(async (_channel: string, message: string) => {
+        subscriber?.(message);
+        return 1;
+      }),
+      subscribe: jest.fn(async (_channel: string, callback: (message: string) => void) => {
+        subscriber = callback;
+      }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BuildCancellationService,
+        { provide: RedisService, useValue: redisService },
+      ],
+    }).compile();
+
+    service = module.get<BuildCancellationService>(BuildCancellationService);
+    await service.onApplicationBootstrap();
+  });
+
+  it('should abort the signal of a registered task', async () => {
+    const signal = service.register('task-1');
+
+    await service.requestCancel('task-1');
+
+    expect(signal.aborted).toBe(true);
+    expect(await service.isCancelRequested('task-1')).toBe(true);
+  });
+
+  it('should not affect other tasks', async () => {
+    const signal = service.register('task-2');
+
+    await service.requestCancel('task-1');
+
+    expect(signal.aborted).toBe(false);
+    expect(await service.isCancelRequested('task-2')).toBe(false);
+  });
+
+  it('should ignore cancellation for unregistered tasks', async () => {
+    const signal = service.register('task-1');
+    service.unregister('task-1');
+
+    await service.requestCancel('task-1');
+
+    expect(signal.aborted).toBe(false);
+  });
+});
@@ -0,0 +1,65 @@
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { RedisService } from '../../redis/redis.service';
+
+/**
+ * 构建取消信号
+ * 取消请求通过 Redis 发布，任意实例上正在执行该任务的构建都会收到并中止；
+ * 同时写入带过期时间的标记，供构建在阶段之间检查，避免错过消息
+ */
+@Injectable()
+export class BuildCancellationService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(BuildCancellationService.name);
+  private readonly channel = 'build:cancel';
+  private readonly keyPrefix = 'build:cancelled:';
+  private readonly markerTtl = 24 * 60 * 60;
+  private readonly controllers = new Map<string, AbortController>();
+
+  constructor(private readonly redisService: RedisService) {}
+
+  async onApplicationBootstrap(): Promise<void> {
+    await this.redisService.subscribe(this.channel, (taskId) => this.abortLocal(taskId));
+  }
+
+  /**
+   * 登记本实例上正在执行的任务，返回其中止信号
+   */
+  register(taskId: string): AbortSignal {
+    const controller = new AbortController();
+    this.controllers.set(taskId, controller);
+    return controller.signal;
+  }
+
+  /**
+   * 任务结束后移除登记
+   */
+  unregister(taskId: string): void {
+    this.controllers.delete(taskId);
+  }
+
+  /**
+   * 发出取消请求
+   */
+  async requestCancel(taskId: string): Promise<void> {
+    await this.redisService.set(this.getMarkerKey(taskId), '1', this.markerTtl);
+    await this.redisService.publish(this.channel, taskId);
+  }
+
+  /**
+   * 是否已请求取消
+   */
+  async isCancelRequested(taskId: string): Promise<boolean> {
+    return this.redisService.exists(this.getMarkerKey(taskId));
+  }
+
+  private abortLocal(taskId: string): void {
+    const controller = this.controllers.get(taskId);
+    if (controller && !controller.signal.aborted) {
+      this.logger.log(`Aborting build task ${taskId}`);
+      controller.abort();
+    }
+  }
+
+  private getMarkerKey(taskId: string): string {
+    return `${this.keyPrefix}${taskId}`;
+  }
+}
@@ -0,0 +1,152 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PrismaService } from '../../prisma/prisma.service';
+import { BuildGateway } from '../../websocket/gateways/build.gateway';
+import { BuildLogService, LogLevel } from './build-log.service';
+
+describe('BuildLogService', () => {
+  let service: BuildLogService;
+  let chunks: Array<{ taskId: string; startLine: number; lineCount: number; content: string }>;
+
+  // 按 taskId 和 startLine 范围过滤
+  const matching = (where: { taskId: string; startLine?: { gte?: number; lt?: number; lte?: number } }) =>
+    chunks.filter(({ taskId, startLine }) => taskId === where.taskId
+      && (where.startLine?.gte === undefined || startLine >= where.startLine.gte)
+      && (where.startLine?.lt === undefined || startLine < where.startLine.lt)
+      && (where.startLine?.lte === undefined || startLine <= where.startLine.lte));
+
+  const mockGateway = {
+    sendBuildLog: jest.fn(),
+    setLogHistoryProvider: jest.fn(),
+  };
+
+  const mockPrisma = {
+    buildLogChunk: {
+      create: jest.fn(async ({ data }) => {
+        chunks.push(data);
+        return data;
+      }),
+      findMany: jest.fn(async ({ where }) => matching(where).sort((a, b) => a.startLine - b.startLine)),
+      findFirst: jest.fn(async ({ where }) => matching(where).sort((a, b) => b.startLine - a.startLine)[0] || null),
+    },
+  };
+
+  beforeEach(async () => {
+    chunks = [];
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BuildLogService,
+        { provide: PrismaService, useValue: mockPrisma },
+        { provide: BuildGateway, useValue: mockGateway },
+      ],
+    }).compile();
+
+    service = module.get<BuildLogService>(BuildLogService);
+  });
+
+  afterEach(async () => {
+    await service.onModuleDestroy();
+  });
+
+  it('should write full chunks and keep the remainder buffered', async () => {
+    for (let i = 0; i < 205; i++) {
+      await service.append('task-1', `line ${i}`);
+    }
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0]).toMatchObject({ startLine: 0, lineCount: 200 });
+
+    const lines = await service.getLines('task-1');
+    expect(lines).toHaveLength(205);
+    expect(lines[204]).toMatchObject({ line: 204, message: 'line 204' });
+
+    await service.close('task-1');
+    expect(chunks).toHaveLength(2);
+    expect(chunks[1]).toMatchObject({ startLine: 200, lineCount: 5 });
+  });
+
+  it('should continue line numbers after the buffer is released', async () => {
+    await service.append('task-1', 'first run');
+    await service.close('task-1');
+    await service.append('task-1', 'second run');
+    await service.close('task-1');
+
+    const lines = await service.getLines('task-1');
+    expect(lines.map((line) => line.line)).toEqual([0, 1]);
+  });
+
+  it('should keep lines readable while their chunk is being written', async () => {
+    let commit: () => void;
+    mockPrisma.buildLogChunk.create.mockImplementationOnce(({ data }) => new Promise((resolve) => {
+      commit = () => {
+        chunks.push(data);
+        resolve(data);
+      };
+    }));
+
+    await service.append('task-1', 'cloning');
+    const flushing = service.flush('task-1');
+
+    expect((await service.getLines('task-1')).map((line) => line.message)).toEqual(['cloning']);
+    commit();
+    await flushing;
+    expect((await service.getLines('task-1')).map((line) => line.message)).toEqual(['cloning']);
+  });
+
+  it('should release idle buffers of tasks that are never closed', async () => {
+    jest.useFakeTimers();
+    try {
+      await service.append('task-1', 'cancelled by alice');
+      await service.flush('task-1');
+      expect((service as any).buffers.has('task-1')).toBe(true);
+
+      jest.advanceTimersByTime(60 * 1000);
+      expect((service as any).buffers.has('task-1')).toBe(false);
+    } finally {
+      jest.useRealTimers();
+    }
+
+    await service.append('task-1', 'retrying');
+    expect((await service.getLines('task-1')).map((line) => line.line)).toEqual([0, 1]);
+  });
+
+  it('should push each line to subscribers with its line number', async () => {
+    await service.append('task-1', 'npm ERR!', { level: LogLevel.ERROR, stage: 'INSTALL' });
+
+    expect(mockGateway.sendBuildLog).toHaveBeenCalledWith('task-1', 'npm ERR!', 'error', 'INSTALL', 0);
+  });
+
+  it('should read only the chunks covering an unfiltered page', async () => {
+    for (let i = 0; i < 650; i++) {
+      await service.append('task-1', `line ${i}`);
+    }
+    mockPrisma.buildLogChunk.findMany.mockClear();
+
+    const page = await service.query('task-1', { offset: 390, limit: 20 });
+
+    expect(page.lines.map((line) => line.line)).toEqual(Array.from({ length: 20 }, (_, i) => 390 + i));
+    expect(page).toMatchObject({ total: 650, hasMore: true });
+    const [{ where }] = mockPrisma.buildLogChunk.findMany.mock.calls[0];
+    expect(matching(where).map((chunk) => chunk.startLine)).toEqual([200, 400]);
+
+    const tail = await service.query('task-1', { offset: 590, limit: 100 });
+    expect(tail.lines.map((line) => line.message)).toEqual(Array.from({ length: 60 }, (_, i) => `line ${590 + i}`));
+    expect(tail).toMatchObject({ total: 650, hasMore: false });
+  });
+
+  it('should filter by level, stage and keyword with pagination', async () => {
+    await service.append('task-1', 'cloning', { stage: 'CLONE' });
+    await service.append('task-1', 'added 10 packages', { stage: 'INSTALL' });
+    await service.append('task-1', 'deprecated package', { level: LogLevel.WARN, stage: 'INSTALL' });
+    await service.append('task-1', 'added 2 packages', { stage: 'INSTALL' });
+
+    expect((await service.query('task-1', { stage: 'INSTALL' })).total).toBe(3);
+    expect((await service.query('task-1', { level: LogLevel.WARN })).lines[0].message).toBe('deprecated package');
+
+    const page = await service.query('task-1', { search: 'ADDED', offset: 1, limit: 1 });
+    expect(page.total).toBe(2);
+    expect(page.lines.map((line) => line.message)).toEqual(['added 2 packages']);
+    expect(page.hasMore).toBe(false);
+  });
+});
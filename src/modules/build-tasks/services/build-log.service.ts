@@ -0,0 +1,340 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import { BuildGateway } from '../../websocket/gateways/build.gateway';
+
+export enum LogLevel {
+  INFO = 'INFO',
+  WARN = 'WARN',
+  ERROR = 'ERROR',
+}
+
+export interface BuildLogLine {
+  line: number;
+  timestamp: string;
+  level: LogLevel;
+  stage?: string;
+  message: string;
+}
+
+export interface BuildLogFilter {
+  offset?: number;
+  limit?: number;
+  level?: LogLevel;
+  stage?: string;
+  search?: string;
+}
+
+export interface BuildLogPage {
+  lines: BuildLogLine[];
+  total: number;
+  offset: number;
+  limit: number;
+  hasMore: boolean;
+}
+
+interface TaskLogBuffer {
+  nextLine: number;
+  pending: BuildLogLine[];
+  // 正在写入数据库的行，写入完成前仍从缓冲中读取
+  flushing: BuildLogLine[];
+  timer?: NodeJS.Timeout;
+  idleTimer?: NodeJS.Timeout;
+  // 串行写入，保证分块按行号顺序落库
+  writing: Promise<void>;
+}
+
+/**
+ * 构建日志存储
+ * 日志先写入内存缓冲，满一块或超过刷新间隔后作为一个分块追加写入数据库，
+ * 避免每行日志都读写整段文本
+ */
+@Injectable()
+export class BuildLogService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(BuildLogService.name);
+  private readonly chunkSize = 200;
+  private readonly flushInterval = 1000;
+  // 缓冲空闲超过该时间后释放，处理器以外追加的日志不会调用 close
+  private readonly idleTimeout = 60 * 1000;
+  private readonly buffers = new Map<string, Promise<TaskLogBuffer>>();
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly buildGateway: BuildGateway,
+  ) {}
+
+  onModuleInit(): void {
+    // 客户端订阅任务时先回放已有日志
+    this.buildGateway.setLogHistoryProvider((taskId) => this.getLines(taskId));
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    await Promise.all([...this.buffers.keys()].map((taskId) => this.close(taskId)));
+  }
+
+  /**
+   * 追加一行日志，并实时推送给订阅者
+   */
+  async append(
+    taskId: string,
+    message: string,
+    options: { level?: LogLevel; stage?: string } = {},
+  ): Promise<BuildLogLine> {
+    const buffer = await this.getBuffer(taskId);
+    if (buffer.idleTimer) {
+      clearTimeout(buffer.idleTimer);
+      buffer.idleTimer = undefined;
+    }
+    const entry: BuildLogLine = {
+      line: buffer.nextLine++,
+      timestamp: new Date().toISOString(),
+      level: options.level || LogLevel.INFO,
+      stage: options.stage,
+      message,
+    };
+    buffer.pending.push(entry);
+
+    this.buildGateway.sendBuildLog(
+      taskId,
+      message,
+      entry.level.toLowerCase() as 'info' | 'warn' | 'error',
+      entry.stage,
+      entry.line,
+    );
+
+    if (buffer.pending.length >= this.chunkSize) {
+      await this.flush(taskId);
+    } else if (!buffer.timer) {
+      buffer.timer = setTimeout(() => {
+        this.flush(taskId).catch((error) => this.logger.error(`Failed to flush logs of task ${taskId}:`, error));
+      }, this.flushInterval);
+    }
+
+    return entry;
+  }
+
+  /**
+   * 将缓冲中的日志写入数据库
+   */
+  async flush(taskId: string): Promise<void> {
+    const bufferPromise = this.buffers.get(taskId);
+    if (!bufferPromise) {
+      return;
+    }
+
+    const buffer = await bufferPromise;
+    if (buffer.timer) {
+      clearTimeout(buffer.timer);
+      buffer.timer = undefined;
+    }
+
+    const lines = buffer.pending.splice(0);
+    if (lines.length > 0) {
+      buffer.flushing.push(...lines);
+      // 上一块写入失败已在其调用方报告，不影响后续分块
+      buffer.writing = buffer.writing.catch(() => undefined).then(async () => {
+        try {
+          await this.prisma.buildLogChunk.create({
+            data: {
+              taskId,
+              startLine: lines[0].line,
+              lineCount: lines.length,
+              content: lines.map((line) => JSON.stringify(line)).join('\n'),
+            },
+          });
+        } finally {
+          // 分块按顺序写入，本块的行总在最前面
+          buffer.flushing.splice(0, lines.length);
+        }
+      });
+    }
+
+    try {
+      await buffer.writing;
+    } finally {
+      this.scheduleRelease(taskId, bufferPromise, buffer);
+    }
+  }
+
+  /**
+   * 任务结束后写入剩余日志并释放缓冲
+   */
+  async close(taskId: string): Promise<void> {
+    try {
+      await this.flush(taskId);
+    } finally {
+      const bufferPromise = this.buffers.get(taskId);
+      this.buffers.delete(taskId);
+      const buffer = await bufferPromise?.catch(() => undefined);
+      if (buffer?.idleTimer) {
+        clearTimeout(buffer.idleTimer);
+        buffer.idleTimer = undefined;
+      }
+    }
+  }
+
+  /**
+   * 获取任务的全部日志（包含尚未写入数据库的缓冲）
+   */
+  async getLines(taskId: string): Promise<BuildLogLine[]> {
+    // 先取缓冲快照再查询数据库，期间写入完成的行两边都有，按行号去重
+    const buffered = await this.getBuffered(taskId);
+
+    const chunks = await this.prisma.buildLogChunk.findMany({
+      where: { taskId },
+      orderBy: { startLine: 'asc' },
+    });
+
+    const lines = this.parseChunks(chunks);
+    const lastLine = lines.length > 0 ? lines[lines.length - 1].line : -1;
+    lines.push(...buffered.filter((line) => line.line > lastLine));
+
+    return lines;
+  }
+
+  /**
+   * 分页查询日志，支持按级别、步骤过滤和文本搜索
+   */
+  async query(taskId: string, filter: BuildLogFilter = {}): Promise<BuildLogPage> {
+    const { offset = 0, limit = 500, level, stage, search } = filter;
+    if (!level && !stage && !search) {
+      return this.queryRange(taskId, offset, limit);
+    }
+
+    const keyword = search?.toLowerCase();
+
+    const lines = (await this.getLines(taskId)).filter((line) =>
+      (!level || line.level === level)
+      && (!stage || line.stage === stage)
+      && (!keyword || line.message.toLowerCase().includes(keyword)),
+    );
+
+    return {
+      lines: lines.slice(offset, offset + limit),
+      total: lines.length,
+      offset,
+      limit,
+      hasMore: offset + limit < lines.length,
+    };
+  }
+
+  /**
+   * 格式化为纯文本
+   */
+  formatLines(lines: BuildLogLine[]): string {
+    return lines
+      .map((line) => {
+        const stage = line.stage ? ` [${line.stage}]` : '';
+        return `[${line.timestamp}] [${line.level}]${stage} ${line.message}`;
+      })
+      .join('\n');
+  }
+
+  /**
+   * 不过滤时行号即序号，只读取覆盖 [offset, offset + limit) 的分块，总行数取自最后一块的结束行号
+   */
+  private async queryRange(taskId: string, offset: number, limit: number): Promise<BuildLogPage> {
+    const end = offset + limit;
+    const buffered = await this.getBuffered(taskId);
+
+    const [firstChunk, lastChunk] = await Promise.all([
+      this.prisma.buildLogChunk.findFirst({
+        where: { taskId, startLine: { lte: offset } },
+        orderBy: { startLine: 'desc' },
+        select: { startLine: true },
+      }),
+      this.prisma.buildLogChunk.findFirst({
+        where: { taskId },
+        orderBy: { startLine: 'desc' },
+        select: { startLine: true, lineCount: true },
+      }),
+    ]);
+    const chunks = await this.prisma.buildLogChunk.findMany({
+      where: { taskId, startLine: { gte: firstChunk?.startLine ?? offset, lt: end } },
+      orderBy: { startLine: 'asc' },
+    });
+
+    const lines = this.parseChunks(chunks);
+    const storedLines = Math.max(
+      lastChunk ? lastChunk.startLine + lastChunk.lineCount : 0,
+      lines.length > 0 ? lines[lines.length - 1].line + 1 : 0,
+    );
+    lines.push(...buffered.filter((line) => line.line >= storedLines));
+    const total = Math.max(storedLines, buffered.length > 0 ? buffered[buffered.length - 1].line + 1 : 0);
+
+    return {
+      lines: lines.filter((line) => line.line >= offset && line.line < end),
+      total,
+      offset,
+      limit,
+      hasMore: end < total,
+    };
+  }
+
+  private async getBuffered(taskId: string): Promise<BuildLogLine[]> {
+    const bufferPromise = this.buffers.get(taskId);
+    const buffer = bufferPromise && await bufferPromise;
+    return buffer ? [...buffer.flushing, ...buffer.pending] : [];
+  }
+
+  private parseChunks(chunks: Array<{ content: string }>): BuildLogLine[] {
+    const lines: BuildLogLine[] = [];
+    for (const chunk of chunks) {
+      for (const raw of chunk.content.split('\n')) {
+        if (raw) {
+          lines.push(JSON.parse(raw));
+        }
+      }
+    }
+    return lines;
+  }
+
+  /**
+   * 缓冲写空后开始计时，空闲超时仍无新日志时释放
+   * 在定时器回调中同步检查，追加日志时已取得缓冲的调用会先于回调执行完毕
+   */
+  private scheduleRelease(
+    taskId: string,
+    bufferPromise: Promise<TaskLogBuffer>,
+    buffer: TaskLogBuffer,
+  ): void {
+    if (buffer.pending.length > 0 || buffer.flushing.length > 0 || buffer.timer || buffer.idleTimer) {
+      return;
+    }
+
+    buffer.idleTimer = setTimeout(() => {
+      buffer.idleTimer = undefined;
+      const idle = buffer.pending.length === 0 && buffer.flushing.length === 0 && !buffer.timer;
+      if (idle && this.buffers.get(taskId) === bufferPromise) {
+        this.buffers.delete(taskId);
+      }
+    }, this.idleTimeout);
+    buffer.idleTimer.unref();
+  }
+
+  private getBuffer(taskId: string): Promise<TaskLogBuffer> {
+    let buffer = this.buffers.get(taskId);
+    if (!buffer) {
+      buffer = this.createBuffer(taskId);
+      buffer.catch(() => this.buffers.delete(taskId));
+      this.buffers.set(taskId, buffer);
+    }
+    return buffer;
+  }
+
+  /**
+   * 从最后一个分块续接行号（任务重试时继续追加）
+   */
+  private async createBuffer(taskId: string): Promise<TaskLogBuffer> {
+    const lastChunk = await this.prisma.buildLogChunk.findFirst({
+      where: { taskId },
+      orderBy: { startLine: 'desc' },
+    });
+
+    return {
+      nextLine: lastChunk ? lastChunk.startLine + lastChunk.lineCount : 0,
+      pending: [],
+      flushing: [],
+      writing: Promise.resolve(),
+    };
+  }
+}
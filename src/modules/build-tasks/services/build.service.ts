@@ -1,95 +1,298 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { BuildType, Miniprogram, MiniprogramConfig } from '@prisma/client';
-import { exec } from 'child_process';
+import { BuildType, FailureReason, Miniprogram, MiniprogramConfig } from '@prisma/client';
+import { spawn } from 'child_process';
 import * as fs from 'fs-extra';
 import * as path from 'path';
-import { promisify } from 'util';
+import { LogRedactionService } from '../../../common/services/log-redaction.service';
+import { EnvVariablesService } from '../../env-variables/env-variables.service';
 import { GitCredentialsService } from '../../git-credentials/git-credentials.service';
+import { FileReplacementDto, PipelineStepDto, PipelineStepType } from '../../miniprograms/dto/pipeline-step.dto';
 import { BuildGateway } from '../../websocket/gateways/build.gateway';
+import { BuildCancelledException, BuildException } from '../dto/build-error.dto';
+import { BuildCancellationService } from './build-cancellation.service';
+import { LogLevel } from './build-log.service';
+import { CHANGELOG_CLONE_DEPTH, ChangelogService } from './changelog.service';
+import { WorkspaceCacheService } from './workspace-cache.service';
 
-const execAsync = promisify(exec);
+// 持久化工作区锁在构建超时之外多保留的秒数
+const WORKSPACE_LOCK_MARGIN = 5 * 60;
+
+/**
+ * 预览二维码的保存路径
+ */
+export const getPreviewQrcodePath = (taskId: string): string => path.join('./uploads/preview/', `${taskId}.jpg`);
+
+/**
+ * 读取预览二维码图片，base64 格式保存的二维码解码为图片，不存在时返回 null
+ */
+export const readPreviewQrcode = async (taskId: string): Promise<Buffer | null> => {
+  let content: Buffer;
+  try {
+    content = await fs.readFile(getPreviewQrcodePath(taskId));
+  } catch {
+    return null;
+  }
+
+  if (content.subarray(0, 32).toString().startsWith('data:image')) {
+    return Buffer.from(content.toString().replace(/^data:image\/\w+;base64,/, ''), 'base64');
+  }
+  return content;
+};
+
+/**
+ * PR 源分支在目标仓库中的只读引用，Fork 的 PR 也能从目标仓库拉取
+ */
+export const getPullRequestRef = (provider: string | undefined, pullRequestNumber: number): string =>
+  provider === 'gitlab'
+    ? `refs/merge-requests/${pullRequestNumber}/head`
+    : `refs/pull/${pullRequestNumber}/head`;
 
 export interface BuildOptions {
   taskId: string;
   miniprogram: Miniprogram & { config?: any };
   type: BuildType;
   branch: string;
+  tag?: string; // 标签构建时检出该标签
+  pullRequestRef?: string; // PR 预览时检出的 PR 引用，见 getPullRequestRef
   version: string;
   description?: string;
+  changelogSince?: string | null; // 上次成功上传的提交，生成更新日志时使用
   operator: string;
   onProgress?: (progress: number, message?: string) => Promise<void>;
-  onLog?: (log: string) => Promise<void>;
+  onLog?: (log: string, meta: { level: LogLevel; stage?: string }) => Promise<void>;
+  onStepsChange?: (steps: BuildStepResult[]) => Promise<void>;
+}
+
+export enum BuildStepStatus {
+  PENDING = 'PENDING',
+  RUNNING = 'RUNNING',
+  SUCCESS = 'SUCCESS',
+  FAILED = 'FAILED',
+  SKIPPED = 'SKIPPED',
+  CANCELLED = 'CANCELLED',
+}
+
+/**
+ * 流水线步骤执行记录
+ */
+export interface BuildStepResult {
+  name: string;
+  type: PipelineStepType | 'CLONE';
+  status: BuildStepStatus;
+  startTime?: string;
+  endTime?: string;
+  duration?: number; // 耗时(毫秒)
+  error?: string;
+}
+
+interface BuildControl {
+  taskId: string;
+  expiresAt: number;
+  timeoutMinutes: number;
+  signal: AbortSignal;
+  env: Record<string, string>; // ENV步骤注入的环境变量，对后续命令生效
+  stepName?: string; // 设置时表示当前受步骤超时限制
+}
+
+interface GitRef {
+  branch: string;
+  tag?: string;
+  pullRequestRef?: string;
+  depth?: number;
+}
+
+interface PipelineContext {
+  taskId: string;
+  taskDir: string;
+  miniprogram: Miniprogram & { config?: any };
+  type: BuildType;
+  version: string;
+  description?: string;
+  useCache: boolean;
+  onLog: (log: string, level?: 'info' | 'warn' | 'error') => Promise<void>;
+}
+
+interface SshCredential {
+  privateKey: string;
+  passphrase?: string;
+  knownHosts?: string;
 }
 
 export interface BuildResult {
   qrcodeUrl?: string;
   packageSize?: Record<string, any>;
+  commitId?: string; // 实际构建的提交
+  commitMessage?: string;
+  commitAuthor?: string;
 }
 
 @Injectable()
 export class BuildService {
   private readonly logger = new Logger(BuildService.name);
 
+  private readonly stepNames: Record<PipelineStepType, string> = {
+    [PipelineStepType.INSTALL]: '安装项目依赖',
+    [PipelineStepType.NPM_BUILD]: '执行原生小程序npm构建',
+    [PipelineStepType.BUILD]: '执行项目构建',
+    [PipelineStepType.SHELL]: '执行自定义命令',
+    [PipelineStepType.ENV]: '注入环境变量',
+    [PipelineStepType.LINT]: '代码检查',
+    [PipelineStepType.TEST]: '单元测试',
+    [PipelineStepType.REPLACE]: '替换文件',
+    [PipelineStepType.UPLOAD]: '上传小程序',
+    [PipelineStepType.PREVIEW]: '生成预览',
+  };
+
   constructor(
     private readonly configService: ConfigService,
     private readonly gitCredentialsService: GitCredentialsService,
     private readonly buildGateway: BuildGateway,
+    private readonly workspaceCacheService: WorkspaceCacheService,
+    private readonly buildCancellationService: BuildCancellationService,
+    private readonly envVariablesService: EnvVariablesService,
+    private readonly logRedactionService: LogRedactionService,
+    private readonly changelogService: ChangelogService,
   ) {}
 
   /**
    * 执行构建
+   * 克隆代码后按小程序配置的流水线依次执行各步骤，未配置时使用默认流程
    */
   async build(options: BuildOptions): Promise<BuildResult> {
-    const { taskId, miniprogram, type, branch, version, description, onProgress, onLog } = options;
+    const {
+      taskId, miniprogram, type, branch, tag, pullRequestRef, version, description, changelogSince, onProgress, onLog, onStepsChange,
+    } = options;
     const workspaceDir = this.configService.get('build.workspace', '/tmp/build');
-    const taskDir = path.join(workspaceDir, taskId);
+    // 整个任务共用一个截止时间，各阶段只能使用剩余时间
+    const timeoutMinutes = miniprogram.config?.buildTimeout || 30;
+
+    // 启用缓存时使用小程序的持久化工作区，构建结束后保留以便增量更新；
+    // 同一小程序的其他构建正在使用时改用任务独立的目录
+    const useCache = this.workspaceCacheService.isEnabled();
+    const persistent = useCache
+      && await this.workspaceCacheService.lockRepoDir(miniprogram.id, taskId, timeoutMinutes * 60 + WORKSPACE_LOCK_MARGIN);
+    const taskDir = persistent
+      ? this.workspaceCacheService.getRepoDir(miniprogram.id)
+      : path.join(workspaceDir, taskId);
+    const control: BuildControl = {
+      taskId,
+      expiresAt: Date.now() + timeoutMinutes * 60 * 1000,
+      timeoutMinutes,
+      signal: this.buildCancellationService.register(taskId),
+      env: {},
+    };
+
+    // 日志由日志存储和网关统一脱敏，状态消息、错误信息等其他输出在这里脱敏
+    const mask = (text: string) => this.logRedactionService.redact(text, taskId);
+    // 当前执行的流水线步骤，记录在每行日志中
+    let currentStage: string | undefined;
 
-    // 创建统一的WebSocket通信函数
+    // 日志交由调用方写入日志存储，并由日志存储实时推送给订阅者
     const sendLog = async (log: string, level: 'info' | 'warn' | 'error' = 'info') => {
-      this.buildGateway.sendBuildLog(taskId, log, level);
-      await onLog?.(log);
+      await onLog?.(log, { level: level.toUpperCase() as LogLevel, stage: currentStage });
     };
 
     const updateStatus = async (status: string, progress?: number, message?: string, result?: any) => {
+      message = message && mask(message);
       this.buildGateway.sendBuildStatus(taskId, status, { progress, message, result });
       if (progress !== undefined && message) {
         await onProgress?.(progress, message);
       }
     };
 
+    const pipeline = this.resolvePipeline(miniprogram.config, type);
+    const steps: BuildStepResult[] = [
+      { name: '克隆代码仓库', type: 'CLONE', status: BuildStepStatus.PENDING },
+      ...pipeline.map((step) => ({
+        name: step.name || this.stepNames[step.type],
+        type: step.type,
+        status: BuildStepStatus.PENDING,
+      })),
+    ];
+    const notifySteps = async () => {
+      await onStepsChange?.(steps.map((step) => ({ ...step, error: step.error && mask(step.error) })));
+    };
+
+    const context: PipelineContext = {
+      taskId,
+      taskDir,
+      miniprogram,
+      type,
+      version,
+      description,
+      useCache,
+      onLog: sendLog,
+    };
+
     try {
       // 发送构建开始状态
       await updateStatus('BUILDING', 0, '开始构建任务');
+      await notifySteps();
 
       // 1. 创建工作目录
       await updateStatus('BUILDING', 10, '创建工作目录');
       await fs.ensureDir(taskDir);
+      if (useCache && !persistent) {
+        await sendLog('缓存工作区正被其他构建使用，本次使用独立工作目录', 'warn');
+      }
       await sendLog(`工作目录: ${taskDir}`);
 
-      // 2. 克隆代码
-      await updateStatus('BUILDING', 20, '克隆代码仓库');
-      await this.cloneRepository(miniprogram, branch, taskDir, sendLog);
+      // 加载小程序配置的构建环境变量（分支变量覆盖全局变量）
+      const buildEnv = await this.envVariablesService.getBuildEnv(miniprogram.id, branch);
+      Object.assign(control.env, buildEnv.env);
+      this.logRedactionService.addSecrets(taskId, buildEnv.secrets);
+      if (Object.keys(buildEnv.env).length > 0) {
+        await sendLog(`注入环境变量: ${Object.keys(buildEnv.env).join(', ')}`);
+      }
+
+      // 2. 克隆代码（固定为第一个步骤）
+      await this.throwIfCancelled(control);
+      await updateStatus('BUILDING', 20, steps[0].name);
+      currentStage = steps[0].type;
+      // 生成更新日志需要上次上传以来的提交历史，加深克隆深度
+      const changelogEnabled = type === BuildType.UPLOAD && !!miniprogram.config?.changelogEnabled;
+      const depth = changelogEnabled ? CHANGELOG_CLONE_DEPTH : 1;
+      await this.runStep(steps[0], {}, control, sendLog, notifySteps, (stepControl) =>
+        this.cloneRepository(miniprogram, { branch, tag, pullRequestRef, depth }, taskDir, stepControl, sendLog, persistent),
+      );
+      const head = await this.changelogService.getHead(taskDir);
+      // commitAuthor 字段最长 100 个字符
+      const commit = { commitId: head?.id, commitMessage: head?.message, commitAuthor: head?.author.slice(0, 100) };
+      if (changelogEnabled) {
+        context.description = await this.generateChangelog(context, branch, changelogSince) || description;
+      }
 
-      // 3. 安装依赖
-      await updateStatus('BUILDING', 30, '安装项目依赖');
-      await this.installDependencies(taskDir, miniprogram, sendLog);
+      // 3. 依次执行流水线步骤，进度在 20% ~ 90% 之间分配
+      let result: BuildResult = { ...commit };
+      for (const [index, step] of pipeline.entries()) {
+        const record = steps[index + 1];
+        await this.throwIfCancelled(control);
 
-      // 4. 执行原生小程序npm构建
-      await updateStatus('BUILDING', 40, '执行原生小程序npm构建');
-      await this.buildNativeMiniprogram(taskDir, miniprogram, sendLog);
+        // 上传/预览步骤只在对应类型的任务中执行
+        if (this.isPublishStep(step.type) && step.type !== this.getPublishStepType(type)) {
+          record.status = BuildStepStatus.SKIPPED;
+          await notifySteps();
+          continue;
+        }
 
-      // 5. 执行构建
-      await updateStatus('BUILDING', 60, '执行项目构建');
-      await this.buildProject(taskDir, miniprogram, sendLog);
+        await updateStatus('BUILDING', 20 + Math.floor((70 * (index + 1)) / (pipeline.length + 1)), record.name);
+        currentStage = record.type;
+        const output = await this.runStep(record, step, control, sendLog, notifySteps, (stepControl) =>
+          this.executeStep(step, stepControl, context),
+        );
+        if (output) {
+          result = { ...output, ...commit };
+        }
+      }
 
-      // 6. 上传或预览
-      await updateStatus('BUILDING', 80, type === BuildType.UPLOAD ? '上传小程序' : '生成预览');
-      const result = await this.uploadOrPreview(taskDir, miniprogram, type, version, description, sendLog, taskId);
+      currentStage = undefined;
 
-      // 7. 清理工作目录
+      // 4. 清理工作目录
       await updateStatus('BUILDING', 90, '清理临时文件');
-      await fs.remove(taskDir);
+      if (!persistent) {
+        await fs.remove(taskDir);
+      }
 
       // 发送构建成功状态
       await updateStatus('SUCCESS', 100, '构建完成', result);
@@ -98,18 +301,291 @@ export class BuildService {
       return result;
 
     } catch (error) {
-      // 发送构建失败状态
-      await updateStatus('FAILED', undefined, error.message, { error: error.message });
-      await sendLog(`构建失败: ${error.message}`, 'error');
+      const cancelled = error instanceof BuildCancelledException;
+      // 错误信息会写入任务记录，同样需要脱敏
+      error.message = mask(error.message);
 
-      // 清理工作目录
-      try {
-        await fs.remove(taskDir);
-      } catch (cleanupError) {
-        this.logger.error('Failed to cleanup workspace:', cleanupError);
+      // 未执行的步骤标记为跳过
+      for (const step of steps) {
+        if (step.status === BuildStepStatus.PENDING) {
+          step.status = BuildStepStatus.SKIPPED;
+        }
+      }
+      await notifySteps().catch((stepsError) => this.logger.error('Failed to record build steps:', stepsError));
+
+      if (cancelled) {
+        await updateStatus('CANCELLED', undefined, error.message);
+        await sendLog(error.message, 'warn');
+      } else {
+        // 发送构建失败状态
+        await updateStatus('FAILED', undefined, error.message, { error: error.message });
+        await sendLog(`构建失败: ${error.message}`, 'error');
+      }
+
+      // 清理工作目录（持久化工作区在下次构建时通过 reset 恢复；
+      // 取消时命令被中途终止，工作区状态不可信，一并删除）
+      if (!persistent || cancelled) {
+        try {
+          await fs.remove(taskDir);
+        } catch (cleanupError) {
+          this.logger.error('Failed to cleanup workspace:', cleanupError);
+        }
       }
       throw error;
+    } finally {
+      this.buildCancellationService.unregister(taskId);
+      this.logRedactionService.clear(taskId);
+      if (persistent) {
+        await this.workspaceCacheService.unlockRepoDir(miniprogram.id, taskId);
+      }
+    }
+  }
+
+  /**
+   * 登记需要在日志中脱敏的凭据（同时登记URL编码后的形式）
+   */
+  private registerSecret(taskId: string, value?: string): void {
+    if (value) {
+      this.logRedactionService.addSecrets(taskId, [value, encodeURIComponent(value)]);
+    }
+  }
+
+  /**
+   * 解析流水线配置
+   * 未配置时使用默认流程；配置中缺少当前任务类型的上传/预览步骤时自动追加到末尾
+   */
+  private resolvePipeline(config: { pipeline?: unknown } | undefined, type: BuildType): PipelineStepDto[] {
+    const publishStep: PipelineStepDto = { type: this.getPublishStepType(type) };
+
+    if (!Array.isArray(config?.pipeline) || config.pipeline.length === 0) {
+      return [
+        { type: PipelineStepType.INSTALL },
+        { type: PipelineStepType.NPM_BUILD },
+        { type: PipelineStepType.BUILD },
+        publishStep,
+      ];
+    }
+
+    const pipeline = config.pipeline as PipelineStepDto[];
+    if (!pipeline.some((step) => step.type === publishStep.type)) {
+      return [...pipeline, publishStep];
+    }
+    return pipeline;
+  }
+
+  private getPublishStepType(type: BuildType): PipelineStepType {
+    return type === BuildType.UPLOAD ? PipelineStepType.UPLOAD : PipelineStepType.PREVIEW;
+  }
+
+  private isPublishStep(type: PipelineStepType): boolean {
+    return type === PipelineStepType.UPLOAD || type === PipelineStepType.PREVIEW;
+  }
+
+  /**
+   * 执行单个步骤并记录状态与耗时
+   * 配置了 continueOnError 的步骤失败后继续执行，取消和整体构建超时始终中止流水线
+   */
+  private async runStep<T>(
+    record: BuildStepResult,
+    step: Pick<PipelineStepDto, 'timeout' | 'continueOnError'>,
+    control: BuildControl,
+    onLog: (log: string, level?: 'info' | 'warn' | 'error') => Promise<void>,
+    notify: () => Promise<void>,
+    run: (stepControl: BuildControl) => Promise<T>,
+  ): Promise<T | undefined> {
+    const startTime = Date.now();
+    record.status = BuildStepStatus.RUNNING;
+    record.startTime = new Date(startTime).toISOString();
+    await notify();
+
+    const finish = async (status: BuildStepStatus, error?: string) => {
+      record.status = status;
+      record.endTime = new Date().toISOString();
+      record.duration = Date.now() - startTime;
+      record.error = error;
+      await notify();
+    };
+
+    try {
+      const output = await run(this.createStepControl(control, step, record.name));
+      await finish(BuildStepStatus.SUCCESS);
+      return output;
+    } catch (error) {
+      if (error instanceof BuildCancelledException) {
+        await finish(BuildStepStatus.CANCELLED, error.message);
+        throw error;
+      }
+
+      await finish(BuildStepStatus.FAILED, error.message);
+
+      if (!step.continueOnError || Date.now() >= control.expiresAt) {
+        throw error;
+      }
+
+      await onLog(`步骤「${record.name}」失败，已配置继续执行: ${error.message}`, 'warn');
+      return undefined;
+    }
+  }
+
+  /**
+   * 步骤配置了超时时间且早于整体截止时间时，使用步骤自己的截止时间
+   */
+  private createStepControl(
+    control: BuildControl,
+    step: Pick<PipelineStepDto, 'timeout'>,
+    stepName: string,
+  ): BuildControl {
+    if (!step.timeout) {
+      return control;
+    }
+
+    const expiresAt = Date.now() + step.timeout * 60 * 1000;
+    if (expiresAt >= control.expiresAt) {
+      return control;
+    }
+
+    return { ...control, expiresAt, timeoutMinutes: step.timeout, stepName };
+  }
+
+  /**
+   * 执行流水线步骤
+   */
+  private async executeStep(
+    step: PipelineStepDto,
+    control: BuildControl,
+    context: PipelineContext,
+  ): Promise<BuildResult | void> {
+    const { taskId, taskDir, miniprogram, type, version, description, useCache, onLog } = context;
+
+    switch (step.type) {
+      case PipelineStepType.INSTALL:
+        return this.installDependencies(taskDir, miniprogram, control, onLog, useCache);
+      case PipelineStepType.NPM_BUILD:
+        return this.buildNativeMiniprogram(taskDir, miniprogram, control, onLog);
+      case PipelineStepType.BUILD:
+        return this.buildProject(taskDir, miniprogram, control, onLog);
+      case PipelineStepType.SHELL:
+        if (!step.command) {
+          throw new Error('自定义命令步骤未配置命令');
+        }
+        return this.runShellCommand(step.command, taskDir, control, onLog);
+      case PipelineStepType.LINT:
+        return this.runShellCommand(step.command || 'npm run lint', taskDir, control, onLog);
+      case PipelineStepType.TEST:
+        return this.runShellCommand(step.command || 'npm test', taskDir, control, onLog);
+      case PipelineStepType.ENV:
+        Object.assign(control.env, step.env || {});
+        await onLog(`注入环境变量: ${Object.keys(step.env || {}).join(', ') || '无'}`);
+        return;
+      case PipelineStepType.REPLACE:
+        return this.replaceFiles(taskDir, step.files || [], onLog);
+      case PipelineStepType.UPLOAD:
+      case PipelineStepType.PREVIEW:
+        return this.runControlled(
+          this.uploadOrPreview(taskDir, miniprogram, type, version, description, onLog, taskId),
+          control,
+        );
+      default:
+        throw new Error(`不支持的流水线步骤类型: ${step.type}`);
+    }
+  }
+
+  /**
+   * 根据上次上传以来的提交生成版本描述，失败时沿用任务描述
+   */
+  private async generateChangelog(
+    context: PipelineContext,
+    branch: string,
+    since?: string | null,
+  ): Promise<string | null> {
+    const { taskDir, miniprogram, version, description, onLog } = context;
+
+    try {
+      const changelog = await this.changelogService.generate(taskDir, {
+        since,
+        template: miniprogram.config?.changelogTemplate,
+        variables: { version, branch, description },
+      });
+      await onLog(changelog ? `已根据提交记录生成版本描述:\n${changelog}` : '自上次上传以来没有新提交，沿用任务描述');
+      return changelog;
+    } catch (error) {
+      await onLog(`生成版本描述失败，沿用任务描述: ${error.message}`, 'warn');
+      return null;
+    }
+  }
+
+  /**
+   * 在项目目录中执行自定义命令
+   */
+  private async runShellCommand(
+    command: string,
+    projectDir: string,
+    control: BuildControl,
+    onLog?: (log: string) => Promise<void>,
+  ): Promise<void> {
+    await onLog?.(`执行命令: ${command}`);
+
+    try {
+      const { stdout, stderr } = await this.execCommand(command, control, { cwd: projectDir });
+      if (stdout) {
+        await onLog?.(stdout);
+      }
+      if (stderr) {
+        await onLog?.(stderr);
+      }
+    } catch (error) {
+      if (error instanceof BuildException || error instanceof BuildCancelledException) {
+        throw error;
+      }
+      throw new Error(`命令执行失败: ${error.message}`);
+    }
+  }
+
+  /**
+   * 替换项目中的文件：指定 source 时用源文件覆盖目标文件，否则在目标文件中替换文本
+   */
+  private async replaceFiles(
+    projectDir: string,
+    files: FileReplacementDto[],
+    onLog?: (log: string) => Promise<void>,
+  ): Promise<void> {
+    for (const file of files) {
+      const targetPath = this.resolveProjectPath(projectDir, file.target);
+
+      if (file.source) {
+        const sourcePath = this.resolveProjectPath(projectDir, file.source);
+        if (!await fs.pathExists(sourcePath)) {
+          throw new Error(`替换源文件不存在: ${file.source}`);
+        }
+        await fs.copy(sourcePath, targetPath, { overwrite: true });
+        await onLog?.(`已用 ${file.source} 替换 ${file.target}`);
+        continue;
+      }
+
+      if (!file.search) {
+        throw new Error(`文件替换规则需要 source 或 search: ${file.target}`);
+      }
+      if (!await fs.pathExists(targetPath)) {
+        throw new Error(`替换目标文件不存在: ${file.target}`);
+      }
+
+      const content = await fs.readFile(targetPath, 'utf8');
+      const count = content.split(file.search).length - 1;
+      await fs.writeFile(targetPath, content.split(file.search).join(file.replace ?? ''));
+      await onLog?.(`已在 ${file.target} 中替换 ${count} 处文本`);
+    }
+  }
+
+  /**
+   * 解析项目内的相对路径，禁止访问项目目录之外的文件
+   */
+  private resolveProjectPath(projectDir: string, relativePath: string): string {
+    const root = path.resolve(projectDir);
+    const resolved = path.resolve(root, relativePath);
+    if (resolved !== root && !resolved.startsWith(root + path.sep)) {
+      throw new Error(`路径超出项目目录: ${relativePath}`);
     }
+    return resolved;
   }
 
   /**
@@ -117,9 +593,11 @@ export class BuildService {
    */
   private async cloneRepository(
     miniprogram: Miniprogram & { config?: any },
-    branch: string,
+    ref: GitRef,
     targetDir: string,
+    control: BuildControl,
     onLog?: (log: string) => Promise<void>,
+    incremental = false,
   ): Promise<void> {
     const { config } = miniprogram;
     
@@ -128,11 +606,13 @@ export class BuildService {
     }
 
     const { gitUrl, gitCredentialId } = config;
+    await this.validateRef(ref, control);
     
     let cloneUrl = gitUrl;
     let gitUsername: string | undefined;
     let gitPassword: string | undefined;
     let gitToken: string | undefined;
+    let sshCredential: SshCredential | undefined;
     
     // 如果配置了Git凭证ID，则查询并解密凭证信息
     if (gitCredentialId) {
@@ -147,14 +627,23 @@ export class BuildService {
           case 'HTTPS':
             gitUsername = credential.username;
             gitPassword = credential.decryptedPassword;
+            this.registerSecret(control.taskId, gitPassword);
             break;
           case 'TOKEN':
             gitToken = credential.decryptedToken;
+            this.registerSecret(control.taskId, gitToken);
             break;
           case 'SSH':
-            // SSH认证需要特殊处理，这里暂时跳过
-            await onLog?.('SSH认证暂不支持，请使用HTTPS或TOKEN认证');
-            throw new Error('SSH认证暂不支持');
+            if (!credential.decryptedSshKey) {
+              throw new Error('SSH认证需要私钥');
+            }
+            sshCredential = {
+              privateKey: credential.decryptedSshKey,
+              passphrase: credential.decryptedSshPassphrase,
+              knownHosts: credential.knownHosts,
+            };
+            this.registerSecret(control.taskId, sshCredential.passphrase);
+            break;
           default:
             await onLog?.(`不支持的认证类型: ${credential.authType}`);
             throw new Error(`不支持的认证类型: ${credential.authType}`);
@@ -184,32 +673,374 @@ export class BuildService {
       cloneUrl = gitUrl.replace('https://', `https://${encodedUsername}:${encodedPassword}@`);
     }
 
-    // 检查目标目录是否存在，如果存在则清理
-    if (await fs.pathExists(targetDir)) {
-      await onLog?.(`目标目录已存在，正在清理: ${targetDir}`);
+    // SSH认证需要将私钥写入任务专属的临时文件，操作完成后立即删除
+    const sshAuth = sshCredential
+      ? await this.prepareSshAuth(control.taskId, sshCredential, onLog)
+      : undefined;
+
+    try {
+      // 持久化工作区已存在时，通过 fetch + reset 增量更新
+      if (incremental && await fs.pathExists(path.join(targetDir, '.git'))) {
+        try {
+          await onLog?.(`使用缓存工作区增量更新: ${targetDir}`);
+          await this.updateRepository(cloneUrl, ref, targetDir, control, sshAuth?.env, onLog);
+          return;
+        } catch (error) {
+          if (error instanceof BuildException || error instanceof BuildCancelledException) {
+            throw error;
+          }
+          await onLog?.(`增量更新失败，将重新克隆: ${error.message}`);
+        }
+      }
+
+      // 检查目标目录是否存在，如果存在则清理
+      if (await fs.pathExists(targetDir)) {
+        await onLog?.(`目标目录已存在，正在清理: ${targetDir}`);
+        try {
+          await fs.remove(targetDir);
+          await onLog?.(`目录清理完成: ${targetDir}`);
+        } catch (cleanError) {
+          await onLog?.(`清理目录失败: ${cleanError.message}`);
+          throw new Error(`清理目录失败: ${cleanError.message}`);
+        }
+      }
+
+      // 确保父目录存在
+      const parentDir = path.dirname(targetDir);
+      await fs.ensureDir(parentDir);
+
+      // PR 引用不是分支，git clone --branch 无法检出，初始化空仓库后 fetch
+      if (ref.pullRequestRef) {
+        await fs.ensureDir(targetDir);
+        await this.execCommand(['git', 'init', '--quiet'], control, { cwd: targetDir });
+        try {
+          await this.updateRepository(cloneUrl, ref, targetDir, control, sshAuth?.env, onLog);
+        } catch (error) {
+          if (error instanceof BuildException || error instanceof BuildCancelledException) {
+            throw error;
+          }
+          throw new Error(`代码克隆失败: ${error.message}`);
+        }
+        if (incremental) {
+          await this.execCommand(['git', 'remote', 'add', 'origin', gitUrl], control, { cwd: targetDir });
+        }
+        return;
+      }
+
+      // --branch 同时支持分支和标签，标签会以分离头指针检出
+      const cloneCmd = [
+        'git', 'clone', '--depth', String(ref.depth || 1), '--branch', ref.tag || ref.branch,
+        '--', cloneUrl, targetDir,
+      ];
+
       try {
-        await fs.remove(targetDir);
-        await onLog?.(`目录清理完成: ${targetDir}`);
-      } catch (cleanError) {
-        await onLog?.(`清理目录失败: ${cleanError.message}`);
-        throw new Error(`清理目录失败: ${cleanError.message}`);
+        const { stdout, stderr } = await this.execCommand(cloneCmd, control, {
+          env: sshAuth?.env,
+        });
+        await onLog?.(`Git clone output: ${stdout}`);
+        if (stderr) {
+          await onLog?.(`Git clone stderr: ${stderr}`);
+        }
+      } catch (error) {
+        if (error instanceof BuildException || error instanceof BuildCancelledException) {
+          throw error;
+        }
+        throw new Error(`代码克隆失败: ${error.message}`);
+      }
+
+      // 持久化工作区不保留带凭证的远程地址
+      if (incremental) {
+        await this.execCommand(['git', 'remote', 'set-url', 'origin', gitUrl], control, { cwd: targetDir });
+      }
+    } finally {
+      if (sshAuth) {
+        await this.cleanupSshAuth(sshAuth.dir);
       }
     }
+  }
 
-    // 确保父目录存在
-    const parentDir = path.dirname(targetDir);
-    await fs.ensureDir(parentDir);
+  /**
+   * 校验分支、标签和 PR 引用
+   * 名称来自 Webhook 等外部输入，需符合 git check-ref-format 规则，且不能以 - 开头被当作命令行选项
+   */
+  private async validateRef(ref: GitRef, control: BuildControl): Promise<void> {
+    const name = ref.pullRequestRef || ref.tag || ref.branch;
+    const fullName = ref.pullRequestRef || (ref.tag ? `refs/tags/${ref.tag}` : `refs/heads/${ref.branch}`);
+    const label = ref.pullRequestRef ? 'PR 引用' : ref.tag ? '标签名称' : '分支名称';
 
-    const cloneCmd = `git clone --depth 1 --branch ${branch} "${cloneUrl}" "${targetDir}"`;
-    
+    let valid = !!name && !name.startsWith('-');
+    if (valid) {
+      try {
+        await this.execCommand(['git', 'check-ref-format', fullName], control);
+      } catch (error) {
+        if (error instanceof BuildException || error instanceof BuildCancelledException) {
+          throw error;
+        }
+        valid = false;
+      }
+    }
+
+    if (!valid) {
+      throw new Error(`非法的${label}: ${name}`);
+    }
+  }
+
+  /**
+   * 拉取并检出指定引用，用于增量更新已有的代码目录和检出 PR 引用
+   * 直接使用带凭证的地址 fetch，避免把凭证写入 .git/config
+   */
+  private async updateRepository(
+    fetchUrl: string,
+    ref: GitRef,
+    repoDir: string,
+    control: BuildControl,
+    env?: NodeJS.ProcessEnv,
+    onLog?: (log: string) => Promise<void>,
+  ): Promise<void> {
+    const refspec = ref.pullRequestRef || (ref.tag ? `refs/tags/${ref.tag}` : ref.branch);
+    const { stderr } = await this.execCommand(['git', 'fetch', '--depth', String(ref.depth || 1), fetchUrl, refspec], control, {
+      cwd: repoDir,
+      env,
+    });
+    if (stderr) {
+      await onLog?.(`Git fetch stderr: ${stderr}`);
+    }
+
+    const checkoutCmd = ref.pullRequestRef || ref.tag
+      ? ['git', 'checkout', '--detach', 'FETCH_HEAD']
+      : ['git', 'checkout', '-B', ref.branch, 'FETCH_HEAD'];
+    await this.execCommand(checkoutCmd, control, { cwd: repoDir });
+    await this.execCommand('git reset --hard FETCH_HEAD', control, { cwd: repoDir });
+    // 清理上次构建产物，保留 node_modules 以便依赖复用
+    await this.execCommand('git clean -ffdx -e node_modules', control, { cwd: repoDir });
+
+    const { stdout } = await this.execCommand('git rev-parse HEAD', control, { cwd: repoDir });
+    await onLog?.(`代码已更新至 ${stdout.trim()}`);
+  }
+
+  /**
+   * 获取任务剩余可用时间，已超时则抛出超时异常
+   */
+  private getRemainingTime(control: BuildControl): number {
+    const remaining = control.expiresAt - Date.now();
+    if (remaining <= 0) {
+      throw this.createTimeoutException(control);
+    }
+    return remaining;
+  }
+
+  private createTimeoutException(control: BuildControl, originalError?: Error): BuildException {
+    const message = control.stepName
+      ? `步骤「${control.stepName}」超时：超过配置的 ${control.timeoutMinutes} 分钟`
+      : `构建超时：超过配置的 ${control.timeoutMinutes} 分钟`;
+    return new BuildException(FailureReason.TIMEOUT, message, originalError);
+  }
+
+  /**
+   * 检查任务是否已被取消（本地中止信号或其他实例通过 Redis 发出的取消请求）
+   */
+  private async throwIfCancelled(control: BuildControl): Promise<void> {
+    if (control.signal.aborted || await this.buildCancellationService.isCancelRequested(control.taskId)) {
+      throw new BuildCancelledException();
+    }
+  }
+
+  /**
+   * 在任务截止时间内执行命令
+   * 字符串命令通过 shell 执行（用户配置的脚本），数组命令按参数直接执行，参数中的外部输入不会被 shell 解析
+   * 命令在独立进程组中运行，超时或取消时结束整个进程树
+   */
+  private execCommand(
+    command: string | string[],
+    control: BuildControl,
+    options: { cwd?: string; env?: NodeJS.ProcessEnv } = {},
+  ): Promise<{ stdout: string; stderr: string }> {
+    if (control.signal.aborted) {
+      return Promise.reject(new BuildCancelledException());
+    }
+
+    let timeout: number;
     try {
-      const { stdout, stderr } = await execAsync(cloneCmd, { timeout: 300000 }); // 5分钟超时
-      await onLog?.(`Git clone output: ${stdout}`);
-      if (stderr) {
-        await onLog?.(`Git clone stderr: ${stderr}`);
+      timeout = this.getRemainingTime(control);
+    } catch (error) {
+      return Promise.reject(error);
+    }
+
+    return new Promise((resolve, reject) => {
+      const spawnOptions = {
+        cwd: options.cwd,
+        env: { ...process.env, ...control.env, ...options.env },
+        detached: true,
+      };
+      const child = Array.isArray(command)
+        ? spawn(command[0], command.slice(1), { ...spawnOptions, shell: false })
+        : spawn(command, { ...spawnOptions, shell: true });
+
+      let stdout = '';
+      let stderr = '';
+      let settled = false;
+
+      const finish = (error?: Error) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        clearTimeout(timer);
+        control.signal.removeEventListener('abort', onAbort);
+        if (error) {
+          reject(error);
+        } else {
+          resolve({ stdout, stderr });
+        }
+      };
+
+      const onAbort = () => {
+        this.killProcessTree(child.pid);
+        finish(new BuildCancelledException());
+      };
+
+      const timer = setTimeout(() => {
+        this.killProcessTree(child.pid);
+        finish(this.createTimeoutException(control));
+      }, timeout);
+
+      control.signal.addEventListener('abort', onAbort, { once: true });
+
+      child.stdout.on('data', (chunk) => (stdout += chunk));
+      child.stderr.on('data', (chunk) => (stderr += chunk));
+      child.on('error', (error) => finish(error));
+      child.on('close', (code, signal) => {
+        if (code === 0) {
+          finish();
+          return;
+        }
+        const error: any = new Error(`Command failed: ${Array.isArray(command) ? command.join(' ') : command}\n${stderr}`);
+        error.code = code;
+        error.signal = signal;
+        error.stdout = stdout;
+        error.stderr = stderr;
+        finish(error);
+      });
+    });
+  }
+
+  /**
+   * 结束进程组内的所有进程，先 SIGTERM，未退出的再 SIGKILL
+   */
+  private killProcessTree(pid?: number): void {
+    if (!pid) {
+      return;
+    }
+
+    const kill = (signal: NodeJS.Signals) => {
+      try {
+        process.kill(-pid, signal);
+      } catch {
+        // 进程组已退出
       }
+    };
+
+    kill('SIGTERM');
+    setTimeout(() => kill('SIGKILL'), 5000).unref();
+  }
+
+  /**
+   * 在任务截止时间内等待异步操作（如 miniprogram-ci 调用）
+   * miniprogram-ci 不支持中断请求，取消时只能停止等待其结果
+   */
+  private async runControlled<T>(operation: Promise<T>, control: BuildControl): Promise<T> {
+    await this.throwIfCancelled(control);
+    const remaining = this.getRemainingTime(control);
+    let timer: NodeJS.Timeout;
+    let onAbort: () => void;
+
+    const interrupted = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(this.createTimeoutException(control)), remaining);
+      onAbort = () => reject(new BuildCancelledException());
+      control.signal.addEventListener('abort', onAbort, { once: true });
+    });
+
+    try {
+      return await Promise.race([operation, interrupted]);
+    } finally {
+      clearTimeout(timer);
+      control.signal.removeEventListener('abort', onAbort);
+    }
+  }
+
+  /**
+   * 准备SSH认证环境
+   * 私钥写入 <workspace>/.ssh/<taskId>/ 下的独立文件，并通过 GIT_SSH_COMMAND 指定给git使用
+   */
+  private async prepareSshAuth(
+    taskId: string,
+    credential: SshCredential,
+    onLog?: (log: string) => Promise<void>,
+  ): Promise<{ dir: string; env: NodeJS.ProcessEnv }> {
+    const workspaceDir = this.configService.get('build.workspace', '/tmp/build');
+    const sshDir = path.resolve(workspaceDir, '.ssh', taskId);
+
+    await fs.ensureDir(sshDir);
+    await fs.chmod(sshDir, 0o700);
+
+    // ssh要求私钥文件仅所有者可读写，且OpenSSH格式私钥必须以换行结尾
+    const keyPath = path.join(sshDir, 'id_key');
+    const privateKey = credential.privateKey.endsWith('\n')
+      ? credential.privateKey
+      : `${credential.privateKey}\n`;
+    await fs.writeFile(keyPath, privateKey, { mode: 0o600 });
+
+    const knownHostsPath = path.join(sshDir, 'known_hosts');
+    const sshOptions = [
+      `-i "${keyPath}"`,
+      '-o IdentitiesOnly=yes',
+      `-o UserKnownHostsFile="${knownHostsPath}"`,
+    ];
+
+    if (credential.knownHosts) {
+      // 配置了known_hosts时严格校验主机指纹
+      await fs.writeFile(knownHostsPath, `${credential.knownHosts.trim()}\n`, { mode: 0o600 });
+      sshOptions.push('-o StrictHostKeyChecking=yes');
+    } else {
+      await onLog?.('未配置known_hosts，将信任首次连接的主机指纹');
+      sshOptions.push('-o StrictHostKeyChecking=accept-new');
+    }
+
+    const env: NodeJS.ProcessEnv = {
+      ...process.env,
+      GIT_TERMINAL_PROMPT: '0',
+    };
+
+    if (credential.passphrase) {
+      // 通过SSH_ASKPASS脚本提供私钥口令，口令本身只存在于子进程环境变量中
+      const askPassPath = path.join(sshDir, 'askpass.sh');
+      await fs.writeFile(askPassPath, '#!/bin/sh\nprintf \'%s\\n\' "$AVOCADO_SSH_PASSPHRASE"\n', {
+        mode: 0o700,
+      });
+      env.SSH_ASKPASS = askPassPath;
+      env.SSH_ASKPASS_REQUIRE = 'force';
+      env.DISPLAY = process.env.DISPLAY || ':0';
+      env.AVOCADO_SSH_PASSPHRASE = credential.passphrase;
+    } else {
+      // 无口令时禁止任何交互式提示，避免构建进程挂起
+      sshOptions.push('-o BatchMode=yes');
+    }
+
+    env.GIT_SSH_COMMAND = `ssh ${sshOptions.join(' ')}`;
+
+    await onLog?.('已配置SSH私钥认证');
+
+    return { dir: sshDir, env };
+  }
+
+  /**
+   * 清理SSH认证临时文件
+   */
+  private async cleanupSshAuth(sshDir: string): Promise<void> {
+    try {
+      await fs.remove(sshDir);
     } catch (error) {
-      throw new Error(`代码克隆失败: ${error.message}`);
+      this.logger.error(`Failed to cleanup ssh key directory ${sshDir}:`, error);
     }
   }
 
@@ -219,8 +1050,17 @@ export class BuildService {
   private async installDependencies(
     projectDir: string,
     miniprogram: Miniprogram & { config?: any },
+    control: BuildControl,
     onLog?: (log: string) => Promise<void>,
+    useCache = false,
   ): Promise<void> {
+    const { config } = miniprogram;
+
+    if (config?.install === false) {
+      await onLog?.('已关闭依赖安装，跳过依赖安装');
+      return;
+    }
+
     const packageJsonPath = path.join(projectDir, 'package.json');
     
     // 检查是否存在package.json
@@ -229,19 +1069,34 @@ export class BuildService {
       return;
     }
 
-    // 检测包管理器
-    let installCmd = 'npm install';
-    
-    if (await fs.pathExists(path.join(projectDir, 'yarn.lock'))) {
-      installCmd = 'yarn install';
-    } else if (await fs.pathExists(path.join(projectDir, 'pnpm-lock.yaml'))) {
-      installCmd = 'pnpm install';
+    // 优先使用配置的安装命令，未配置时根据锁文件检测包管理器
+    const lockfileInfo = await this.workspaceCacheService.detectLockfile(projectDir);
+    const packageManager = lockfileInfo?.packageManager || 'npm';
+    const installCmd = config?.installCommand?.trim() || `${packageManager} install`;
+
+    if (lockfileInfo && !installCmd.startsWith(packageManager)) {
+      await onLog?.(`检测到${lockfileInfo.lockfile}，但安装命令为: ${installCmd}`);
     }
 
+    // 根据锁文件哈希复用依赖缓存
+    let cacheKey: string | undefined;
+    if (useCache && lockfileInfo) {
+      cacheKey = await this.workspaceCacheService.computeDependencyKey(projectDir, lockfileInfo, installCmd);
+      try {
+        if (await this.workspaceCacheService.restoreDependencies(projectDir, cacheKey)) {
+          await onLog?.(`命中依赖缓存(${lockfileInfo.lockfile})，跳过依赖安装`);
+          return;
+        }
+      } catch (error) {
+        await onLog?.(`恢复依赖缓存失败，将重新安装: ${error.message}`);
+      }
+    }
+
+    await onLog?.(`执行安装命令: ${installCmd}`);
+
     try {
-      const { stdout, stderr } = await execAsync(installCmd, {
+      const { stdout, stderr } = await this.execCommand(installCmd, control, {
         cwd: projectDir,
-        timeout: 600000, // 10分钟超时
       });
       
       await onLog?.(`依赖安装输出: ${stdout}`);
@@ -249,13 +1104,26 @@ export class BuildService {
         await onLog?.(`依赖安装警告: ${stderr}`);
       }
     } catch (error) {
+      if (error instanceof BuildException || error instanceof BuildCancelledException) {
+        throw error;
+      }
       throw new Error(`依赖安装失败: ${error.message}`);
     }
+
+    if (cacheKey) {
+      try {
+        await this.workspaceCacheService.saveDependencies(projectDir, cacheKey, packageManager);
+        await onLog?.('依赖已写入缓存');
+      } catch (error) {
+        this.logger.warn(`Failed to save dependency cache: ${error.message}`);
+      }
+    }
   }
 
   private async buildNativeMiniprogram(
     projectDir: string,
     miniprogram: Miniprogram & { config?: any },
+    control: BuildControl,
     onLog?: (log: string) => Promise<void>,
   ) {
     const { appId, privateKeyPath, config } = miniprogram;
@@ -290,18 +1158,24 @@ export class BuildService {
         ],
       });
       
-      const warning = await ci.packNpm(project, {
-        ignores: ['pack_npm_ignore_list'],
-        reporter: async (infos) => { 
-          console.log(infos)
-          await onLog?.(`npm构建进度: ${JSON.stringify(infos)}`);
-        }
-      })
+      const warning = await this.runControlled(
+        ci.packNpm(project, {
+          ignores: ['pack_npm_ignore_list'],
+          reporter: async (infos) => { 
+            console.log(infos)
+            await onLog?.(`npm构建进度: ${JSON.stringify(infos)}`);
+          }
+        }),
+        control,
+      ) as any[];
       
       await onLog?.(warning.map((it, index) => {
               return `${index + 1}. ${it.msg}\t> code: ${it.code}\t@ ${it.jsPath}:${it.startLine}-${it.endLine}`
             }).join('---------------\n'))
     } catch (error) {
+      if (error instanceof BuildException || error instanceof BuildCancelledException) {
+        throw error;
+      }
       throw new Error(`原生小程序构建失败: ${error.message}`);
     }
   }
@@ -313,6 +1187,7 @@ export class BuildService {
   private async buildProject(
     projectDir: string,
     miniprogram: Miniprogram & { config?: any },
+    control: BuildControl,
     onLog?: (log: string) => Promise<void>,
   ): Promise<void> {
     const { buildCommand, projectType } = miniprogram.config || {};
@@ -329,9 +1204,8 @@ export class BuildService {
     }
 
     try {
-      const { stdout, stderr } = await execAsync(buildCommand, {
+      const { stdout, stderr } = await this.execCommand(buildCommand, control, {
         cwd: projectDir,
-        timeout: 1800000, // 30分钟超时
       });
       
       await onLog?.(`构建输出: ${stdout}`);
@@ -339,6 +1213,9 @@ export class BuildService {
         await onLog?.(`构建警告: ${stderr}`);
       }
     } catch (error) {
+      if (error instanceof BuildException || error instanceof BuildCancelledException) {
+        throw error;
+      }
       throw new Error(`项目构建失败: ${error.message}`);
     }
   }
@@ -430,7 +1307,7 @@ export class BuildService {
             autoPrefixWXSS: config.autoPrefixWXSS,
           },
           qrcodeFormat: config.qrcodeFormat.toLowerCase() || 'base64',
-          qrcodeOutputDest: path.join('./uploads/preview/', `${ taskId }.jpg`),
+          qrcodeOutputDest: getPreviewQrcodePath(taskId),
           pagePath: config.pagePath || 'pages/index/index',
           searchQuery: config.searchQuery || undefined,
           scene: config.scene || 1011,
@@ -0,0 +1,93 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { simpleGit as createGit, SimpleGit } from 'simple-git';
+import { ChangelogService, WECHAT_DESC_MAX_LENGTH } from './changelog.service';
+
+describe('ChangelogService', () => {
+  let service: ChangelogService;
+  let repoDir: string;
+  let git: SimpleGit;
+
+  const commit = async (message: string) => {
+    await git.commit(message, [], { '--allow-empty': null });
+    return (await git.revparse(['HEAD'])).trim();
+  };
+
+  beforeEach(async () => {
+    service = new ChangelogService();
+    repoDir = await fs.mkdtemp(path.join(os.tmpdir(), 'changelog-'));
+    git = createGit(repoDir);
+    await git.init();
+    await git.addConfig('user.name', 'tester');
+    await git.addConfig('user.email', 'tester@example.com');
+    await git.addConfig('commit.gpgsign', 'false');
+  });
+
+  afterEach(async () => {
+    await fs.remove(repoDir);
+  });
+
+  it('should group commits since the last upload by conventional type', async () => {
+    const lastUpload = await commit('feat: 已上传的功能');
+    await commit('fix(cart): 修复购物车数量');
+    await commit('feat(order): 新增订单页');
+    await commit('更新 README');
+    await commit('feat!: 移除旧版登录');
+
+    const description = await service.generate(repoDir, { since: lastUpload });
+
+    expect(description).toBe([
+      '不兼容变更',
+      '- 移除旧版登录',
+      '新功能',
+      '- order: 新增订单页',
+      '问题修复',
+      '- cart: 修复购物车数量',
+      '其他',
+      '- 更新 README',
+    ].join('\n'));
+  });
+
+  it('should render the configured template', async () => {
+    const lastUpload = await commit('chore: init');
+    await commit('feat: 新增首页');
+    await commit('fix: 修复白屏');
+
+    const description = await service.generate(repoDir, {
+      since: lastUpload,
+      template: 'v{{version}} 共 {{commitCount}} 项更新\n{{feat}}\n{{perf}}',
+      variables: { version: '1.3.0' },
+    });
+
+    expect(description).toBe('v1.3.0 共 2 项更新\n- 新增首页');
+  });
+
+  it('should fall back to recent commits when the last upload is not in history', async () => {
+    await commit('feat: 新增首页');
+
+    await expect(service.generate(repoDir, { since: 'f'.repeat(40) })).resolves.toBe('新功能\n- 新增首页');
+  });
+
+  it('should return null without new commits', async () => {
+    const head = await commit('feat: 新增首页');
+
+    await expect(service.generate(repoDir, { since: head })).resolves.toBeNull();
+    await expect(service.getHead(repoDir)).resolves.toEqual({ id: head, author: expect.any(String), message: 'feat: 新增首页' });
+  });
+
+  it('should trim to the WeChat description limit on line boundaries', () => {
+    const entries = Array.from({ length: 100 }, (_, index) => ({
+      hash: String(index),
+      type: 'fix',
+      subject: `修复第 ${index} 个问题`,
+      breaking: false,
+    }));
+
+    const description = service.render(entries, '{{changelog}}');
+
+    expect(description.length).toBeLessThanOrEqual(WECHAT_DESC_MAX_LENGTH);
+    expect(description.endsWith('\n…')).toBe(true);
+    expect(description.split('\n').slice(1, -1).every((line) => /^- 修复第 \d+ 个问题$/.test(line))).toBe(true);
+  });
+});
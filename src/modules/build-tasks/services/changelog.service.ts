@@ -0,0 +1,182 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { simpleGit as createGit } from 'simple-git';
+import { parseConventionalCommit } from '../../miniprograms/version.service';
+
+// 微信上传版本描述的长度上限
+export const WECHAT_DESC_MAX_LENGTH = 500;
+
+// 生成更新日志时克隆的提交深度
+export const CHANGELOG_CLONE_DEPTH = 100;
+
+// 找不到上次上传的提交时，取最近的提交数
+const FALLBACK_COMMIT_COUNT = 20;
+
+export const DEFAULT_CHANGELOG_TEMPLATE = '{{changelog}}';
+
+// 按显示顺序排列的提交分组，未列出的类型和非约定式提交归入「其他」
+const COMMIT_GROUPS: { key: string; title: string }[] = [
+  { key: 'breaking', title: '不兼容变更' },
+  { key: 'feat', title: '新功能' },
+  { key: 'fix', title: '问题修复' },
+  { key: 'perf', title: '性能优化' },
+  { key: 'refactor', title: '代码重构' },
+  { key: 'style', title: '代码格式' },
+  { key: 'docs', title: '文档' },
+  { key: 'other', title: '其他' },
+];
+
+export interface ChangelogEntry {
+  hash: string;
+  type: string;
+  scope?: string;
+  subject: string;
+  breaking: boolean;
+}
+
+export interface HeadCommit {
+  id: string;
+  message: string;
+  author: string;
+}
+
+export interface ChangelogOptions {
+  /** 上次成功上传的提交，为空时取最近的提交 */
+  since?: string | null;
+  template?: string | null;
+  variables?: Record<string, string | undefined>;
+}
+
+/**
+ * 更新日志生成
+ * 读取构建工作区中自上次上传以来的提交，按约定式提交类型分组后渲染为版本描述
+ */
+@Injectable()
+export class ChangelogService {
+  private readonly logger = new Logger(ChangelogService.name);
+
+  /**
+   * 生成版本描述，没有新提交时返回 null
+   */
+  async generate(repoDir: string, options: ChangelogOptions = {}): Promise<string | null> {
+    const entries = await this.collect(repoDir, options.since);
+    if (entries.length === 0) {
+      return null;
+    }
+
+    return this.render(entries, options.template || DEFAULT_CHANGELOG_TEMPLATE, options.variables);
+  }
+
+  /**
+   * 获取工作区当前提交，不是 Git 仓库时返回 undefined
+   */
+  async getHead(repoDir: string): Promise<HeadCommit | undefined> {
+    try {
+      const output = await createGit(repoDir).raw(['log', '-1', '--format=%H%x1f%an%x1f%B']);
+      const [id, author, message] = output.split('\x1f');
+      return { id: id.trim(), author, message: message.trim() };
+    } catch (error) {
+      this.logger.warn(`读取 ${repoDir} 的当前提交失败: ${error.message}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * 读取 since..HEAD 之间的非合并提交，since 不在历史中时取最近的提交
+   */
+  async collect(repoDir: string, since?: string | null): Promise<ChangelogEntry[]> {
+    const git = createGit(repoDir);
+    const args = ['log', '--no-merges', '--format=%H%x1f%B%x1e'];
+
+    if (since && await this.hasCommit(repoDir, since)) {
+      args.push(`${since}..HEAD`);
+    } else {
+      args.push(`--max-count=${FALLBACK_COMMIT_COUNT}`, 'HEAD');
+    }
+
+    const output = await git.raw(args);
+    return output
+      .split('\x1e')
+      .map((record) => record.trim())
+      .filter(Boolean)
+      .map((record) => {
+        const [hash, message = ''] = record.split('\x1f');
+        const commit = parseConventionalCommit(message);
+        return commit
+          ? { hash, ...commit }
+          : { hash, type: 'other', subject: message.trim().split('\n')[0], breaking: false };
+      });
+  }
+
+  /**
+   * 渲染模板，{{changelog}} 为分组后的完整日志，{{feat}} {{fix}} 等为单个分组
+   * 结果截断到微信版本描述长度上限
+   */
+  render(entries: ChangelogEntry[], template: string, variables: Record<string, string | undefined> = {}): string {
+    const groups = this.group(entries);
+    const values: Record<string, string | undefined> = {
+      ...variables,
+      commitCount: String(entries.length),
+      changelog: COMMIT_GROUPS
+        .filter(({ key }) => groups.has(key))
+        .map(({ key, title }) => `${title}\n${groups.get(key)}`)
+        .join('\n'),
+    };
+    for (const [key, lines] of groups) {
+      values[key] = lines;
+    }
+
+    const description = template
+      .replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => values[name] ?? '')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+
+    return this.truncate(description, WECHAT_DESC_MAX_LENGTH);
+  }
+
+  private group(entries: ChangelogEntry[]): Map<string, string> {
+    const known = new Set(COMMIT_GROUPS.map(({ key }) => key));
+    const groups = new Map<string, string[]>();
+
+    for (const entry of entries) {
+      const key = entry.breaking ? 'breaking' : known.has(entry.type) ? entry.type : 'other';
+      const line = `- ${entry.scope ? `${entry.scope}: ` : ''}${entry.subject}`;
+      groups.set(key, [...(groups.get(key) || []), line]);
+    }
+
+    return new Map([...groups].map(([key, lines]) => [key, lines.join('\n')]));
+  }
+
+  /**
+   * 按整行截断，单行超长时直接截断
+   */
+  private truncate(text: string, maxLength: number): string {
+    if (text.length <= maxLength) {
+      return text;
+    }
+
+    const ellipsis = '…';
+    const lines: string[] = [];
+    let length = 0;
+    for (const line of text.split('\n')) {
+      const next = length + line.length + (lines.length ? 1 : 0);
+      if (next + ellipsis.length + 1 > maxLength) {
+        break;
+      }
+      lines.push(line);
+      length = next;
+    }
+
+    return lines.length
+      ? `${lines.join('\n')}\n${ellipsis}`
+      : `${text.substring(0, maxLength - ellipsis.length)}${ellipsis}`;
+  }
+
+  private async hasCommit(repoDir: string, commitId: string): Promise<boolean> {
+    try {
+      await createGit(repoDir).raw(['cat-file', '-e', `${commitId}^{commit}`]);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,86 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import * as fs from 'fs-extra';
+import { PrismaService } from '../../prisma/prisma.service';
+import { getPreviewQrcodePath } from './build.service';
+import { PullRequestPreviewService } from './pull-request-preview.service';
+
+jest.mock('fs-extra', () => ({ remove: jest.fn() }));
+
+describe('PullRequestPreviewService', () => {
+  let service: PullRequestPreviewService;
+
+  const mockPrisma = {
+    pullRequestPreview: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      upsert: jest.fn(),
+    },
+  };
+
+  const task: any = { id: 'task-2', appId: 'mp-1', pullRequestNumber: 42 };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PullRequestPreviewService,
+        { provide: PrismaService, useValue: mockPrisma },
+      ],
+    }).compile();
+
+    service = module.get<PullRequestPreviewService>(PullRequestPreviewService);
+  });
+
+  it('should reopen the preview and point it at the latest task', async () => {
+    await service.track(task, { number: 42, title: 'feat: page', headRef: 'feature/page', headSha: 'abc' });
+
+    expect(mockPrisma.pullRequestPreview.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      where: { miniprogramId_number: { miniprogramId: 'mp-1', number: 42 } },
+      update: expect.objectContaining({ latestTaskId: 'task-2', closed: false }),
+    }));
+  });
+
+  it('should keep only the latest QR code of a PR', async () => {
+    mockPrisma.pullRequestPreview.findUnique.mockResolvedValue({
+      id: 'preview-1',
+      closed: false,
+      latestTaskId: 'task-2',
+      qrcodeTaskId: 'task-1',
+    });
+
+    await service.recordQrcode(task);
+
+    expect(mockPrisma.pullRequestPreview.update).toHaveBeenCalledWith({
+      where: { id: 'preview-1' },
+      data: { qrcodeTaskId: 'task-2' },
+    });
+    expect(fs.remove).toHaveBeenCalledWith(getPreviewQrcodePath('task-1'));
+  });
+
+  it('should drop QR codes of superseded tasks', async () => {
+    mockPrisma.pullRequestPreview.findUnique.mockResolvedValue({
+      id: 'preview-1',
+      closed: false,
+      latestTaskId: 'task-3',
+      qrcodeTaskId: 'task-1',
+    });
+
+    await service.recordQrcode(task);
+
+    expect(mockPrisma.pullRequestPreview.update).not.toHaveBeenCalled();
+    expect(fs.remove).toHaveBeenCalledWith(getPreviewQrcodePath('task-2'));
+  });
+
+  it('should remove the QR code when the PR closes', async () => {
+    mockPrisma.pullRequestPreview.findUnique.mockResolvedValue({ id: 'preview-1', closed: false, qrcodeTaskId: 'task-2' });
+
+    await service.close('mp-1', 42);
+
+    expect(mockPrisma.pullRequestPreview.update).toHaveBeenCalledWith({
+      where: { id: 'preview-1' },
+      data: { closed: true, qrcodeTaskId: null },
+    });
+    expect(fs.remove).toHaveBeenCalledWith(getPreviewQrcodePath('task-2'));
+  });
+});
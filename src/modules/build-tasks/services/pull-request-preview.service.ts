@@ -0,0 +1,124 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { BuildTask, PullRequestPreview } from '@prisma/client';
+import * as fs from 'fs-extra';
+import { PrismaService } from '../../prisma/prisma.service';
+import { getPreviewQrcodePath } from './build.service';
+
+export interface PullRequestInfo {
+  number: number;
+  title?: string;
+  headRef: string;
+  headSha?: string;
+}
+
+/**
+ * PR 预览记录
+ * 每个 PR 只保留最新一次预览的二维码，PR 关闭后清理
+ */
+@Injectable()
+export class PullRequestPreviewService {
+  private readonly logger = new Logger(PullRequestPreviewService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * 记录 PR 最近触发的预览任务，重新打开的 PR 恢复为未关闭
+   */
+  async track(task: BuildTask, pullRequest: PullRequestInfo): Promise<PullRequestPreview> {
+    const data = {
+      title: pullRequest.title?.substring(0, 255),
+      headRef: pullRequest.headRef,
+      headSha: pullRequest.headSha,
+      latestTaskId: task.id,
+      closed: false,
+    };
+
+    return this.prisma.pullRequestPreview.upsert({
+      where: {
+        miniprogramId_number: { miniprogramId: task.appId, number: pullRequest.number },
+      },
+      create: {
+        ...data,
+        miniprogramId: task.appId,
+        number: pullRequest.number,
+      },
+      update: data,
+    });
+  }
+
+  /**
+   * 预览成功后替换 PR 的二维码，删除旧二维码；失败只记录日志
+   */
+  async recordQrcode(task: BuildTask): Promise<void> {
+    if (!task.pullRequestNumber) {
+      return;
+    }
+
+    try {
+      await this.replaceQrcode(task);
+    } catch (error) {
+      this.logger.warn(`记录 PR #${task.pullRequestNumber} 的预览二维码失败: ${error.message}`);
+    }
+  }
+
+  /**
+   * PR 关闭或合并后清理预览二维码
+   */
+  async close(miniprogramId: string, number: number): Promise<void> {
+    const preview = await this.prisma.pullRequestPreview.findUnique({
+      where: {
+        miniprogramId_number: { miniprogramId, number },
+      },
+    });
+    if (!preview) {
+      return;
+    }
+
+    await this.prisma.pullRequestPreview.update({
+      where: { id: preview.id },
+      data: { closed: true, qrcodeTaskId: null },
+    });
+    if (preview.qrcodeTaskId) {
+      await this.removeQrcode(preview.qrcodeTaskId);
+    }
+  }
+
+  /**
+   * 查询小程序未关闭的 PR 预览
+   */
+  findOpen(miniprogramId: string): Promise<PullRequestPreview[]> {
+    return this.prisma.pullRequestPreview.findMany({
+      where: { miniprogramId, closed: false },
+      orderBy: { updatedAt: 'desc' },
+    });
+  }
+
+  private async replaceQrcode(task: BuildTask): Promise<void> {
+    const preview = await this.prisma.pullRequestPreview.findUnique({
+      where: {
+        miniprogramId_number: { miniprogramId: task.appId, number: task.pullRequestNumber },
+      },
+    });
+    // 已关闭的 PR 或已被新预览取代的任务不保留二维码
+    if (!preview || preview.closed || preview.latestTaskId !== task.id) {
+      await this.removeQrcode(task.id);
+      return;
+    }
+
+    await this.prisma.pullRequestPreview.update({
+      where: { id: preview.id },
+      data: { qrcodeTaskId: task.id },
+    });
+    if (preview.qrcodeTaskId && preview.qrcodeTaskId !== task.id) {
+      await this.removeQrcode(preview.qrcodeTaskId);
+    }
+  }
+
+  private async removeQrcode(taskId: string): Promise<void> {
+    try {
+      await fs.remove(getPreviewQrcodePath(taskId));
+    } catch (error) {
+      this.logger.warn(`删除预览二维码 ${taskId} 失败: ${error.message}`);
+    }
+  }
+}
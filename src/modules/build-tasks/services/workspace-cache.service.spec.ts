@@ -0,0 +1,154 @@
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { RedisService } from '../../redis/redis.service';
+import { WorkspaceCacheService } from './workspace-cache.service';
+
+describe('WorkspaceCacheService', () => {
+  let service: WorkspaceCacheService;
+  let rootDir: string;
+  let config: Record<string, any>;
+  let store: Map<string, string>;
+
+  const mockRedisService = {
+    setNx: jest.fn(async (key: string, value: string) => {
+      if (store.has(key)) {
+        return false;
+      }
+      store.set(key, value);
+      return true;
+    }),
+    get: jest.fn(async (key: string) => store.get(key) ?? null),
+    del: jest.fn(async (key: string) => Number(store.delete(key))),
+  };
+
+  const createProject = async (name: string, lockContent: string) => {
+    const projectDir = path.join(rootDir, name);
+    await fs.ensureDir(path.join(projectDir, 'node_modules', 'left-pad'));
+    await fs.writeFile(path.join(projectDir, 'package-lock.json'), lockContent);
+    await fs.writeFile(path.join(projectDir, 'node_modules', 'left-pad', 'index.js'), 'x'.repeat(100));
+    return projectDir;
+  };
+
+  beforeEach(async () => {
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), 'workspace-cache-'));
+    store = new Map();
+    config = {
+      'build.cache.enabled': true,
+      'build.cache.path': path.join(rootDir, 'cache'),
+      'build.cache.maxSize': 1024 * 1024,
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WorkspaceCacheService,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string, defaultValue?: any) => config[key] ?? defaultValue),
+          },
+        },
+        { provide: RedisService, useValue: mockRedisService },
+      ],
+    }).compile();
+
+    service = module.get<WorkspaceCacheService>(WorkspaceCacheService);
+  });
+
+  afterEach(async () => {
+    await fs.remove(rootDir);
+  });
+
+  describe('lockRepoDir', () => {
+    it('should let one build use the repository directory at a time', async () => {
+      await expect(service.lockRepoDir('mp-1', 'task-1', 600)).resolves.toBe(true);
+      await expect(service.lockRepoDir('mp-1', 'task-2', 600)).resolves.toBe(false);
+      await expect(service.lockRepoDir('mp-2', 'task-3', 600)).resolves.toBe(true);
+
+      await service.unlockRepoDir('mp-1', 'task-2');
+      await expect(service.lockRepoDir('mp-1', 'task-2', 600)).resolves.toBe(false);
+
+      await service.unlockRepoDir('mp-1', 'task-1');
+      await expect(service.lockRepoDir('mp-1', 'task-2', 600)).resolves.toBe(true);
+    });
+  });
+
+  describe('detectLockfile', () => {
+    it('should detect package manager from lockfile', async () => {
+      const projectDir = path.join(rootDir, 'project');
+      await fs.ensureDir(projectDir);
+      await fs.writeFile(path.join(projectDir, 'pnpm-lock.yaml'), '');
+
+      const result = await service.detectLockfile(projectDir);
+
+      expect(result).toEqual({ packageManager: 'pnpm', lockfile: 'pnpm-lock.yaml' });
+    });
+
+    it('should return null when no lockfile exists', async () => {
+      await fs.ensureDir(path.join(rootDir, 'empty'));
+
+      expect(await service.detectLockfile(path.join(rootDir, 'empty'))).toBeNull();
+    });
+  });
+
+  describe('computeDependencyKey', () => {
+    it('should change when lockfile content changes', async () => {
+      const a = await createProject('a', '{"v":1}');
+      const b = await createProject('b', '{"v":2}');
+      const info = { packageManager: 'npm' as const, lockfile: 'package-lock.json' };
+
+      const keyA = await service.computeDependencyKey(a, info, 'npm install');
+      const keyB = await service.computeDependencyKey(b, info, 'npm install');
+
+      expect(keyA).not.toBe(keyB);
+      expect(await service.computeDependencyKey(a, info, 'npm install')).toBe(keyA);
+    });
+  });
+
+  describe('save and restore', () => {
+    it('should restore node_modules from cache into another project', async () => {
+      const source = await createProject('source', '{}');
+      await service.saveDependencies(source, 'key-1', 'npm');
+
+      const target = path.join(rootDir, 'target');
+      await fs.ensureDir(target);
+
+      const hit = await service.restoreDependencies(target, 'key-1');
+
+      expect(hit).toBe(true);
+      expect(await fs.pathExists(path.join(target, 'node_modules', 'left-pad', 'index.js'))).toBe(true);
+    });
+
+    it('should report a miss for unknown keys', async () => {
+      const target = path.join(rootDir, 'target');
+      await fs.ensureDir(target);
+
+      expect(await service.restoreDependencies(target, 'missing')).toBe(false);
+    });
+  });
+
+  describe('evict', () => {
+    it('should remove least recently used entries above the size cap', async () => {
+      const project = await createProject('project', '{}');
+      await service.saveDependencies(project, 'old', 'npm');
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      await service.saveDependencies(project, 'new', 'npm');
+
+      // 只允许保留一个条目
+      const { totalSize } = await service.getStatistics();
+      config['build.cache.maxSize'] = totalSize / 2;
+
+      const removed = await service.evict();
+      const stats = await service.getStatistics();
+
+      expect(removed).toBe(1);
+      expect(stats.entries).toBe(1);
+      const target = path.join(rootDir, 'target');
+      await fs.ensureDir(target);
+      expect(await service.restoreDependencies(target, 'new')).toBe(true);
+      expect(await service.restoreDependencies(target, 'old')).toBe(false);
+    });
+  });
+});
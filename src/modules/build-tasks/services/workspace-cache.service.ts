@@ -0,0 +1,279 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { RedisService } from '../../redis/redis.service';
+
+export type PackageManager = 'npm' | 'yarn' | 'pnpm';
+
+export interface LockfileInfo {
+  packageManager: PackageManager;
+  lockfile: string;
+}
+
+interface DependencyCacheMeta {
+  key: string;
+  packageManager: PackageManager;
+  size: number;
+  createdAt: string;
+  lastUsedAt: string;
+}
+
+/**
+ * 构建工作区缓存
+ * - 每个小程序保留一份持久化的代码检出目录，后续构建使用 fetch + reset 增量更新，
+ *   通过 Redis 锁保证同一时间只有一个构建使用
+ * - node_modules 按锁文件内容哈希缓存，超过容量上限时按最近最少使用淘汰
+ */
+@Injectable()
+export class WorkspaceCacheService {
+  private readonly logger = new Logger(WorkspaceCacheService.name);
+
+  // 锁文件检测顺序，与安装命令的包管理器对应
+  private readonly lockfiles: LockfileInfo[] = [
+    { packageManager: 'yarn', lockfile: 'yarn.lock' },
+    { packageManager: 'pnpm', lockfile: 'pnpm-lock.yaml' },
+    { packageManager: 'npm', lockfile: 'package-lock.json' },
+  ];
+
+  private readonly metaFileName = 'meta.json';
+  private readonly markerFileName = '.avocado-cache-key';
+  private readonly lockPrefix = 'workspace:lock:';
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly redisService: RedisService,
+  ) {}
+
+  /**
+   * 是否启用工作区缓存
+   */
+  isEnabled(): boolean {
+    return this.configService.get<boolean>('build.cache.enabled', true);
+  }
+
+  /**
+   * 获取小程序的持久化代码目录
+   */
+  getRepoDir(miniprogramId: string): string {
+    return path.resolve(this.getCacheRoot(), 'repos', miniprogramId);
+  }
+
+  /**
+   * 锁定小程序的持久化代码目录，未取得锁时调用方应改用任务独立的目录
+   */
+  async lockRepoDir(miniprogramId: string, taskId: string, ttl: number): Promise<boolean> {
+    try {
+      return await this.redisService.setNx(`${this.lockPrefix}${miniprogramId}`, taskId, ttl);
+    } catch (error) {
+      this.logger.warn(`Failed to lock workspace of miniprogram ${miniprogramId}: ${error.message}`);
+      return false;
+    }
+  }
+
+  /**
+   * 释放持久化代码目录的锁，锁已过期被其他构建取得时不释放
+   */
+  async unlockRepoDir(miniprogramId: string, taskId: string): Promise<void> {
+    const key = `${this.lockPrefix}${miniprogramId}`;
+    try {
+      if (await this.redisService.get(key) === taskId) {
+        await this.redisService.del(key);
+      }
+    } catch (error) {
+      this.logger.warn(`Failed to unlock workspace of miniprogram ${miniprogramId}: ${error.message}`);
+    }
+  }
+
+  /**
+   * 检测项目使用的锁文件
+   */
+  async detectLockfile(projectDir: string): Promise<LockfileInfo | null> {
+    for (const info of this.lockfiles) {
+      if (await fs.pathExists(path.join(projectDir, info.lockfile))) {
+        return info;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * 根据锁文件内容计算依赖缓存键
+   */
+  async computeDependencyKey(projectDir: string, info: LockfileInfo, installCommand: string): Promise<string> {
+    const content = await fs.readFile(path.join(projectDir, info.lockfile));
+    return crypto
+      .createHash('sha256')
+      .update(info.packageManager)
+      .update('\0')
+      .update(installCommand)
+      .update('\0')
+      .update(content)
+      .digest('hex');
+  }
+
+  /**
+   * 尝试从缓存恢复 node_modules
+   * @returns 是否命中缓存（命中时无需再执行安装）
+   */
+  async restoreDependencies(projectDir: string, key: string): Promise<boolean> {
+    const targetDir = path.join(projectDir, 'node_modules');
+    const markerPath = path.join(targetDir, this.markerFileName);
+
+    // 持久化工作区中已有相同依赖，无需任何操作
+    if (await fs.pathExists(markerPath)) {
+      const currentKey = (await fs.readFile(markerPath, 'utf8')).trim();
+      if (currentKey === key) {
+        await this.touch(key);
+        return true;
+      }
+    }
+
+    const entryDir = this.getDependencyEntryDir(key);
+    if (!await fs.pathExists(path.join(entryDir, this.metaFileName))) {
+      return false;
+    }
+
+    await fs.remove(targetDir);
+    await fs.copy(path.join(entryDir, 'node_modules'), targetDir);
+    await fs.writeFile(markerPath, key);
+    await this.touch(key);
+
+    return true;
+  }
+
+  /**
+   * 将安装完成的 node_modules 写入缓存，并执行容量淘汰
+   */
+  async saveDependencies(projectDir: string, key: string, packageManager: PackageManager): Promise<void> {
+    const sourceDir = path.join(projectDir, 'node_modules');
+    if (!await fs.pathExists(sourceDir)) {
+      return;
+    }
+
+    const entryDir = this.getDependencyEntryDir(key);
+    const tempDir = `${entryDir}.${process.pid}.${Date.now()}.tmp`;
+
+    try {
+      await fs.writeFile(path.join(sourceDir, this.markerFileName), key);
+
+      // 先写入临时目录再重命名，避免其他构建读到不完整的缓存
+      await fs.copy(sourceDir, path.join(tempDir, 'node_modules'));
+
+      const now = new Date().toISOString();
+      const meta: DependencyCacheMeta = {
+        key,
+        packageManager,
+        size: await this.getDirectorySize(tempDir),
+        createdAt: now,
+        lastUsedAt: now,
+      };
+      await fs.writeJson(path.join(tempDir, this.metaFileName), meta);
+
+      await fs.remove(entryDir);
+      await fs.move(tempDir, entryDir);
+    } catch (error) {
+      await fs.remove(tempDir).catch(() => undefined);
+      throw error;
+    }
+
+    await this.evict();
+  }
+
+  /**
+   * 按最近最少使用策略淘汰依赖缓存，直到总大小不超过上限
+   */
+  async evict(): Promise<number> {
+    const maxSize = this.configService.get<number>('build.cache.maxSize', 10 * 1024 * 1024 * 1024);
+    const entries = await this.listDependencyEntries();
+
+    let totalSize = entries.reduce((sum, entry) => sum + entry.size, 0);
+    let removed = 0;
+
+    const sorted = [...entries].sort(
+      (a, b) => new Date(a.lastUsedAt).getTime() - new Date(b.lastUsedAt).getTime(),
+    );
+
+    for (const entry of sorted) {
+      if (totalSize <= maxSize) {
+        break;
+      }
+      await fs.remove(this.getDependencyEntryDir(entry.key));
+      totalSize -= entry.size;
+      removed++;
+      this.logger.log(`Evicted dependency cache ${entry.key} (${entry.size} bytes)`);
+    }
+
+    return removed;
+  }
+
+  /**
+   * 获取缓存统计信息
+   */
+  async getStatistics(): Promise<{ entries: number; totalSize: number; maxSize: number }> {
+    const entries = await this.listDependencyEntries();
+    return {
+      entries: entries.length,
+      totalSize: entries.reduce((sum, entry) => sum + entry.size, 0),
+      maxSize: this.configService.get<number>('build.cache.maxSize', 10 * 1024 * 1024 * 1024),
+    };
+  }
+
+  private getCacheRoot(): string {
+    return this.configService.get<string>('build.cache.path', './tmp/cache');
+  }
+
+  private getDependencyEntryDir(key: string): string {
+    return path.resolve(this.getCacheRoot(), 'deps', key);
+  }
+
+  private async listDependencyEntries(): Promise<DependencyCacheMeta[]> {
+    const depsDir = path.resolve(this.getCacheRoot(), 'deps');
+    if (!await fs.pathExists(depsDir)) {
+      return [];
+    }
+
+    const entries: DependencyCacheMeta[] = [];
+    for (const name of await fs.readdir(depsDir)) {
+      const metaPath = path.join(depsDir, name, this.metaFileName);
+      try {
+        entries.push(await fs.readJson(metaPath));
+      } catch {
+        // 临时目录或损坏的缓存条目，忽略
+      }
+    }
+    return entries;
+  }
+
+  private async touch(key: string): Promise<void> {
+    const metaPath = path.join(this.getDependencyEntryDir(key), this.metaFileName);
+    try {
+      const meta: DependencyCacheMeta = await fs.readJson(metaPath);
+      meta.lastUsedAt = new Date().toISOString();
+      await fs.writeJson(metaPath, meta);
+    } catch {
+      // 缓存条目可能已被淘汰
+    }
+  }
+
+  private async getDirectorySize(dir: string): Promise<number> {
+    let size = 0;
+    const stack = [dir];
+
+    while (stack.length > 0) {
+      const current = stack.pop();
+      for (const name of await fs.readdir(current)) {
+        const fullPath = path.join(current, name);
+        const stat = await fs.lstat(fullPath);
+        if (stat.isDirectory()) {
+          stack.push(fullPath);
+        } else {
+          size += stat.size;
+        }
+      }
+    }
+
+    return size;
+  }
+}
@@ -0,0 +1,37 @@
+export type CommitState = 'pending' | 'running' | 'success' | 'failure' | 'canceled';
+
+/**
+ * 代码仓库信息，由小程序配置的 Git 地址解析而来
+ */
+export interface RepositoryRef {
+  origin: string; // 如 https://github.com，SSH 地址转换为 https
+  path: string; // owner/repo，GitLab 可包含多级分组
+  token: string;
+}
+
+export interface CommitStatus {
+  state: CommitState;
+  description: string;
+  targetUrl: string;
+  context: string;
+}
+
+/**
+ * 代码平台适配器
+ */
+export interface CommitStatusAdapter {
+  readonly provider: string;
+
+  /**
+   * 设置提交状态
+   */
+  setStatus(repository: RepositoryRef, sha: string, status: CommitStatus): Promise<void>;
+
+  /**
+   * 在 PR/MR 下发表评论
+   */
+  createComment(repository: RepositoryRef, pullRequestNumber: number, body: string): Promise<void>;
+}
+
+// 请求超时时间
+export const ADAPTER_TIMEOUT = 10000;
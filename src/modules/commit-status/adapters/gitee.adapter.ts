@@ -0,0 +1,45 @@
+import { Injectable } from '@nestjs/common';
+import axios from 'axios';
+import { ADAPTER_TIMEOUT, CommitStatus, CommitStatusAdapter, RepositoryRef } from './commit-status.adapter';
+
+const STATE_LABELS: Record<string, string> = {
+  success: '✅ 构建成功',
+  failure: '❌ 构建失败',
+  canceled: '⚪ 构建已取消',
+};
+
+/**
+ * Gitee 开放接口没有提交状态，最终结果以提交评论的形式回写，进行中的状态不回写
+ */
+@Injectable()
+export class GiteeStatusAdapter implements CommitStatusAdapter {
+  readonly provider = 'gitee';
+
+  async setStatus(repository: RepositoryRef, sha: string, status: CommitStatus): Promise<void> {
+    const label = STATE_LABELS[status.state];
+    if (!label) {
+      return;
+    }
+
+    await axios.post(
+      `${this.apiBase(repository)}/repos/${repository.path}/commits/${sha}/comments`,
+      {
+        access_token: repository.token,
+        body: `**${status.context}** ${label}：${status.description}\n\n[查看构建任务](${status.targetUrl})`,
+      },
+      { timeout: ADAPTER_TIMEOUT },
+    );
+  }
+
+  async createComment(repository: RepositoryRef, pullRequestNumber: number, body: string): Promise<void> {
+    await axios.post(
+      `${this.apiBase(repository)}/repos/${repository.path}/pulls/${pullRequestNumber}/comments`,
+      { access_token: repository.token, body },
+      { timeout: ADAPTER_TIMEOUT },
+    );
+  }
+
+  private apiBase(repository: RepositoryRef): string {
+    return `${repository.origin}/api/v5`;
+  }
+}
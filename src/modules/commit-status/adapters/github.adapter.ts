@@ -0,0 +1,55 @@
+import { Injectable } from '@nestjs/common';
+import axios from 'axios';
+import { ADAPTER_TIMEOUT, CommitState, CommitStatus, CommitStatusAdapter, RepositoryRef } from './commit-status.adapter';
+
+// GitHub 状态只有 pending/success/failure/error
+const GITHUB_STATES: Record<CommitState, string> = {
+  pending: 'pending',
+  running: 'pending',
+  success: 'success',
+  failure: 'failure',
+  canceled: 'error',
+};
+
+@Injectable()
+export class GithubStatusAdapter implements CommitStatusAdapter {
+  readonly provider = 'github';
+
+  async setStatus(repository: RepositoryRef, sha: string, status: CommitStatus): Promise<void> {
+    await axios.post(
+      `${this.apiBase(repository)}/repos/${repository.path}/statuses/${sha}`,
+      {
+        state: GITHUB_STATES[status.state],
+        target_url: status.targetUrl,
+        description: status.description.substring(0, 140),
+        context: status.context,
+      },
+      this.requestConfig(repository),
+    );
+  }
+
+  async createComment(repository: RepositoryRef, pullRequestNumber: number, body: string): Promise<void> {
+    await axios.post(
+      `${this.apiBase(repository)}/repos/${repository.path}/issues/${pullRequestNumber}/comments`,
+      { body },
+      this.requestConfig(repository),
+    );
+  }
+
+  /**
+   * github.com 使用 api.github.com，GitHub Enterprise 使用 /api/v3
+   */
+  private apiBase(repository: RepositoryRef): string {
+    return repository.origin === 'https://github.com' ? 'https://api.github.com' : `${repository.origin}/api/v3`;
+  }
+
+  private requestConfig(repository: RepositoryRef) {
+    return {
+      headers: {
+        Authorization: `Bearer ${repository.token}`,
+        Accept: 'application/vnd.github+json',
+      },
+      timeout: ADAPTER_TIMEOUT,
+    };
+  }
+}
@@ -0,0 +1,51 @@
+import { Injectable } from '@nestjs/common';
+import axios from 'axios';
+import { ADAPTER_TIMEOUT, CommitState, CommitStatus, CommitStatusAdapter, RepositoryRef } from './commit-status.adapter';
+
+const GITLAB_STATES: Record<CommitState, string> = {
+  pending: 'pending',
+  running: 'running',
+  success: 'success',
+  failure: 'failed',
+  canceled: 'canceled',
+};
+
+@Injectable()
+export class GitlabStatusAdapter implements CommitStatusAdapter {
+  readonly provider = 'gitlab';
+
+  async setStatus(repository: RepositoryRef, sha: string, status: CommitStatus): Promise<void> {
+    await axios.post(
+      `${this.projectUrl(repository)}/statuses/${sha}`,
+      {
+        state: GITLAB_STATES[status.state],
+        target_url: status.targetUrl,
+        description: status.description.substring(0, 255),
+        name: status.context,
+      },
+      this.requestConfig(repository),
+    );
+  }
+
+  async createComment(repository: RepositoryRef, pullRequestNumber: number, body: string): Promise<void> {
+    await axios.post(
+      `${this.projectUrl(repository)}/merge_requests/${pullRequestNumber}/notes`,
+      { body },
+      this.requestConfig(repository),
+    );
+  }
+
+  /**
+   * 项目路径需要整体编码，如 group/sub/project
+   */
+  private projectUrl(repository: RepositoryRef): string {
+    return `${repository.origin}/api/v4/projects/${encodeURIComponent(repository.path)}`;
+  }
+
+  private requestConfig(repository: RepositoryRef) {
+    return {
+      headers: { 'PRIVATE-TOKEN': repository.token },
+      timeout: ADAPTER_TIMEOUT,
+    };
+  }
+}
@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { CommitStatusService } from './commit-status.service';
+import { GithubStatusAdapter } from './adapters/github.adapter';
+import { GitlabStatusAdapter } from './adapters/gitlab.adapter';
+import { GiteeStatusAdapter } from './adapters/gitee.adapter';
+import { GitCredentialsModule } from '../git-credentials/git-credentials.module';
+
+@Module({
+  imports: [GitCredentialsModule],
+  providers: [
+    CommitStatusService,
+    GithubStatusAdapter,
+    GitlabStatusAdapter,
+    GiteeStatusAdapter,
+  ],
+  exports: [CommitStatusService],
+})
+export class CommitStatusModule {}
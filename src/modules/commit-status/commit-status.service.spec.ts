@@ -0,0 +1,179 @@
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { BuildType, TaskStatus } from '@prisma/client';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { GitCredentialsService } from '../git-credentials/git-credentials.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { GiteeStatusAdapter } from './adapters/gitee.adapter';
+import { GithubStatusAdapter } from './adapters/github.adapter';
+import { GitlabStatusAdapter } from './adapters/gitlab.adapter';
+import { CommitStatusService } from './commit-status.service';
+
+describe('CommitStatusService', () => {
+  let service: CommitStatusService;
+  let server: http.Server;
+  let origin: string;
+  let requests: { method: string; url: string; headers: http.IncomingHttpHeaders; body: any }[];
+
+  const mockPrisma = {
+    miniprogram: {
+      findUnique: jest.fn(),
+    },
+  };
+
+  const mockGitCredentialsService = {
+    getDecryptedCredential: jest.fn(async () => ({ decryptedToken: 'git-token' })),
+  };
+
+  const config: Record<string, string> = {
+    'app.webUrl': 'https://console.example.com',
+    'app.baseUrl': 'https://api.example.com',
+  };
+
+  const task = (data: Record<string, any> = {}): any => ({
+    id: 'task-1',
+    appId: 'mp-1',
+    type: BuildType.PREVIEW,
+    status: TaskStatus.PENDING,
+    version: '1.0.1',
+    commitId: 'abcdef1234567890',
+    gitProvider: 'github',
+    pullRequestNumber: null,
+    errorMessage: null,
+    ...data,
+  });
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        requests.push({ method: req.method, url: req.url, headers: req.headers, body: JSON.parse(body || '{}') });
+        res.writeHead(201, { 'Content-Type': 'application/json' });
+        res.end('{}');
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    requests = [];
+    mockPrisma.miniprogram.findUnique.mockResolvedValue({
+      id: 'mp-1',
+      userId: 'user-1',
+      config: { gitUrl: `${origin}/acme/group/demo.git`, gitCredentialId: 'cred-1' },
+    });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CommitStatusService,
+        GithubStatusAdapter,
+        GitlabStatusAdapter,
+        GiteeStatusAdapter,
+        { provide: PrismaService, useValue: mockPrisma },
+        { provide: GitCredentialsService, useValue: mockGitCredentialsService },
+        { provide: ConfigService, useValue: { get: jest.fn((key: string, defaultValue?: any) => config[key] ?? defaultValue) } },
+      ],
+    }).compile();
+
+    service = module.get<CommitStatusService>(CommitStatusService);
+  });
+
+  it('should post GitHub statuses with a link to the task', async () => {
+    await service.report(task());
+
+    expect(requests).toEqual([
+      expect.objectContaining({
+        method: 'POST',
+        url: '/api/v3/repos/acme/group/demo/statuses/abcdef1234567890',
+        body: {
+          state: 'pending',
+          target_url: 'https://console.example.com/build-tasks/task-1',
+          description: '构建排队中',
+          context: 'avocado-mini/preview',
+        },
+      }),
+    ]);
+    expect(requests[0].headers.authorization).toBe('Bearer git-token');
+  });
+
+  it('should comment the preview QR code on the pull request after a successful preview', async () => {
+    await service.report(task({ status: TaskStatus.SUCCESS, pullRequestNumber: 42 }));
+
+    expect(requests.map((request) => request.url)).toEqual([
+      '/api/v3/repos/acme/group/demo/statuses/abcdef1234567890',
+      '/api/v3/repos/acme/group/demo/issues/42/comments',
+    ]);
+    expect(requests[0].body.state).toBe('success');
+    expect(requests[1].body.body).toContain('![预览二维码](https://api.example.com/build-tasks/task-1/qrcode)');
+  });
+
+  it('should map states and encode project paths for GitLab', async () => {
+    await service.report(task({ gitProvider: 'gitlab', status: TaskStatus.FAILED, errorMessage: '编译失败' }));
+
+    expect(requests[0]).toMatchObject({
+      url: '/api/v4/projects/acme%2Fgroup%2Fdemo/statuses/abcdef1234567890',
+      headers: { 'private-token': 'git-token' },
+      body: { state: 'failed', description: '构建失败', name: 'avocado-mini/preview' },
+    });
+  });
+
+  it('should send the statuses of a task in the order they were reported', async () => {
+    // 第一次回写较慢，未排队时后发的成功状态会先到达
+    const miniprogram = await mockPrisma.miniprogram.findUnique();
+    mockPrisma.miniprogram.findUnique.mockImplementationOnce(
+      () => new Promise((resolve) => setTimeout(() => resolve(miniprogram), 50)),
+    );
+
+    const running = service.report(task({ status: TaskStatus.RUNNING }));
+    await service.report(task({ status: TaskStatus.SUCCESS }));
+    await running;
+
+    expect(requests.map((request) => request.body.description)).toEqual(['构建中', '构建成功']);
+  });
+
+  it('should only comment final results on Gitee commits', async () => {
+    await service.report(task({ gitProvider: 'gitee', status: TaskStatus.RUNNING }));
+    expect(requests).toHaveLength(0);
+
+    await service.report(task({ gitProvider: 'gitee', status: TaskStatus.SUCCESS, pullRequestNumber: 7 }));
+    expect(requests.map((request) => request.url)).toEqual([
+      '/api/v5/repos/acme/group/demo/commits/abcdef1234567890/comments',
+      '/api/v5/repos/acme/group/demo/pulls/7/comments',
+    ]);
+    expect(requests[0].body.access_token).toBe('git-token');
+  });
+
+  it('should skip tasks not triggered by a webhook or without credentials', async () => {
+    await service.report(task({ gitProvider: null }));
+    mockPrisma.miniprogram.findUnique.mockResolvedValueOnce({ id: 'mp-1', userId: 'user-1', config: { gitUrl: origin } });
+    await service.report(task());
+
+    expect(requests).toHaveLength(0);
+  });
+
+  it('should not throw when the Git host rejects the request', async () => {
+    mockPrisma.miniprogram.findUnique.mockResolvedValueOnce({
+      id: 'mp-1',
+      userId: 'user-1',
+      config: { gitUrl: 'http://127.0.0.1:1/acme/demo.git', gitCredentialId: 'cred-1' },
+    });
+
+    await expect(service.report(task())).resolves.toBeUndefined();
+  });
+
+  it('should parse HTTPS and SSH repository URLs', () => {
+    expect(service.parseRepositoryUrl('https://github.com/acme/demo.git')).toEqual({ origin: 'https://github.com', path: 'acme/demo' });
+    expect(service.parseRepositoryUrl('git@gitlab.example.com:group/sub/demo.git')).toEqual({
+      origin: 'https://gitlab.example.com',
+      path: 'group/sub/demo',
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { BuildTask, BuildType, TaskStatus } from '@prisma/client';
+import { GitCredentialsService } from '../git-credentials/git-credentials.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { CommitState, CommitStatusAdapter, RepositoryRef } from './adapters/commit-status.adapter';
+import { GiteeStatusAdapter } from './adapters/gitee.adapter';
+import { GithubStatusAdapter } from './adapters/github.adapter';
+import { GitlabStatusAdapter } from './adapters/gitlab.adapter';
+
+const TASK_STATES: Record<TaskStatus, CommitState> = {
+  [TaskStatus.PENDING]: 'pending',
+  [TaskStatus.RUNNING]: 'running',
+  [TaskStatus.SUCCESS]: 'success',
+  [TaskStatus.FAILED]: 'failure',
+  [TaskStatus.CANCELLED]: 'canceled',
+};
+
+// 状态描述对外可见，不包含错误信息等任务细节
+const TASK_DESCRIPTIONS: Record<TaskStatus, string> = {
+  [TaskStatus.PENDING]: '构建排队中',
+  [TaskStatus.RUNNING]: '构建中',
+  [TaskStatus.SUCCESS]: '构建成功',
+  [TaskStatus.FAILED]: '构建失败',
+  [TaskStatus.CANCELLED]: '构建已取消',
+};
+
+/**
+ * 构建状态回写
+ * Webhook 触发的任务把构建结果回写为提交状态，PR 预览构建成功后评论预览二维码
+ */
+@Injectable()
+export class CommitStatusService {
+  private readonly logger = new Logger(CommitStatusService.name);
+  private readonly adapters: Map<string, CommitStatusAdapter>;
+  // 各任务进行中的回写，同一任务按调用顺序依次发送，避免旧状态覆盖新状态
+  private readonly reporting = new Map<string, Promise<void>>();
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly gitCredentialsService: GitCredentialsService,
+    private readonly configService: ConfigService,
+    githubAdapter: GithubStatusAdapter,
+    gitlabAdapter: GitlabStatusAdapter,
+    giteeAdapter: GiteeStatusAdapter,
+  ) {
+    this.adapters = new Map(
+      [githubAdapter, gitlabAdapter, giteeAdapter].map((adapter) => [adapter.provider, adapter]),
+    );
+  }
+
+  /**
+   * 回写任务当前状态，失败只记录日志，不影响构建流程
+   * 同一任务的回写排队执行，调用方无需等待上一次回写完成
+   */
+  report(task: BuildTask): Promise<void> {
+    const previous = this.reporting.get(task.id) ?? Promise.resolve();
+    const current = previous.then(() => this.send(task));
+    this.reporting.set(task.id, current);
+
+    return current.finally(() => {
+      if (this.reporting.get(task.id) === current) {
+        this.reporting.delete(task.id);
+      }
+    });
+  }
+
+  private async send(task: BuildTask): Promise<void> {
+    const adapter = task.gitProvider && this.adapters.get(task.gitProvider);
+    if (!adapter || !task.commitId || task.commitId === 'unknown') {
+      return;
+    }
+
+    try {
+      const repository = await this.resolveRepository(task.appId);
+      if (!repository) {
+        return;
+      }
+
+      const targetUrl = `${this.configService.get('app.webUrl', 'http://localhost:3000')}/build-tasks/${task.id}`;
+      await adapter.setStatus(repository, task.commitId, {
+        state: TASK_STATES[task.status],
+        description: TASK_DESCRIPTIONS[task.status],
+        targetUrl,
+        context: `avocado-mini/${task.type.toLowerCase()}`,
+      });
+
+      if (task.status === TaskStatus.SUCCESS && task.type === BuildType.PREVIEW && task.pullRequestNumber) {
+        await adapter.createComment(repository, task.pullRequestNumber, this.renderPreviewComment(task, targetUrl));
+      }
+    } catch (error) {
+      this.logger.warn(`回写任务 ${task.id} 的提交状态失败: ${error.message}`);
+    }
+  }
+
+  /**
+   * 解析仓库地址并获取访问令牌，未配置凭据或没有令牌时返回 null
+   */
+  private async resolveRepository(miniprogramId: string): Promise<RepositoryRef | null> {
+    const miniprogram = await this.prisma.miniprogram.findUnique({
+      where: { id: miniprogramId },
+      include: { config: true },
+    });
+    const config = miniprogram?.config;
+    if (!config?.gitUrl || !config.gitCredentialId) {
+      return null;
+    }
+
+    const repository = this.parseRepositoryUrl(config.gitUrl);
+    if (!repository) {
+      this.logger.warn(`无法解析仓库地址: ${config.gitUrl}`);
+      return null;
+    }
+
+    const credential = await this.gitCredentialsService.getDecryptedCredential(config.gitCredentialId, miniprogram.userId);
+    const token = credential.decryptedToken || credential.decryptedPassword;
+    if (!token) {
+      return null;
+    }
+
+    return { ...repository, token };
+  }
+
+  /**
+   * 支持 https://host/owner/repo.git 和 git@host:owner/repo.git
+   */
+  parseRepositoryUrl(gitUrl: string): Omit<RepositoryRef, 'token'> | null {
+    const sshMatch = gitUrl.match(/^(?:ssh:\/\/)?[\w.-]+@([\w.-]+)(?::\d+)?[:/](.+?)(?:\.git)?\/?$/);
+    if (sshMatch) {
+      return { origin: `https://${sshMatch[1]}`, path: sshMatch[2] };
+    }
+
+    try {
+      const url = new URL(gitUrl);
+      const path = url.pathname.replace(/^\/+/, '').replace(/\.git\/?$/, '').replace(/\/+$/, '');
+      return path ? { origin: url.origin, path } : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private renderPreviewComment(task: BuildTask, targetUrl: string): string {
+    const qrcodeUrl = `${this.configService.get('app.baseUrl', 'http://localhost:3000')}/build-tasks/${task.id}/qrcode`;
+    return [
+      `### 小程序预览 ${task.version}`,
+      '',
+      `![预览二维码](${qrcodeUrl})`,
+      '',
+      `提交 \`${task.commitId.substring(0, 7)}\`，[查看构建任务](${targetUrl})`,
+    ].join('\n');
+  }
+}
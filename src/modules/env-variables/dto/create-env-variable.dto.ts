@@ -0,0 +1,31 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsBoolean, IsOptional, IsString, Matches, MaxLength } from 'class-validator';
+
+export class CreateEnvVariableDto {
+  @ApiProperty({ description: '变量名', maxLength: 100 })
+  @IsString()
+  @MaxLength(100)
+  @Matches(/^[A-Za-z_][A-Za-z0-9_]*$/, { message: '变量名只能包含字母、数字和下划线，且不能以数字开头' })
+  key: string;
+
+  @ApiProperty({ description: '变量值' })
+  @IsString()
+  value: string;
+
+  @ApiPropertyOptional({ description: '生效分支，为空时对所有分支生效', maxLength: 100 })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  branch?: string;
+
+  @ApiPropertyOptional({ description: '是否为机密变量（加密存储，日志中脱敏）', default: false })
+  @IsOptional()
+  @IsBoolean()
+  isSecret?: boolean;
+
+  @ApiPropertyOptional({ description: '描述', maxLength: 255 })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  description?: string;
+}
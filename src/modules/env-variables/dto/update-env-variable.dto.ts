@@ -0,0 +1,4 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateEnvVariableDto } from './create-env-variable.dto';
+
+export class UpdateEnvVariableDto extends PartialType(CreateEnvVariableDto) {}
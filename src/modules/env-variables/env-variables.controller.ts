@@ -0,0 +1,84 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { User, UserRole } from '@prisma/client';
+import { RequirePermissions } from '../../common/decorators/auth.decorator';
+import { CurrentUser } from '../../common/decorators/user.decorator';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { CreateEnvVariableDto } from './dto/create-env-variable.dto';
+import { UpdateEnvVariableDto } from './dto/update-env-variable.dto';
+import { EnvVariablesService } from './env-variables.service';
+
+@ApiTags('env-variables')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@Controller('miniprograms/:miniprogramId/env-variables')
+export class EnvVariablesController {
+  constructor(private readonly envVariablesService: EnvVariablesService) {}
+
+  @Post()
+  @RequirePermissions('miniprograms:update')
+  @ApiOperation({ summary: '创建构建环境变量' })
+  @ApiResponse({ status: 201, description: '环境变量创建成功' })
+  @ApiResponse({ status: 409, description: '变量已存在' })
+  create(
+    @CurrentUser() user: User,
+    @Param('miniprogramId') miniprogramId: string,
+    @Body() createEnvVariableDto: CreateEnvVariableDto,
+  ) {
+    const userId = user.role === UserRole.ADMIN ? undefined : user.id;
+    return this.envVariablesService.create(miniprogramId, createEnvVariableDto, userId);
+  }
+
+  @Get()
+  @RequirePermissions('miniprograms:read')
+  @ApiOperation({ summary: '获取构建环境变量列表（机密变量不返回真实值）' })
+  @ApiResponse({ status: 200, description: '获取环境变量列表成功' })
+  findAll(@CurrentUser() user: User, @Param('miniprogramId') miniprogramId: string) {
+    const userId = user.role === UserRole.ADMIN ? undefined : user.id;
+    return this.envVariablesService.findAll(miniprogramId, userId);
+  }
+
+  @Patch(':id')
+  @RequirePermissions('miniprograms:update')
+  @ApiOperation({ summary: '更新构建环境变量' })
+  @ApiResponse({ status: 200, description: '环境变量更新成功' })
+  @ApiResponse({ status: 404, description: '环境变量不存在' })
+  update(
+    @CurrentUser() user: User,
+    @Param('miniprogramId') miniprogramId: string,
+    @Param('id') id: string,
+    @Body() updateEnvVariableDto: UpdateEnvVariableDto,
+  ) {
+    const userId = user.role === UserRole.ADMIN ? undefined : user.id;
+    return this.envVariablesService.update(miniprogramId, id, updateEnvVariableDto, userId);
+  }
+
+  @Delete(':id')
+  @RequirePermissions('miniprograms:update')
+  @ApiOperation({ summary: '删除构建环境变量' })
+  @ApiResponse({ status: 200, description: '环境变量删除成功' })
+  @ApiResponse({ status: 404, description: '环境变量不存在' })
+  remove(
+    @CurrentUser() user: User,
+    @Param('miniprogramId') miniprogramId: string,
+    @Param('id') id: string,
+  ) {
+    const userId = user.role === UserRole.ADMIN ? undefined : user.id;
+    return this.envVariablesService.remove(miniprogramId, id, userId);
+  }
+}
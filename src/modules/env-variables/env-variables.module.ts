@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { EnvVariablesController } from './env-variables.controller';
+import { EnvVariablesService } from './env-variables.service';
+import { AuthModule } from '../auth/auth.module';
+import { MiniprogramsModule } from '../miniprograms/miniprograms.module';
+import { EncryptionService } from '../../common/services/encryption.service';
+
+@Module({
+  imports: [AuthModule, MiniprogramsModule],
+  controllers: [EnvVariablesController],
+  providers: [EnvVariablesService, EncryptionService],
+  exports: [EnvVariablesService],
+})
+export class EnvVariablesModule {}
@@ -0,0 +1,102 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { EncryptionService } from '../../common/services/encryption.service';
+import { MiniprogramsService } from '../miniprograms/miniprograms.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { EnvVariablesService } from './env-variables.service';
+
+describe('EnvVariablesService', () => {
+  let service: EnvVariablesService;
+
+  const mockPrisma = {
+    buildEnvVariable: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+  };
+
+  const mockEncryptionService = {
+    encryptSensitiveData: jest.fn((value: string) => `enc(${value})`),
+    decryptSensitiveData: jest.fn((value: string) => value.replace(/^enc\((.*)\)$/, '$1')),
+  };
+
+  const mockMiniprogramsService = {
+    findOne: jest.fn(async () => ({ id: 'mp-1' })),
+  };
+
+  const variable = (data: Record<string, any>) => ({
+    id: data.key,
+    miniprogramId: 'mp-1',
+    branch: null,
+    isSecret: false,
+    description: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...data,
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EnvVariablesService,
+        { provide: PrismaService, useValue: mockPrisma },
+        { provide: EncryptionService, useValue: mockEncryptionService },
+        { provide: MiniprogramsService, useValue: mockMiniprogramsService },
+      ],
+    }).compile();
+
+    service = module.get<EnvVariablesService>(EnvVariablesService);
+  });
+
+  describe('getBuildEnv', () => {
+    it('should let branch variables override global ones and decrypt secrets', async () => {
+      mockPrisma.buildEnvVariable.findMany.mockResolvedValue([
+        variable({ key: 'API_BASE_URL', value: 'https://dev.example.com', branch: 'develop' }),
+        variable({ key: 'API_BASE_URL', value: 'https://api.example.com' }),
+        variable({ key: 'API_TOKEN', value: 'enc(token-1)', isSecret: true }),
+      ]);
+
+      const result = await service.getBuildEnv('mp-1', 'develop');
+
+      expect(result.env).toEqual({
+        API_BASE_URL: 'https://dev.example.com',
+        API_TOKEN: 'token-1',
+      });
+      expect(result.secrets).toEqual(['token-1']);
+    });
+  });
+
+  describe('create', () => {
+    it('should encrypt secret values and never return them', async () => {
+      mockPrisma.buildEnvVariable.findFirst.mockResolvedValue(null);
+      mockPrisma.buildEnvVariable.create.mockImplementation(async ({ data }) => variable(data));
+
+      const result = await service.create('mp-1', { key: 'API_TOKEN', value: 'token-1', isSecret: true });
+
+      expect(mockPrisma.buildEnvVariable.create.mock.calls[0][0].data.value).toBe('enc(token-1)');
+      expect(result.value).toBe('******');
+    });
+
+    it('should reject duplicated keys on the same branch', async () => {
+      mockPrisma.buildEnvVariable.findFirst.mockResolvedValue(variable({ key: 'API_TOKEN', value: 'x' }));
+
+      await expect(service.create('mp-1', { key: 'API_TOKEN', value: 'y' })).rejects.toThrow('已存在');
+    });
+  });
+
+  describe('update', () => {
+    it('should decrypt the stored value when a secret becomes plain', async () => {
+      mockPrisma.buildEnvVariable.findFirst.mockResolvedValue(
+        variable({ key: 'API_TOKEN', value: 'enc(token-1)', isSecret: true }),
+      );
+      mockPrisma.buildEnvVariable.update.mockImplementation(async ({ data }) => variable({ key: 'API_TOKEN', ...data }));
+
+      const result = await service.update('mp-1', 'API_TOKEN', { isSecret: false });
+
+      expect(result.value).toBe('token-1');
+    });
+  });
+});
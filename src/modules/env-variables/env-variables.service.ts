@@ -0,0 +1,167 @@
+import { ConflictException, Injectable, NotFoundException } from '@nestjs/common';
+import { BuildEnvVariable } from '@prisma/client';
+import { EncryptionService } from '../../common/services/encryption.service';
+import { MiniprogramsService } from '../miniprograms/miniprograms.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { CreateEnvVariableDto } from './dto/create-env-variable.dto';
+import { UpdateEnvVariableDto } from './dto/update-env-variable.dto';
+
+export interface BuildEnv {
+  env: Record<string, string>;
+  secrets: string[]; // 需要在日志中脱敏的值
+}
+
+@Injectable()
+export class EnvVariablesService {
+  private readonly maskedValue = '******';
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly encryptionService: EncryptionService,
+    private readonly miniprogramsService: MiniprogramsService,
+  ) {}
+
+  /**
+   * 创建环境变量
+   */
+  async create(miniprogramId: string, createEnvVariableDto: CreateEnvVariableDto, userId?: string): Promise<BuildEnvVariable> {
+    await this.ensureMiniprogram(miniprogramId, userId);
+
+    const { key, value, branch, isSecret = false, description } = createEnvVariableDto;
+    await this.ensureUnique(miniprogramId, key, branch || null);
+
+    const variable = await this.prisma.buildEnvVariable.create({
+      data: {
+        miniprogramId,
+        key,
+        value: isSecret ? this.encryptionService.encryptSensitiveData(value) : value,
+        branch: branch || null,
+        isSecret,
+        description,
+      },
+    });
+
+    return this.sanitize(variable);
+  }
+
+  /**
+   * 查询小程序的环境变量列表
+   */
+  async findAll(miniprogramId: string, userId?: string): Promise<BuildEnvVariable[]> {
+    await this.ensureMiniprogram(miniprogramId, userId);
+
+    const variables = await this.prisma.buildEnvVariable.findMany({
+      where: { miniprogramId },
+      orderBy: [{ branch: 'asc' }, { key: 'asc' }],
+    });
+
+    return variables.map((variable) => this.sanitize(variable));
+  }
+
+  /**
+   * 更新环境变量
+   */
+  async update(
+    miniprogramId: string,
+    id: string,
+    updateEnvVariableDto: UpdateEnvVariableDto,
+    userId?: string,
+  ): Promise<BuildEnvVariable> {
+    const variable = await this.findVariable(miniprogramId, id, userId);
+    const { value, isSecret = variable.isSecret, ...rest } = updateEnvVariableDto;
+
+    const key = rest.key ?? variable.key;
+    const branch = rest.branch !== undefined ? rest.branch || null : variable.branch;
+    if (key !== variable.key || branch !== variable.branch) {
+      await this.ensureUnique(miniprogramId, key, branch);
+    }
+
+    // 机密标记变化时需要重新加密或解密已保存的值
+    const plainValue = value ?? (variable.isSecret
+      ? this.encryptionService.decryptSensitiveData(variable.value)
+      : variable.value);
+
+    const updated = await this.prisma.buildEnvVariable.update({
+      where: { id },
+      data: {
+        ...rest,
+        branch,
+        isSecret,
+        value: isSecret ? this.encryptionService.encryptSensitiveData(plainValue) : plainValue,
+      },
+    });
+
+    return this.sanitize(updated);
+  }
+
+  /**
+   * 删除环境变量
+   */
+  async remove(miniprogramId: string, id: string, userId?: string): Promise<void> {
+    await this.findVariable(miniprogramId, id, userId);
+    await this.prisma.buildEnvVariable.delete({ where: { id } });
+  }
+
+  /**
+   * 获取构建使用的环境变量（已解密）
+   * 分支专属变量覆盖同名的全局变量
+   */
+  async getBuildEnv(miniprogramId: string, branch: string): Promise<BuildEnv> {
+    const variables = await this.prisma.buildEnvVariable.findMany({
+      where: {
+        miniprogramId,
+        OR: [{ branch: null }, { branch }],
+      },
+    });
+
+    // 全局变量在前，分支变量在后覆盖
+    const sorted = [...variables].sort((a, b) => Number(a.branch !== null) - Number(b.branch !== null));
+
+    const env: Record<string, string> = {};
+    const secrets = new Set<string>();
+    for (const variable of sorted) {
+      const value = variable.isSecret
+        ? this.encryptionService.decryptSensitiveData(variable.value)
+        : variable.value;
+      env[variable.key] = value;
+      if (variable.isSecret && value) {
+        secrets.add(value);
+      }
+    }
+
+    return { env, secrets: [...secrets] };
+  }
+
+  private async ensureMiniprogram(miniprogramId: string, userId?: string): Promise<void> {
+    // 不存在或无权限时抛出 NotFoundException
+    await this.miniprogramsService.findOne(miniprogramId, userId);
+  }
+
+  private async findVariable(miniprogramId: string, id: string, userId?: string): Promise<BuildEnvVariable> {
+    await this.ensureMiniprogram(miniprogramId, userId);
+
+    const variable = await this.prisma.buildEnvVariable.findFirst({
+      where: { id, miniprogramId },
+    });
+    if (!variable) {
+      throw new NotFoundException('环境变量不存在');
+    }
+    return variable;
+  }
+
+  private async ensureUnique(miniprogramId: string, key: string, branch: string | null): Promise<void> {
+    const existing = await this.prisma.buildEnvVariable.findFirst({
+      where: { miniprogramId, key, branch },
+    });
+    if (existing) {
+      throw new ConflictException(branch ? `分支 ${branch} 已存在变量 ${key}` : `变量 ${key} 已存在`);
+    }
+  }
+
+  /**
+   * 机密变量不返回真实值
+   */
+  private sanitize(variable: BuildEnvVariable): BuildEnvVariable {
+    return variable.isSecret ? { ...variable, value: this.maskedValue } : variable;
+  }
+}
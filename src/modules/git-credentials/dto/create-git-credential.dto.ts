@@ -44,6 +44,22 @@ export class CreateGitCredentialDto {
   @IsString()
   sshKey?: string;
 
+  @ApiPropertyOptional({ 
+    description: 'SSH私钥口令（私钥有口令保护时使用）- 将自动加密存储',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  sshPassphrase?: string;
+
+  @ApiPropertyOptional({ 
+    description: 'known_hosts内容（SSH认证时使用），配置后将严格校验主机指纹',
+    example: 'gitlab.example.com ssh-ed25519 AAAAC3NzaC1lZDI1NTE5AAAA...'
+  })
+  @IsOptional()
+  @IsString()
+  knownHosts?: string;
+
   @ApiPropertyOptional({ description: '凭据描述' })
   @IsOptional()
   @IsString()
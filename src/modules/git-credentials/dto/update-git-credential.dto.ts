@@ -37,6 +37,14 @@ export class UpdateGitCredentialDto {
   @IsOptional()
   sshKey?: string;
 
+  @ApiPropertyOptional({ description: 'SSH私钥口令 - 如果提供将自动加密存储' })
+  @IsOptional()
+  sshPassphrase?: string;
+
+  @ApiPropertyOptional({ description: 'known_hosts内容' })
+  @IsOptional()
+  knownHosts?: string;
+
   @ApiPropertyOptional({ description: '凭据描述' })
   @IsOptional()
   description?: string;
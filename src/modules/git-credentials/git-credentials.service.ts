@@ -9,7 +9,7 @@ import { UpdateGitCredentialDto } from './dto/update-git-credential.dto';
 @Injectable()
 export class GitCredentialsService {
   // 定义需要加密的敏感字段
-  private readonly sensitiveFields = ['password', 'token', 'sshKey'];
+  private readonly sensitiveFields = ['password', 'token', 'sshKey', 'sshPassphrase'];
 
   constructor(
     private readonly prisma: PrismaService,
@@ -19,7 +19,7 @@ export class GitCredentialsService {
   /**
    * 创建Git认证凭据
    */
-  async create(userId: string, createGitCredentialDto: CreateGitCredentialDto): Promise<Omit<GitCredential, 'password' | 'token' | 'sshKey'>> {
+  async create(userId: string, createGitCredentialDto: CreateGitCredentialDto): Promise<Omit<GitCredential, 'password' | 'token' | 'sshKey' | 'sshPassphrase'>> {
     // 检查名称是否已存在
     const existingCredential = await this.prisma.gitCredential.findFirst({
       where: {
@@ -48,6 +48,7 @@ export class GitCredentialsService {
         name: true,
         authType: true,
         username: true,
+        knownHosts: true,
         description: true,
         status: true,
         createdAt: true,
@@ -79,7 +80,7 @@ export class GitCredentialsService {
   async findAll(
     userId: string,
     paginationDto?: PaginationDto,
-  ): Promise<PaginationResult<Omit<GitCredential, 'password' | 'token' | 'sshKey'>>> {
+  ): Promise<PaginationResult<Omit<GitCredential, 'password' | 'token' | 'sshKey' | 'sshPassphrase'>>> {
     const { page = 1, limit = 10, search, sortBy, sortOrder = 'desc' } = paginationDto || {};
     const skip = (page - 1) * limit;
 
@@ -112,6 +113,7 @@ export class GitCredentialsService {
           name: true,
           authType: true,
           username: true,
+          knownHosts: true,
           description: true,
           status: true,
           createdAt: true,
@@ -150,7 +152,7 @@ export class GitCredentialsService {
   /**
    * 根据ID查询Git认证凭据
    */
-  async findOne(id: string, userId: string): Promise<Omit<GitCredential, 'password' | 'token' | 'sshKey'>> {
+  async findOne(id: string, userId: string): Promise<Omit<GitCredential, 'password' | 'token' | 'sshKey' | 'sshPassphrase'>> {
     const credential = await this.prisma.gitCredential.findFirst({
       where: {
         id,
@@ -161,6 +163,7 @@ export class GitCredentialsService {
         name: true,
         authType: true,
         username: true,
+        knownHosts: true,
         description: true,
         status: true,
         createdAt: true,
@@ -195,7 +198,7 @@ export class GitCredentialsService {
     id: string,
     userId: string,
     updateGitCredentialDto: UpdateGitCredentialDto,
-  ): Promise<Omit<GitCredential, 'password' | 'token' | 'sshKey'>> {
+  ): Promise<Omit<GitCredential, 'password' | 'token' | 'sshKey' | 'sshPassphrase'>> {
     // 检查凭据是否存在
     await this.findOne(id, userId);
 
@@ -230,6 +233,7 @@ export class GitCredentialsService {
         name: true,
         authType: true,
         username: true,
+        knownHosts: true,
         description: true,
         status: true,
         createdAt: true,
@@ -338,7 +342,7 @@ export class GitCredentialsService {
    * 获取解密后的凭据信息（用于实际使用，如Git操作）
    * 注意：此方法返回明文敏感信息，应谨慎使用
    */
-  async getDecryptedCredential(id: string, userId: string): Promise<GitCredential & { decryptedPassword?: string; decryptedToken?: string; decryptedSshKey?: string }> {
+  async getDecryptedCredential(id: string, userId: string): Promise<GitCredential & { decryptedPassword?: string; decryptedToken?: string; decryptedSshKey?: string; decryptedSshPassphrase?: string }> {
     const credential = await this.findOneWithSensitiveFields(id, userId);
     
     // 解密敏感字段
@@ -347,6 +351,7 @@ export class GitCredentialsService {
       decryptedPassword: credential.password ? this.encryptionService.decryptSensitiveData(credential.password) : undefined,
       decryptedToken: credential.token ? this.encryptionService.decryptSensitiveData(credential.token) : undefined,
       decryptedSshKey: credential.sshKey ? this.encryptionService.decryptSensitiveData(credential.sshKey) : undefined,
+      decryptedSshPassphrase: credential.sshPassphrase ? this.encryptionService.decryptSensitiveData(credential.sshPassphrase) : undefined,
     };
 
     return decryptedCredential;
@@ -369,6 +374,9 @@ export class GitCredentialsService {
       if (credential.sshKey) {
         this.encryptionService.decryptSensitiveData(credential.sshKey);
       }
+      if (credential.sshPassphrase) {
+        this.encryptionService.decryptSensitiveData(credential.sshPassphrase);
+      }
 
       return { isValid: true };
     } catch (error) {
@@ -1,6 +1,8 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { ProjectType, QrcodeFormat, VersionType } from '@prisma/client';
-import { IsBoolean, IsEnum, IsNumber, IsOptional, IsString, IsUrl, Max, Min } from 'class-validator';
+import { ProjectType, QrcodeFormat, VersionStrategy, VersionType } from '@prisma/client';
+import { Type } from 'class-transformer';
+import { IsArray, IsBoolean, IsEnum, IsNumber, IsOptional, IsString, IsUrl, Max, Min, ValidateNested } from 'class-validator';
+import { PipelineStepDto } from './pipeline-step.dto';
 
 export class CreateMiniprogramConfigDto {
   @ApiProperty({ description: 'Git仓库地址' })
@@ -53,6 +55,18 @@ export class CreateMiniprogramConfigDto {
   @IsBoolean()
   autoBuild?: boolean;
 
+  @ApiPropertyOptional({ description: '自动构建路径过滤（glob），变更文件匹配其一才触发', type: [String], example: ['src/**', 'pages/**'] })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  includePaths?: string[];
+
+  @ApiPropertyOptional({ description: '自动构建忽略的路径（glob），变更文件全部被忽略时不触发', type: [String], example: ['docs/**'] })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  excludePaths?: string[];
+
   @ApiPropertyOptional({ description: '构建超时时间(分钟)', default: 30 })
   @IsOptional()
   @IsNumber()
@@ -60,11 +74,46 @@ export class CreateMiniprogramConfigDto {
   @Max(120)
   buildTimeout?: number;
 
+  @ApiPropertyOptional({ description: '构建流水线步骤，为空时使用默认流程', type: [PipelineStepDto] })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => PipelineStepDto)
+  pipeline?: PipelineStepDto[];
+
   @ApiPropertyOptional({ description: '版本类型', enum: VersionType, default: VersionType.MANUAL })
   @IsOptional()
   @IsEnum(VersionType)
   versionType?: VersionType;
 
+  @ApiPropertyOptional({ description: '自动版本号的递增策略', enum: VersionStrategy, default: VersionStrategy.PATCH })
+  @IsOptional()
+  @IsEnum(VersionStrategy)
+  versionStrategy?: VersionStrategy;
+
+  @ApiPropertyOptional({ description: '版本号是否追加构建号，如 1.2.3+42', default: false })
+  @IsOptional()
+  @IsBoolean()
+  versionBuildSuffix?: boolean;
+
+  @ApiPropertyOptional({ description: '构建失败时是否回滚预留的版本号', default: false })
+  @IsOptional()
+  @IsBoolean()
+  versionRollback?: boolean;
+
+  @ApiPropertyOptional({ description: '上传时是否根据上次上传以来的提交生成版本描述', default: false })
+  @IsOptional()
+  @IsBoolean()
+  changelogEnabled?: boolean;
+
+  @ApiPropertyOptional({
+    description: '版本描述模板，支持 {{changelog}} {{feat}} {{fix}} {{perf}} {{refactor}} {{other}} {{commitCount}} {{version}} {{branch}} {{description}}',
+    example: 'v{{version}}\n{{changelog}}',
+  })
+  @IsOptional()
+  @IsString()
+  changelogTemplate?: string;
+
   @ApiPropertyOptional({ description: '是否自动管理版本号', default: false })
   @IsOptional()
   @IsBoolean()
@@ -0,0 +1,93 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsNumber,
+  IsObject,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+
+/**
+ * 流水线步骤类型
+ */
+export enum PipelineStepType {
+  INSTALL = 'INSTALL',     // 安装依赖
+  NPM_BUILD = 'NPM_BUILD', // 原生小程序npm构建
+  BUILD = 'BUILD',         // 执行构建命令
+  SHELL = 'SHELL',         // 自定义命令
+  ENV = 'ENV',             // 注入环境变量
+  LINT = 'LINT',           // 代码检查
+  TEST = 'TEST',           // 单元测试
+  REPLACE = 'REPLACE',     // 文件替换
+  UPLOAD = 'UPLOAD',       // 上传（仅上传任务执行）
+  PREVIEW = 'PREVIEW',     // 预览（仅预览任务执行）
+}
+
+export class FileReplacementDto {
+  @ApiProperty({ description: '目标文件（相对项目根目录）' })
+  @IsString()
+  target: string;
+
+  @ApiPropertyOptional({ description: '用于覆盖目标文件的源文件（相对项目根目录）' })
+  @IsOptional()
+  @IsString()
+  source?: string;
+
+  @ApiPropertyOptional({ description: '要替换的文本（未指定source时使用）' })
+  @IsOptional()
+  @IsString()
+  search?: string;
+
+  @ApiPropertyOptional({ description: '替换后的文本' })
+  @IsOptional()
+  @IsString()
+  replace?: string;
+}
+
+export class PipelineStepDto {
+  @ApiProperty({ description: '步骤类型', enum: PipelineStepType })
+  @IsEnum(PipelineStepType)
+  type: PipelineStepType;
+
+  @ApiPropertyOptional({ description: '步骤名称' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  name?: string;
+
+  @ApiPropertyOptional({ description: '执行的命令（SHELL必填，LINT/TEST默认执行 npm run lint / npm test）' })
+  @IsOptional()
+  @IsString()
+  command?: string;
+
+  @ApiPropertyOptional({ description: '注入的环境变量（ENV步骤）', type: 'object', additionalProperties: { type: 'string' } })
+  @IsOptional()
+  @IsObject()
+  env?: Record<string, string>;
+
+  @ApiPropertyOptional({ description: '文件替换规则（REPLACE步骤）', type: [FileReplacementDto] })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => FileReplacementDto)
+  files?: FileReplacementDto[];
+
+  @ApiPropertyOptional({ description: '步骤超时时间(分钟)，不超过整体构建超时' })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(120)
+  timeout?: number;
+
+  @ApiPropertyOptional({ description: '失败后是否继续执行后续步骤', default: false })
+  @IsOptional()
+  @IsBoolean()
+  continueOnError?: boolean;
+}
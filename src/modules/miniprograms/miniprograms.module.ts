@@ -1,12 +1,13 @@
 import { Module } from '@nestjs/common';
 import { MiniprogramsController } from './miniprograms.controller';
 import { MiniprogramsService } from './miniprograms.service';
+import { VersionService } from './version.service';
 import { AuthModule } from '../auth/auth.module';
 
 @Module({
   imports: [AuthModule],
   controllers: [MiniprogramsController],
-  providers: [MiniprogramsService],
-  exports: [MiniprogramsService],
+  providers: [MiniprogramsService, VersionService],
+  exports: [MiniprogramsService, VersionService],
 })
 export class MiniprogramsModule {}
\ No newline at end of file
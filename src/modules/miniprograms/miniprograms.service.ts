@@ -1,14 +1,15 @@
 import { BadRequestException, ConflictException, Injectable, NotFoundException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { Miniprogram, MiniprogramConfig, MiniprogramStatus, Prisma } from '@prisma/client';
+import { BuildType, Miniprogram, MiniprogramConfig, MiniprogramStatus, Prisma } from '@prisma/client';
 import * as fs from 'fs-extra';
 import * as path from 'path';
 import { PaginationDto, PaginationResult } from '../../common/dto/pagination.dto';
 import { PrismaService } from '../prisma/prisma.service';
 import { CreateMiniprogramDto } from './dto/create-miniprogram.dto';
 import { UpdateMiniprogramDto } from './dto/update-miniprogram.dto';
+import { VersionService } from './version.service';
 
-type MiniprogramWithConfig = Miniprogram & { 
+export type MiniprogramWithConfig = Miniprogram & { 
   config?: MiniprogramConfig | null;
   gitCredential?: any;
   notificationConfigs?: any[];
@@ -19,6 +20,7 @@ export class MiniprogramsService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly configService: ConfigService,
+    private readonly versionService: VersionService,
   ) {}
 
   /**
@@ -65,6 +67,7 @@ export class MiniprogramsService {
         config: config ? {
           create: {
             ...config,
+            pipeline: config.pipeline as unknown as Prisma.InputJsonValue,
             gitCredentialId: gitCredentialId || undefined,
             notificationConfigId: notificationConfigId,
           },
@@ -331,12 +334,14 @@ export class MiniprogramsService {
           upsert: {
             create: {
               ...config,
+              pipeline: config.pipeline as unknown as Prisma.InputJsonValue,
               gitUrl: config.gitUrl || '', // 确保必填字段有值
               gitCredentialId: gitCredentialId !== undefined ? gitCredentialId : undefined,
               notificationConfigId: notificationConfigIds && notificationConfigIds.length > 0 ? notificationConfigIds[0] : undefined,
             },
             update: {
               ...config,
+              pipeline: config.pipeline as unknown as Prisma.InputJsonValue,
               gitCredentialId: gitCredentialId !== undefined ? gitCredentialId : undefined,
               notificationConfigId: notificationConfigIds && notificationConfigIds.length > 0 ? notificationConfigIds[0] : undefined,
             },
@@ -499,26 +504,13 @@ export class MiniprogramsService {
   }
 
   /**
-   * 自动递增版本号
+   * 按配置的版本策略递增版本号，手动管理版本号时保持不变
    */
   async autoIncrementVersion(id: string, userId?: string): Promise<string> {
-    const miniprogram: MiniprogramWithConfig = await this.findOne(id, userId);
-    
-    if (miniprogram.config?.versionType === 'MANUAL') {
-      return miniprogram.version;
-    }
-
-    // 简单的版本号递增逻辑 (x.y.z -> x.y.z+1)
-    const versionParts = miniprogram.version.split('.');
-    if (versionParts.length === 3) {
-      const patch = parseInt(versionParts[2], 10) + 1;
-      const newVersion = `${versionParts[0]}.${versionParts[1]}.${patch}`;
-      
-      await this.updateVersion(id, newVersion, userId);
-      return newVersion;
-    }
+    await this.findOne(id, userId);
 
-    return miniprogram.version;
+    const { version } = await this.versionService.reserve(id, { type: BuildType.UPLOAD });
+    return version;
   }
 
   /**
@@ -0,0 +1,186 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BuildType, VersionStrategy, VersionType } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { parseConventionalCommit, VersionService } from './version.service';
+
+describe('VersionService', () => {
+  let service: VersionService;
+
+  const mockPrisma = {
+    miniprogram: {
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    miniprogramConfig: {
+      findUnique: jest.fn(),
+    },
+  };
+
+  const miniprogram = (config: Record<string, any> = {}, data: Record<string, any> = {}) => ({
+    id: 'mp-1',
+    version: '1.2.3',
+    buildNumber: 41,
+    config: {
+      versionType: VersionType.AUTO,
+      versionStrategy: VersionStrategy.PATCH,
+      versionBuildSuffix: false,
+      ...config,
+    },
+    ...data,
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockPrisma.miniprogram.updateMany.mockResolvedValue({ count: 1 });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        VersionService,
+        { provide: PrismaService, useValue: mockPrisma },
+      ],
+    }).compile();
+
+    service = module.get<VersionService>(VersionService);
+  });
+
+  describe('nextVersion', () => {
+    it('should bump semantic versions and normalize short versions', () => {
+      expect(service.nextVersion('1.2.3', VersionStrategy.PATCH)).toBe('1.2.4');
+      expect(service.nextVersion('1.2.3', VersionStrategy.MINOR)).toBe('1.3.0');
+      expect(service.nextVersion('1.2.3+7', VersionStrategy.MAJOR)).toBe('2.0.0');
+      expect(service.nextVersion('1.0', VersionStrategy.PATCH)).toBe('1.0.1');
+      expect(() => service.nextVersion('beta', VersionStrategy.PATCH)).toThrow('无法递增');
+    });
+
+    it('should number date versions within the same day', () => {
+      const now = new Date(2026, 9, 19, 10);
+
+      expect(service.nextVersion('1.2.3', VersionStrategy.DATE, { now })).toBe('2026.10.19.1');
+      expect(service.nextVersion('2026.10.19.1', VersionStrategy.DATE, { now })).toBe('2026.10.19.2');
+      expect(service.nextVersion('2026.10.18.5', VersionStrategy.DATE, { now })).toBe('2026.10.19.1');
+    });
+
+    it('should infer the bump from conventional commits', () => {
+      const next = (...commitMessages: string[]) =>
+        service.nextVersion('1.2.3', VersionStrategy.CONVENTIONAL, { commitMessages });
+
+      expect(next('fix: 修复白屏', 'chore: 更新依赖')).toBe('1.2.4');
+      expect(next('fix: 修复白屏', 'feat(order): 新增订单页')).toBe('1.3.0');
+      expect(next('feat!: 移除旧接口')).toBe('2.0.0');
+      expect(next('refactor: 重写登录\n\nBREAKING CHANGE: token 格式变化')).toBe('2.0.0');
+    });
+
+    it('should derive versions from tags', () => {
+      expect(service.nextVersion('1.2.3', VersionStrategy.TAG, { tag: 'v2.0.0' })).toBe('2.0.0');
+      expect(service.nextVersion('1.2.3', VersionStrategy.TAG, { tag: 'refs/tags/V2.1.0' })).toBe('2.1.0');
+      expect(service.nextVersion('1.2.3', VersionStrategy.TAG, { tag: 'release-9' })).toBe('1.2.3');
+      expect(service.nextVersion('1.2.3', VersionStrategy.TAG)).toBe('1.2.3');
+    });
+  });
+
+  describe('reserve', () => {
+    it('should reserve the next version with a compare-and-set update', async () => {
+      mockPrisma.miniprogram.findUnique.mockResolvedValue(miniprogram({ versionBuildSuffix: true }));
+
+      const reservation = await service.reserve('mp-1', { type: BuildType.UPLOAD });
+
+      expect(reservation).toEqual({ version: '1.2.4+42', previousVersion: '1.2.3', buildNumber: 42 });
+      expect(mockPrisma.miniprogram.updateMany).toHaveBeenCalledWith({
+        where: { id: 'mp-1', version: '1.2.3', buildNumber: 41 },
+        data: { version: '1.2.4', buildNumber: 42 },
+      });
+    });
+
+    it('should retry with the latest version when a concurrent build reserved first', async () => {
+      mockPrisma.miniprogram.findUnique
+        .mockResolvedValueOnce(miniprogram())
+        .mockResolvedValueOnce(miniprogram({}, { version: '1.2.4', buildNumber: 42 }));
+      mockPrisma.miniprogram.updateMany.mockResolvedValueOnce({ count: 0 });
+
+      const reservation = await service.reserve('mp-1', { type: BuildType.UPLOAD });
+
+      expect(reservation.version).toBe('1.2.5');
+      expect(mockPrisma.miniprogram.updateMany).toHaveBeenCalledTimes(2);
+    });
+
+    it('should keep the version for previews and manual versioning', async () => {
+      mockPrisma.miniprogram.findUnique.mockResolvedValue(miniprogram());
+      await expect(service.reserve('mp-1', { type: BuildType.PREVIEW })).resolves.toEqual({ version: '1.2.3' });
+
+      mockPrisma.miniprogram.findUnique.mockResolvedValue(miniprogram({ versionType: VersionType.MANUAL }));
+      await expect(service.reserve('mp-1', { type: BuildType.UPLOAD })).resolves.toEqual({ version: '1.2.3' });
+
+      expect(mockPrisma.miniprogram.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should prefer the strategy given by a rule or schedule', async () => {
+      mockPrisma.miniprogram.findUnique.mockResolvedValue(miniprogram());
+
+      const reservation = await service.reserve('mp-1', { strategy: VersionStrategy.MINOR, type: BuildType.PREVIEW });
+
+      expect(reservation.version).toBe('1.3.0');
+    });
+
+    it('should fall back to the configured strategy for non-numeric tags', async () => {
+      mockPrisma.miniprogram.findUnique.mockResolvedValue(miniprogram());
+
+      const reservation = await service.reserve('mp-1', { strategy: VersionStrategy.TAG, tag: 'release-1' });
+
+      expect(reservation.version).toBe('1.2.4');
+      expect(mockPrisma.miniprogram.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+        data: { version: '1.2.4', buildNumber: 42 },
+      }));
+    });
+
+    it('should not store tags that exceed the version column with the build suffix', async () => {
+      mockPrisma.miniprogram.findUnique.mockResolvedValue(miniprogram({
+        versionStrategy: VersionStrategy.TAG,
+        versionBuildSuffix: true,
+      }));
+
+      await expect(service.reserve('mp-1', { strategy: VersionStrategy.TAG, tag: 'v2026.1019.123456789' }))
+        .resolves.toEqual({ version: '1.2.3+42', previousVersion: '1.2.3', buildNumber: 42 });
+      expect(mockPrisma.miniprogram.updateMany).toHaveBeenLastCalledWith(expect.objectContaining({
+        data: { version: '1.2.3', buildNumber: 42 },
+      }));
+
+      await expect(service.reserve('mp-1', { strategy: VersionStrategy.TAG, tag: 'v2026.1019.1' }))
+        .resolves.toMatchObject({ version: '2026.1019.1+42' });
+    });
+  });
+
+  describe('release', () => {
+    const reservation = { version: '1.2.4+42', previousVersion: '1.2.3', buildNumber: 42 };
+
+    it('should roll back only when configured and no newer version was reserved', async () => {
+      mockPrisma.miniprogramConfig.findUnique.mockResolvedValue({ versionRollback: true });
+
+      await expect(service.release('mp-1', reservation)).resolves.toBe(true);
+      expect(mockPrisma.miniprogram.updateMany).toHaveBeenCalledWith({
+        where: { id: 'mp-1', version: '1.2.4', buildNumber: 42 },
+        data: { version: '1.2.3' },
+      });
+
+      mockPrisma.miniprogram.updateMany.mockResolvedValueOnce({ count: 0 });
+      await expect(service.release('mp-1', reservation)).resolves.toBe(false);
+    });
+
+    it('should keep the version when rollback is not configured', async () => {
+      mockPrisma.miniprogramConfig.findUnique.mockResolvedValue({ versionRollback: false });
+
+      await expect(service.release('mp-1', reservation)).resolves.toBe(false);
+      await expect(service.release('mp-1', reservation, true)).resolves.toBe(true);
+      expect(mockPrisma.miniprogram.updateMany).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  it('should parse conventional commit titles', () => {
+    expect(parseConventionalCommit('feat(order)!: 新增订单页\n\n详情')).toEqual({
+      type: 'feat',
+      scope: 'order',
+      subject: '新增订单页',
+      breaking: true,
+    });
+    expect(parseConventionalCommit('Merge branch main')).toBeNull();
+  });
+});
@@ -0,0 +1,239 @@
+import { BadRequestException, ConflictException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { BuildType, MiniprogramConfig, VersionStrategy, VersionType } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+
+// 并发预留版本号冲突时的重试次数
+const MAX_RESERVE_ATTEMPTS = 5;
+
+// Miniprogram.version 和 BuildTask.version 的列长度
+const MAX_VERSION_LENGTH = 20;
+
+export interface ConventionalCommit {
+  type: string;
+  scope?: string;
+  subject: string;
+  breaking: boolean;
+}
+
+export interface VersionContext {
+  tag?: string;
+  commitMessages?: string[];
+  now?: Date;
+}
+
+export interface ReserveVersionOptions extends VersionContext {
+  /** 规则或计划指定的策略，不指定时使用小程序配置 */
+  strategy?: VersionStrategy;
+  type?: BuildType;
+}
+
+export interface VersionReservation {
+  version: string;
+  previousVersion?: string | null;
+  buildNumber?: number | null;
+}
+
+/**
+ * 解析约定式提交标题，如 feat(page)!: 新增页面
+ */
+export const parseConventionalCommit = (message: string): ConventionalCommit | null => {
+  const [title, ...body] = message.trim().split('\n');
+  const match = title.match(/^(\w+)(?:\(([^)]*)\))?(!)?:\s*(.+)$/);
+  if (!match) {
+    return null;
+  }
+
+  return {
+    type: match[1].toLowerCase(),
+    scope: match[2] || undefined,
+    subject: match[4].trim(),
+    breaking: !!match[3] || body.some((line) => /^BREAKING[ -]CHANGE:/.test(line.trim())),
+  };
+};
+
+/**
+ * 版本号管理
+ * 按小程序配置或规则指定的策略生成版本号，通过条件更新原子预留，构建失败时可回滚
+ */
+@Injectable()
+export class VersionService {
+  private readonly logger = new Logger(VersionService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * 预留本次构建的版本号，并发构建不会拿到相同的版本号
+   */
+  async reserve(miniprogramId: string, options: ReserveVersionOptions = {}): Promise<VersionReservation> {
+    for (let attempt = 0; attempt < MAX_RESERVE_ATTEMPTS; attempt++) {
+      const miniprogram = await this.prisma.miniprogram.findUnique({
+        where: { id: miniprogramId },
+        include: { config: true },
+      });
+      if (!miniprogram) {
+        throw new NotFoundException('小程序不存在');
+      }
+
+      const suffix = miniprogram.config?.versionBuildSuffix ?? false;
+      const buildNumber = miniprogram.buildNumber + 1;
+      let strategy = this.resolveStrategy(miniprogram.config, options);
+
+      // 标签不能作为版本号时不写入小程序，改用小程序配置的策略
+      if (strategy === VersionStrategy.TAG && options.tag
+        && !this.versionFromTag(options.tag, suffix ? buildNumber : undefined)) {
+        const fallback = this.resolveStrategy(miniprogram.config, { ...options, strategy: undefined });
+        strategy = fallback === VersionStrategy.TAG ? VersionStrategy.KEEP : fallback;
+        this.logger.warn(`标签 ${options.tag} 不是数字版本号或超过 ${MAX_VERSION_LENGTH} 个字符，改用 ${strategy} 策略`);
+      }
+
+      if (strategy === VersionStrategy.KEEP && !suffix) {
+        return { version: miniprogram.version };
+      }
+
+      const version = this.nextVersion(miniprogram.version, strategy, options);
+
+      // 版本号和构建号都未被其他构建修改时才能预留成功
+      const { count } = await this.prisma.miniprogram.updateMany({
+        where: { id: miniprogramId, version: miniprogram.version, buildNumber: miniprogram.buildNumber },
+        data: { version, buildNumber },
+      });
+      if (count) {
+        return {
+          version: suffix ? `${version}+${buildNumber}` : version,
+          previousVersion: miniprogram.version,
+          buildNumber,
+        };
+      }
+    }
+
+    throw new ConflictException('版本号预留冲突，请稍后重试');
+  }
+
+  /**
+   * 回滚预留的版本号；之后已有其他构建预留过版本号时不回滚
+   * force 为 false 时只在小程序配置了失败回滚时生效
+   */
+  async release(miniprogramId: string, reservation: VersionReservation, force = false): Promise<boolean> {
+    const { version, previousVersion, buildNumber } = reservation;
+    if (previousVersion == null || buildNumber == null) {
+      return false;
+    }
+
+    if (!force) {
+      const config = await this.prisma.miniprogramConfig.findUnique({ where: { miniprogramId } });
+      if (!config?.versionRollback) {
+        return false;
+      }
+    }
+
+    const { count } = await this.prisma.miniprogram.updateMany({
+      where: {
+        id: miniprogramId,
+        version: this.stripBuildSuffix(version, buildNumber),
+        buildNumber,
+      },
+      data: { version: previousVersion },
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * 按策略计算下一个版本号
+   */
+  nextVersion(current: string, strategy: VersionStrategy, context: VersionContext = {}): string {
+    switch (strategy) {
+      case VersionStrategy.KEEP:
+        return current;
+      case VersionStrategy.PATCH:
+      case VersionStrategy.MINOR:
+      case VersionStrategy.MAJOR:
+        return this.bump(current, strategy);
+      case VersionStrategy.CONVENTIONAL:
+        return this.bump(current, this.inferBump(context.commitMessages || []));
+      case VersionStrategy.DATE:
+        return this.nextDateVersion(current, context.now || new Date());
+      case VersionStrategy.TAG:
+        return (context.tag && this.versionFromTag(context.tag)) || current;
+    }
+  }
+
+  /**
+   * 未指定策略时：手动管理版本号或预览构建沿用当前版本号，其余使用小程序配置的策略
+   */
+  private resolveStrategy(config: MiniprogramConfig | null, options: ReserveVersionOptions): VersionStrategy {
+    if (options.strategy) {
+      return options.strategy;
+    }
+    if (config?.versionType === VersionType.MANUAL || options.type === BuildType.PREVIEW) {
+      return VersionStrategy.KEEP;
+    }
+
+    return config?.versionStrategy ?? VersionStrategy.PATCH;
+  }
+
+  /**
+   * 递增语义化版本号，不足三段的补 0，超过三段的截断
+   */
+  private bump(current: string, level: VersionStrategy): string {
+    const base = current.replace(/^v/i, '').split(/[+-]/)[0];
+    const parts = base.split('.').slice(0, 3);
+    if (parts.some((part) => !/^\d+$/.test(part))) {
+      throw new BadRequestException(`当前版本号 ${current} 不是数字版本号，无法递增`);
+    }
+
+    const [major = 0, minor = 0, patch = 0] = parts.map((part) => parseInt(part, 10));
+    switch (level) {
+      case VersionStrategy.MAJOR:
+        return `${major + 1}.0.0`;
+      case VersionStrategy.MINOR:
+        return `${major}.${minor + 1}.0`;
+      default:
+        return `${major}.${minor}.${patch + 1}`;
+    }
+  }
+
+  /**
+   * 按约定式提交推断递增级别：BREAKING CHANGE 递增主版本号，feat 递增次版本号，其余递增修订号
+   */
+  private inferBump(commitMessages: string[]): VersionStrategy {
+    const commits = commitMessages.map(parseConventionalCommit).filter(Boolean);
+    if (commits.some((commit) => commit.breaking)) {
+      return VersionStrategy.MAJOR;
+    }
+    if (commits.some((commit) => commit.type === 'feat')) {
+      return VersionStrategy.MINOR;
+    }
+
+    return VersionStrategy.PATCH;
+  }
+
+  /**
+   * 日期版本号，同一天的多次构建递增末位序号
+   */
+  private nextDateVersion(current: string, now: Date): string {
+    const date = `${now.getFullYear()}.${now.getMonth() + 1}.${now.getDate()}`;
+    const match = current.match(/^(\d+\.\d+\.\d+)\.(\d+)$/);
+    const sequence = match && match[1] === date ? parseInt(match[2], 10) + 1 : 1;
+
+    return `${date}.${sequence}`;
+  }
+
+  /**
+   * 标签 v1.2.3 取 1.2.3；不是数字版本号或加上构建号后超过列长度的标签返回 null
+   */
+  private versionFromTag(tag: string, buildNumber?: number): string | null {
+    const version = tag.replace(/^refs\/tags\//, '').replace(/^v/i, '');
+    const length = version.length + (buildNumber != null ? `+${buildNumber}`.length : 0);
+    if (!/^\d+\.\d+\.\d+$/.test(version) || length > MAX_VERSION_LENGTH) {
+      return null;
+    }
+
+    return version;
+  }
+
+  private stripBuildSuffix(version: string, buildNumber: number): string {
+    const suffix = `+${buildNumber}`;
+    return version.endsWith(suffix) ? version.slice(0, -suffix.length) : version;
+  }
+}
@@ -0,0 +1,22 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEnum, IsObject, IsOptional, IsString } from 'class-validator';
+import { BuildNotificationEvent } from '../../notifications/services/notification-template.service';
+
+export class PreviewNotificationTemplateDto {
+  @ApiProperty({ description: '通知事件', enum: BuildNotificationEvent })
+  @IsEnum(BuildNotificationEvent)
+  event: BuildNotificationEvent;
+
+  @ApiPropertyOptional({ description: '用于渲染的构建任务ID，为空时使用示例数据' })
+  @IsString()
+  @IsOptional()
+  taskId?: string;
+
+  @ApiPropertyOptional({
+    description: '待预览的模板，为空时使用已保存的模板',
+    example: { success: { title: '{{eventEmoji}} {{miniprogram.name}} {{task.version}} 已发布' } },
+  })
+  @IsObject()
+  @IsOptional()
+  template?: Record<string, any>;
+}
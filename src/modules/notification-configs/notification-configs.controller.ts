@@ -24,6 +24,7 @@ import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { PermissionsGuard } from '../auth/guards/permissions.guard';
 import { CreateNotificationConfigDto } from './dto/create-notification-config.dto';
 import { UpdateNotificationConfigDto } from './dto/update-notification-config.dto';
+import { PreviewNotificationTemplateDto } from './dto/preview-notification-template.dto';
 import { NotificationConfigsService } from './notification-configs.service';
 
 @ApiTags('notification-configs')
@@ -63,6 +64,14 @@ export class NotificationConfigsController {
     return this.notificationConfigsService.findAvailableConfigs(user.id);
   }
 
+  @Get('templates/defaults')
+  @RequirePermissions('notification-configs:read')
+  @ApiOperation({ summary: '获取各通知渠道的默认模板' })
+  @ApiResponse({ status: 200, description: '获取默认模板成功' })
+  getDefaultTemplates() {
+    return this.notificationConfigsService.getDefaultTemplates();
+  }
+
   @Get(':id')
   @RequirePermissions('notification-configs:read')
   @ApiOperation({ summary: '根据ID获取通知配置信息' })
@@ -115,4 +124,18 @@ export class NotificationConfigsController {
   testConfig(@CurrentUser() user: User, @Param('id') id: string) {
     return this.notificationConfigsService.testNotificationConfig(id, user.id);
   }
-}
\ No newline at end of file
+
+  @Post(':id/preview')
+  @RequirePermissions('notification-configs:read')
+  @ApiOperation({ summary: '预览通知模板' })
+  @ApiResponse({ status: 200, description: '渲染成功' })
+  @ApiResponse({ status: 400, description: '模板语法错误' })
+  @ApiResponse({ status: 404, description: '通知配置或构建任务不存在' })
+  previewTemplate(
+    @CurrentUser() user: User,
+    @Param('id') id: string,
+    @Body() previewDto: PreviewNotificationTemplateDto,
+  ) {
+    return this.notificationConfigsService.previewTemplate(id, user.id, previewDto);
+  }
+}
@@ -2,9 +2,10 @@ import { Module } from '@nestjs/common';
 import { NotificationConfigsController } from './notification-configs.controller';
 import { NotificationConfigsService } from './notification-configs.service';
 import { AuthModule } from '../auth/auth.module';
+import { NotificationsModule } from '../notifications/notifications.module';
 
 @Module({
-  imports: [AuthModule],
+  imports: [AuthModule, NotificationsModule],
   controllers: [NotificationConfigsController],
   providers: [NotificationConfigsService],
   exports: [NotificationConfigsService],
@@ -4,12 +4,30 @@ import { PaginationDto } from '../../common/dto/pagination.dto';
 import { PrismaService } from '../prisma/prisma.service';
 import { CreateNotificationConfigDto } from './dto/create-notification-config.dto';
 import { UpdateNotificationConfigDto } from './dto/update-notification-config.dto';
+import { WecomService } from '../notifications/services/wecom.service';
+import { FeishuService } from '../notifications/services/feishu.service';
+import { EmailService, parseEmailRecipients, QRCODE_CID } from '../notifications/services/email.service';
+import {
+  BuildNotificationEvent,
+  BuildTaskWithMiniprogram,
+  NotificationTemplateService,
+} from '../notifications/services/notification-template.service';
+import { DEFAULT_NOTIFICATION_TEMPLATES } from '../notifications/templates/default-templates';
+import { PreviewNotificationTemplateDto } from './dto/preview-notification-template.dto';
 
 @Injectable()
 export class NotificationConfigsService {
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly wecomService: WecomService,
+    private readonly emailService: EmailService,
+    private readonly feishuService: FeishuService,
+    private readonly templateService: NotificationTemplateService,
+  ) {}
 
   async create(userId: string, createNotificationConfigDto: CreateNotificationConfigDto) {
+    this.templateService.validate(createNotificationConfigDto.config?.template);
+
     // 检查配置名称是否已存在
     const existingConfig = await this.prisma.notificationConfig.findFirst({
       where: {
@@ -138,10 +156,24 @@ export class NotificationConfigsService {
       }
     }
 
+    // config 中的参数分别保存到对应字段，未传入的字段保持不变
+    const { config, enabled, ...data } = updateNotificationConfigDto;
+    this.templateService.validate(config?.template);
+
     return this.prisma.notificationConfig.update({
       where: { id },
       data: {
-        ...updateNotificationConfigDto,
+        ...data,
+        ...(enabled !== undefined && !data.status && {
+          status: enabled ? NotificationConfigStatus.ACTIVE : NotificationConfigStatus.INACTIVE,
+        }),
+        ...(config && {
+          webhook: config.webhook,
+          security: config.security,
+          emails: config.emails,
+          events: config.events,
+          template: config.template,
+        }),
         updatedAt: new Date(),
       },
     });
@@ -205,9 +237,16 @@ export class NotificationConfigsService {
     // 这里可以实现具体的通知测试逻辑
     // 根据不同的通知类型进行测试
     switch (config.type) {
-      case NotificationType.EMAIL:
-        // 测试邮件发送
+      case NotificationType.EMAIL: {
+        const emails = parseEmailRecipients(config.emails);
+        if (emails.length === 0) {
+          throw new BadRequestException('未配置邮件收件人');
+        }
+        if (!await this.emailService.testConnection(emails)) {
+          throw new BadRequestException('测试邮件发送失败，请检查SMTP配置');
+        }
         break;
+      }
       case NotificationType.SMS:
         // 测试Webhook调用
         break;
@@ -215,7 +254,20 @@ export class NotificationConfigsService {
         // 测试钉钉通知
         break;
       case NotificationType.WECHAT:
-        // 测试企业微信通知
+        if (!config.webhook) {
+          throw new BadRequestException('未配置企业微信群机器人Webhook');
+        }
+        if (!await this.wecomService.testWebhook(config.webhook)) {
+          throw new BadRequestException('企业微信通知发送失败，请检查Webhook地址');
+        }
+        break;
+      case NotificationType.FEISHU:
+        if (!config.webhook) {
+          throw new BadRequestException('未配置飞书机器人Webhook');
+        }
+        if (!await this.feishuService.testWebhook(config.webhook, config.security)) {
+          throw new BadRequestException('飞书通知发送失败，请检查Webhook地址和签名密钥');
+        }
         break;
       default:
         throw new BadRequestException('不支持的通知类型');
@@ -223,4 +275,47 @@ export class NotificationConfigsService {
 
     return { message: '通知配置测试成功' };
   }
-}
\ No newline at end of file
+
+  /**
+   * 获取各通知渠道的默认模板
+   */
+  getDefaultTemplates() {
+    return DEFAULT_NOTIFICATION_TEMPLATES;
+  }
+
+  /**
+   * 预览通知模板，指定任务时使用真实任务数据，否则使用示例数据
+   */
+  async previewTemplate(id: string, userId: string, previewDto: PreviewNotificationTemplateDto) {
+    const config = await this.findOne(id, userId);
+    const { event, taskId } = previewDto;
+    const template = previewDto.template ?? config.template;
+    this.templateService.validate(template);
+
+    let buildTask: BuildTaskWithMiniprogram;
+    if (taskId) {
+      buildTask = await this.prisma.buildTask.findFirst({
+        where: { id: taskId, userId },
+        include: { miniprogram: true },
+      });
+      if (!buildTask) {
+        throw new NotFoundException('构建任务不存在');
+      }
+    } else {
+      buildTask = this.templateService.createSampleTask(event);
+    }
+
+    const isEmail = config.type === NotificationType.EMAIL;
+    const context = this.templateService.buildContext(buildTask, event, {
+      qrcodeCid: isEmail ? QRCODE_CID : undefined,
+      logAttached: isEmail && event === BuildNotificationEvent.FAIL,
+    });
+
+    return {
+      type: config.type,
+      event,
+      sample: !taskId,
+      ...this.templateService.render(config.type, event, template, context),
+    };
+  }
+}
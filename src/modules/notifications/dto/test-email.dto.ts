@@ -0,0 +1,14 @@
+import { ArrayNotEmpty, IsArray, IsEmail } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class TestEmailDto {
+  @ApiProperty({
+    description: '测试邮件收件人',
+    example: ['dev@example.com'],
+    type: [String],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsEmail({}, { each: true })
+  to: string[];
+}
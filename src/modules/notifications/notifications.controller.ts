@@ -2,6 +2,7 @@ import { Controller, Post, Body, UseGuards } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
 import { NotificationsService } from './notifications.service';
 import { DingtalkService } from './services/dingtalk.service';
+import { EmailService } from './services/email.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { PermissionsGuard } from '../auth/guards/permissions.guard';
 import { RequirePermissions } from '../../common/decorators/auth.decorator';
@@ -9,6 +10,7 @@ import { CurrentUser } from '../../common/decorators/user.decorator';
 import { User } from '@prisma/client';
 import { SendNotificationDto } from './dto/send-notification.dto';
 import { TestDingtalkDto } from './dto/test-dingtalk.dto';
+import { TestEmailDto } from './dto/test-email.dto';
 
 @ApiTags('notifications')
 @ApiBearerAuth()
@@ -18,6 +20,7 @@ export class NotificationsController {
   constructor(
     private readonly notificationsService: NotificationsService,
     private readonly dingtalkService: DingtalkService,
+    private readonly emailService: EmailService,
   ) {}
 
   @Post('send')
@@ -50,6 +53,18 @@ export class NotificationsController {
     return { success, message: success ? '测试成功' : '测试失败' };
   }
 
+  @Post('test-email')
+  @RequirePermissions('notifications:create')
+  @ApiOperation({ summary: '测试SMTP邮件发送' })
+  @ApiResponse({ status: 200, description: '测试成功' })
+  @ApiResponse({ status: 400, description: '测试失败' })
+  async testEmail(
+    @Body() testEmailDto: TestEmailDto,
+  ) {
+    const success = await this.emailService.testConnection(testEmailDto.to);
+    return { success, message: success ? '测试成功' : '测试失败' };
+  }
+
   @Post('retry-failed')
   @RequirePermissions('notifications:update')
   @ApiOperation({ summary: '重试失败的通知' })
@@ -2,12 +2,23 @@ import { Module } from '@nestjs/common';
 import { NotificationsController } from './notifications.controller';
 import { NotificationsService } from './notifications.service';
 import { DingtalkService } from './services/dingtalk.service';
+import { WecomService } from './services/wecom.service';
+import { EmailService } from './services/email.service';
+import { FeishuService } from './services/feishu.service';
+import { NotificationTemplateService } from './services/notification-template.service';
 import { AuthModule } from '../auth/auth.module';
 
 @Module({
   imports: [AuthModule],
   controllers: [NotificationsController],
-  providers: [NotificationsService, DingtalkService],
-  exports: [NotificationsService],
+  providers: [
+    NotificationsService,
+    NotificationTemplateService,
+    DingtalkService,
+    WecomService,
+    EmailService,
+    FeishuService,
+  ],
+  exports: [NotificationsService, NotificationTemplateService, WecomService, EmailService, FeishuService],
 })
 export class NotificationsModule {}
\ No newline at end of file
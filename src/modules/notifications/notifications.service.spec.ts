@@ -0,0 +1,313 @@
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { BuildType, NotificationConfigStatus, NotificationStatus, NotificationType } from '@prisma/client';
+import { NotificationsService } from './notifications.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { DingtalkService } from './services/dingtalk.service';
+import { WecomService } from './services/wecom.service';
+import { EmailService, QRCODE_CID } from './services/email.service';
+import { FeishuService } from './services/feishu.service';
+import { BuildNotificationEvent, NotificationTemplateService } from './services/notification-template.service';
+
+describe('NotificationsService', () => {
+  let service: NotificationsService;
+
+  const mockPrisma = {
+    buildTask: {
+      findUnique: jest.fn(),
+    },
+    notificationConfig: {
+      findUnique: jest.fn(async () => ({ security: 'SEC123' })),
+    },
+    notification: {
+      create: jest.fn(async ({ data }: any) => ({ id: 'notification-1', retryCount: 0, ...data })),
+      update: jest.fn(),
+      updateMany: jest.fn(async () => ({ count: 1 })),
+      findMany: jest.fn(),
+    },
+  };
+
+  const mockDingtalkService = {
+    sendMessage: jest.fn(async () => ({ errcode: 0 })),
+  };
+
+  const mockWecomService = {
+    sendMessage: jest.fn(async () => ({ errcode: 0 })),
+  };
+
+  const mockEmailService = {
+    sendMessage: jest.fn(async () => ({ messageId: 'message-1' })),
+  };
+
+  const mockFeishuService = {
+    sendMessage: jest.fn(async () => ({ code: 0 })),
+  };
+
+  const config: Record<string, string> = {
+    'app.webUrl': 'https://console.example.com',
+    'app.baseUrl': 'https://api.example.com',
+  };
+
+  const buildTask = (notificationConfig: Record<string, any> | null, data: Record<string, any> = {}) => ({
+    id: 'task-1',
+    type: BuildType.PREVIEW,
+    version: '1.0.1',
+    branch: 'main',
+    operator: 'alice',
+    duration: 42,
+    errorMessage: null,
+    userId: 'user-1',
+    miniprogram: {
+      name: 'demo',
+      config: {
+        notificationConfig: notificationConfig && {
+          id: 'nc-1',
+          name: '研发群',
+          type: NotificationType.DINGTALK,
+          webhook: 'https://oapi.dingtalk.com/robot/send?access_token=token',
+          security: 'SEC123',
+          events: ['start', 'success', 'fail'],
+          status: NotificationConfigStatus.ACTIVE,
+          ...notificationConfig,
+        },
+      },
+    },
+    ...data,
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NotificationsService,
+        NotificationTemplateService,
+        { provide: PrismaService, useValue: mockPrisma },
+        { provide: DingtalkService, useValue: mockDingtalkService },
+        { provide: WecomService, useValue: mockWecomService },
+        { provide: EmailService, useValue: mockEmailService },
+        { provide: FeishuService, useValue: mockFeishuService },
+        { provide: ConfigService, useValue: { get: jest.fn((key: string, defaultValue?: any) => config[key] ?? defaultValue) } },
+      ],
+    }).compile();
+
+    service = module.get<NotificationsService>(NotificationsService);
+  });
+
+  describe('sendBuildNotification', () => {
+    it('should send through the linked notification config', async () => {
+      mockPrisma.buildTask.findUnique.mockResolvedValue(buildTask({}));
+
+      await service.sendBuildNotification('task-1', BuildNotificationEvent.SUCCESS);
+
+      expect(mockDingtalkService.sendMessage).toHaveBeenCalledWith(expect.objectContaining({
+        title: '✅ demo 构建成功',
+        webhook: 'https://oapi.dingtalk.com/robot/send?access_token=token',
+        secret: 'SEC123',
+        url: 'https://console.example.com/build-tasks/task-1',
+      }));
+      const [{ content }] = mockDingtalkService.sendMessage.mock.calls[0] as any[];
+      expect(content).toContain('![预览二维码](https://api.example.com/build-tasks/task-1/qrcode)');
+      expect(mockPrisma.notification.create.mock.calls[0][0].data).toMatchObject({
+        type: NotificationType.DINGTALK,
+        recipient: '研发群',
+        taskId: 'task-1',
+        userId: 'user-1',
+      });
+    });
+
+    it('should send the preview QR code as an image to WeChat Work', async () => {
+      mockPrisma.buildTask.findUnique.mockResolvedValue(buildTask({
+        type: NotificationType.WECHAT,
+        webhook: 'https://qyapi.weixin.qq.com/cgi-bin/webhook/send?key=test',
+      }));
+
+      await service.sendBuildNotification('task-1', BuildNotificationEvent.SUCCESS);
+
+      expect(mockPrisma.notification.create.mock.calls[0][0].data.config).toMatchObject({ qrcodeTaskId: 'task-1' });
+      expect(mockWecomService.sendMessage).toHaveBeenCalledWith(expect.objectContaining({
+        title: '✅ demo 构建成功',
+        webhook: 'https://qyapi.weixin.qq.com/cgi-bin/webhook/send?key=test',
+      }));
+    });
+
+    it('should send HTML email with the preview QR code inline', async () => {
+      mockPrisma.buildTask.findUnique.mockResolvedValue(buildTask({
+        type: NotificationType.EMAIL,
+        webhook: null,
+        emails: ['dev@example.com', 'qa@example.com'],
+      }, { operator: '<alice>' }));
+
+      await service.sendBuildNotification('task-1', BuildNotificationEvent.SUCCESS);
+
+      expect(mockEmailService.sendMessage).toHaveBeenCalledWith(expect.objectContaining({
+        title: '✅ demo 构建成功',
+        to: ['dev@example.com', 'qa@example.com'],
+        logTail: undefined,
+      }));
+      const [{ content }] = mockEmailService.sendMessage.mock.calls[0] as any[];
+      expect(content).toContain(`src="cid:${QRCODE_CID}"`);
+      expect(content).toContain('&lt;alice&gt;');
+      expect(content).toContain('href="https://console.example.com/build-tasks/task-1"');
+    });
+
+    it('should attach the failing log tail to email and read it again on retries', async () => {
+      mockPrisma.buildTask.findUnique.mockResolvedValue(buildTask({
+        type: NotificationType.EMAIL,
+        emails: ['dev@example.com'],
+      }, { errorMessage: '编译失败' }));
+      const logTail = jest.fn(async () => 'npm ERR! build failed');
+      service.setLogTailProvider(logTail);
+
+      await service.sendBuildNotification('task-1', BuildNotificationEvent.FAIL);
+
+      const { config } = mockPrisma.notification.create.mock.calls[0][0].data;
+      expect(config).toMatchObject({ attachLog: true });
+      expect(config).not.toHaveProperty('logTail');
+      expect(logTail).toHaveBeenCalledWith('task-1');
+      expect(mockEmailService.sendMessage).toHaveBeenCalledWith(expect.objectContaining({
+        logTail: 'npm ERR! build failed',
+        logFilename: 'task-1.log',
+        qrcode: undefined,
+      }));
+      const [{ content }] = mockEmailService.sendMessage.mock.calls[0] as any[];
+      expect(content).toContain('编译失败');
+      expect(content).not.toContain('cid:');
+    });
+
+    it('should send a Feishu card with build details', async () => {
+      mockPrisma.buildTask.findUnique.mockResolvedValue(buildTask({
+        type: NotificationType.FEISHU,
+        webhook: 'https://open.feishu.cn/open-apis/bot/v2/hook/test',
+        security: 'bot-secret',
+      }));
+      mockPrisma.notificationConfig.findUnique.mockResolvedValueOnce({ security: 'bot-secret' });
+
+      await service.sendBuildNotification('task-1', BuildNotificationEvent.SUCCESS);
+
+      const { config } = mockPrisma.notification.create.mock.calls[0][0].data;
+      expect(config).toMatchObject({
+        notificationConfigId: 'nc-1',
+        qrcodeTaskId: 'task-1',
+        cardTemplate: 'green',
+      });
+      expect(config).not.toHaveProperty('secret');
+      expect(mockPrisma.notificationConfig.findUnique).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'nc-1' },
+      }));
+      expect(mockFeishuService.sendMessage).toHaveBeenCalledWith(expect.objectContaining({
+        title: '✅ demo 构建成功',
+        webhook: 'https://open.feishu.cn/open-apis/bot/v2/hook/test',
+        secret: 'bot-secret',
+        url: 'https://console.example.com/build-tasks/task-1',
+        template: 'green',
+      }));
+      const [{ content }] = mockFeishuService.sendMessage.mock.calls[0] as any[];
+      expect(content).toBe([
+        '**构建状态**：构建成功',
+        '**构建类型**：预览',
+        '**版本**：1.0.1',
+        '**分支**：main',
+        '**操作人**：alice',
+        '**耗时**：42秒',
+      ].join('\n'));
+    });
+
+    it('should skip events the config does not subscribe to', async () => {
+      mockPrisma.buildTask.findUnique.mockResolvedValue(buildTask({}));
+
+      await service.sendBuildNotification('task-1', BuildNotificationEvent.CANCEL);
+
+      expect(mockPrisma.notification.create).not.toHaveBeenCalled();
+    });
+
+    it('should skip miniprograms without an active notification config', async () => {
+      mockPrisma.buildTask.findUnique.mockResolvedValueOnce(buildTask(null));
+      await service.sendBuildNotification('task-1', BuildNotificationEvent.START);
+
+      mockPrisma.buildTask.findUnique.mockResolvedValueOnce(buildTask({ status: NotificationConfigStatus.INACTIVE }));
+      await service.sendBuildNotification('task-1', BuildNotificationEvent.START);
+
+      expect(mockPrisma.notification.create).not.toHaveBeenCalled();
+    });
+
+    it('should record failed deliveries without throwing', async () => {
+      mockPrisma.buildTask.findUnique.mockResolvedValue(buildTask({}, { errorMessage: '编译失败' }));
+      mockDingtalkService.sendMessage.mockRejectedValueOnce(new Error('钉钉API错误: invalid token'));
+
+      await expect(service.sendBuildNotification('task-1', BuildNotificationEvent.FAIL)).resolves.toBeUndefined();
+
+      expect(mockPrisma.notification.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ status: NotificationStatus.FAILED }),
+      }));
+    });
+  });
+
+  describe('retryFailedNotifications', () => {
+    const failedNotification = {
+      id: 'notification-1',
+      type: NotificationType.FEISHU,
+      title: '❌ demo 构建失败',
+      content: '**构建状态**：构建失败',
+      recipient: '研发群',
+      status: NotificationStatus.FAILED,
+      retryCount: 1,
+      config: { webhook: 'https://open.feishu.cn/open-apis/bot/v2/hook/test', secret: 'bot-secret', cardTemplate: 'red' },
+      taskId: 'task-1',
+      userId: 'user-1',
+    };
+
+    it('should resolve the secret from the notification config when retrying', async () => {
+      mockPrisma.notification.findMany.mockResolvedValue([{
+        ...failedNotification,
+        config: { notificationConfigId: 'nc-1', webhook: 'https://open.feishu.cn/open-apis/bot/v2/hook/test' },
+      }]);
+      mockPrisma.notificationConfig.findUnique.mockResolvedValueOnce({ security: 'rotated-secret' });
+
+      await expect(service.retryFailedNotifications()).resolves.toBe(1);
+
+      expect(mockFeishuService.sendMessage).toHaveBeenCalledWith(expect.objectContaining({ secret: 'rotated-secret' }));
+    });
+
+    it('should resend failed Feishu notifications with the stored config', async () => {
+      mockPrisma.notification.findMany.mockResolvedValue([failedNotification]);
+
+      await expect(service.retryFailedNotifications()).resolves.toBe(1);
+
+      expect(mockFeishuService.sendMessage).toHaveBeenCalledWith(expect.objectContaining({
+        title: '❌ demo 构建失败',
+        secret: 'bot-secret',
+        template: 'red',
+      }));
+      expect(mockPrisma.notification.create).not.toHaveBeenCalled();
+      expect(mockPrisma.notification.update).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'notification-1' },
+        data: expect.objectContaining({ status: NotificationStatus.SENT }),
+      }));
+    });
+
+    it('should count failed retries on the original record', async () => {
+      mockPrisma.notification.findMany.mockResolvedValue([failedNotification]);
+      mockFeishuService.sendMessage.mockRejectedValueOnce(new Error('飞书API错误: invalid webhook'));
+
+      await expect(service.retryFailedNotifications()).resolves.toBe(0);
+
+      expect(mockPrisma.notification.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { status: NotificationStatus.FAILED, retryCount: { lt: 3 } },
+      }));
+      expect(mockPrisma.notification.update).toHaveBeenCalledWith({
+        where: { id: 'notification-1' },
+        data: { status: NotificationStatus.FAILED, result: { error: '飞书API错误: invalid webhook' }, retryCount: 2 },
+      });
+    });
+
+    it('should skip notifications claimed by another instance', async () => {
+      mockPrisma.notification.findMany.mockResolvedValue([failedNotification]);
+      mockPrisma.notification.updateMany.mockResolvedValueOnce({ count: 0 });
+
+      await expect(service.retryFailedNotifications()).resolves.toBe(0);
+
+      expect(mockFeishuService.sendMessage).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,7 +1,46 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { Notification, NotificationStatus, NotificationType } from '@prisma/client';
+import { Injectable, Logger, OnApplicationBootstrap, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  BuildType,
+  Notification,
+  NotificationConfig,
+  NotificationConfigStatus,
+  NotificationStatus,
+  NotificationType,
+} from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
+import { readPreviewQrcode } from '../build-tasks/services/build.service';
 import { DingtalkService } from './services/dingtalk.service';
+import { WecomService } from './services/wecom.service';
+import { FeishuService } from './services/feishu.service';
+import { EmailService, parseEmailRecipients, QRCODE_CID } from './services/email.service';
+import {
+  BuildNotificationContext,
+  BuildNotificationEvent,
+  NotificationTemplateService,
+} from './services/notification-template.service';
+import { NotificationTemplate } from './templates/default-templates';
+
+// 失败通知的最大发送次数
+const MAX_NOTIFICATION_ATTEMPTS = 3;
+
+// 飞书卡片标题颜色
+const BUILD_EVENT_CARD_TEMPLATES: Record<BuildNotificationEvent, string> = {
+  [BuildNotificationEvent.START]: 'blue',
+  [BuildNotificationEvent.SUCCESS]: 'green',
+  [BuildNotificationEvent.FAIL]: 'red',
+  [BuildNotificationEvent.CANCEL]: 'grey',
+};
+
+// 以图片发送预览二维码的通知类型（企业微信和飞书不显示外链图片，邮件以内嵌附件显示），其余类型在正文中引用二维码链接
+const QRCODE_IMAGE_TYPES: NotificationType[] = [
+  NotificationType.WECHAT,
+  NotificationType.EMAIL,
+  NotificationType.FEISHU,
+];
+
+// 读取任务日志末尾，由构建任务模块注册，避免模块循环依赖
+type LogTailProvider = (taskId: string) => Promise<string>;
 
 export interface SendNotificationOptions {
   type: NotificationType;
@@ -14,14 +53,47 @@ export interface SendNotificationOptions {
 }
 
 @Injectable()
-export class NotificationsService {
+export class NotificationsService implements OnApplicationBootstrap, OnModuleDestroy {
   private readonly logger = new Logger(NotificationsService.name);
+  private retryTimer?: NodeJS.Timeout;
+  private retrying = false;
+  private logTailProvider?: LogTailProvider;
 
   constructor(
     private readonly prisma: PrismaService,
     private readonly dingtalkService: DingtalkService,
+    private readonly wecomService: WecomService,
+    private readonly emailService: EmailService,
+    private readonly feishuService: FeishuService,
+    private readonly templateService: NotificationTemplateService,
+    private readonly configService: ConfigService,
   ) {}
 
+  onApplicationBootstrap(): void {
+    if (!this.configService.get<boolean>('notification.retry.enabled', true)) {
+      return;
+    }
+
+    const interval = this.configService.get<number>('notification.retry.interval', 60000);
+    this.retryTimer = setInterval(() => {
+      this.retryFailedNotifications().catch((error) => this.logger.error('Failed to retry notifications:', error));
+    }, interval);
+  }
+
+  onModuleDestroy(): void {
+    if (this.retryTimer) {
+      clearInterval(this.retryTimer);
+      this.retryTimer = undefined;
+    }
+  }
+
+  /**
+   * 设置日志来源，邮件通知发送时读取失败任务的日志末尾作为附件
+   */
+  setLogTailProvider(provider: LogTailProvider): void {
+    this.logTailProvider = provider;
+  }
+
   /**
    * 发送通知
    */
@@ -42,8 +114,21 @@ export class NotificationsService {
       },
     });
 
+    await this.deliver(notification);
+    return notification;
+  }
+
+  /**
+   * 按通知记录发送并更新发送状态，失败时累加重试次数后抛出
+   */
+  private async deliver(notification: Notification): Promise<void> {
+    const { type, title, content, recipient, taskId } = notification;
+    const config = notification.config as Record<string, any> | null;
+
     try {
       let result: any = {};
+      // 密钥不随通知记录保存，发送和重试时从通知配置读取
+      const secret = await this.resolveSecret(config);
 
       // 根据通知类型发送
       switch (type) {
@@ -52,17 +137,42 @@ export class NotificationsService {
             title,
             content,
             webhook: config?.webhook || recipient,
-            secret: config?.secret,
+            secret,
+            url: config?.url,
           });
           break;
 
         case NotificationType.EMAIL:
-          // TODO: 实现邮件发送
-          throw new Error('邮件通知暂未实现');
+          result = await this.emailService.sendMessage({
+            title,
+            content,
+            to: parseEmailRecipients(config?.emails),
+            qrcode: config?.qrcodeTaskId ? await readPreviewQrcode(config.qrcodeTaskId) : undefined,
+            logTail: config?.attachLog && taskId ? await this.getLogTail(taskId) : undefined,
+            logFilename: taskId ? `${taskId}.log` : undefined,
+          });
+          break;
 
         case NotificationType.WECHAT:
-          // TODO: 实现微信通知
-          throw new Error('微信通知暂未实现');
+          result = await this.wecomService.sendMessage({
+            title,
+            content,
+            webhook: config?.webhook || recipient,
+            image: config?.qrcodeTaskId ? await readPreviewQrcode(config.qrcodeTaskId) : undefined,
+          });
+          break;
+
+        case NotificationType.FEISHU:
+          result = await this.feishuService.sendMessage({
+            title,
+            content,
+            webhook: config?.webhook || recipient,
+            secret,
+            url: config?.url,
+            image: config?.qrcodeTaskId ? await readPreviewQrcode(config.qrcodeTaskId) : undefined,
+            template: config?.cardTemplate,
+          });
+          break;
 
         case NotificationType.SMS:
           // TODO: 实现短信通知
@@ -83,9 +193,6 @@ export class NotificationsService {
       });
 
       this.logger.log(`Notification ${notification.id} sent successfully`);
-
-      return notification;
-
     } catch (error) {
       this.logger.error(`Failed to send notification ${notification.id}:`, error);
 
@@ -104,24 +211,21 @@ export class NotificationsService {
   }
 
   /**
-   * 发送构建完成通知
+   * 发送构建事件通知
+   * 通过小程序关联的通知配置发送，只发送配置中订阅的事件；发送失败只记录日志，由重试任务补发
    */
-  async sendBuildCompleteNotification(
-    taskId: string,
-    success: boolean,
-    details: Record<string, any>,
-  ): Promise<void> {
+  async sendBuildNotification(taskId: string, event: BuildNotificationEvent): Promise<void> {
     try {
-      // 获取构建任务信息
       const buildTask = await this.prisma.buildTask.findUnique({
         where: { id: taskId },
         include: {
           miniprogram: {
             include: {
-              config: true,
+              config: {
+                include: { notificationConfig: true },
+              },
             },
           },
-          user: true,
         },
       });
 
@@ -130,109 +234,139 @@ export class NotificationsService {
         return;
       }
 
-      const status = success ? '成功' : '失败';
-      const emoji = success ? '✅' : '❌';
-      
-      const title = `${emoji} 小程序构建${status}`;
-      const content = this.formatBuildNotificationContent(buildTask, success, details);
-
-      // 发送钉钉通知（如果配置了）
-      const config = buildTask.miniprogram.config as any;
-      const dingtalkConfig = config?.notification?.dingtalk;
-      if (dingtalkConfig?.enabled && dingtalkConfig?.webhook) {
-        await this.sendNotification({
-          type: NotificationType.DINGTALK,
-          title,
-          content,
-          recipient: dingtalkConfig.webhook,
-          config: {
-            webhook: dingtalkConfig.webhook,
-            secret: dingtalkConfig.secret,
-          },
-          taskId,
-          userId: buildTask.userId,
-        });
+      const notificationConfig = buildTask.miniprogram.config?.notificationConfig;
+      if (!notificationConfig || notificationConfig.status !== NotificationConfigStatus.ACTIVE) {
+        return;
       }
 
-      // TODO: 发送其他类型的通知
+      const events = Array.isArray(notificationConfig.events) ? notificationConfig.events : [];
+      if (!events.includes(event)) {
+        return;
+      }
 
+      const isEmail = notificationConfig.type === NotificationType.EMAIL;
+      // 预览二维码在发送时读取，重试时重新读取
+      const sendQrcode = QRCODE_IMAGE_TYPES.includes(notificationConfig.type)
+        && event === BuildNotificationEvent.SUCCESS
+        && buildTask.type === BuildType.PREVIEW;
+      // 日志末尾在发送时读取，不保存到通知记录
+      const attachLog = isEmail && event === BuildNotificationEvent.FAIL && !!(await this.getLogTail(taskId));
+
+      const context = this.templateService.buildContext(buildTask, event, {
+        qrcodeCid: isEmail && sendQrcode ? QRCODE_CID : undefined,
+        logAttached: attachLog,
+      });
+      const { title, content } = this.renderBuildNotification(notificationConfig, event, context);
+
+      await this.sendNotification({
+        type: notificationConfig.type,
+        title,
+        content,
+        recipient: notificationConfig.name,
+        config: {
+          notificationConfigId: notificationConfig.id,
+          webhook: notificationConfig.webhook,
+          emails: notificationConfig.emails,
+          url: context.task.url,
+          qrcodeTaskId: sendQrcode ? taskId : undefined,
+          attachLog: attachLog || undefined,
+          cardTemplate: notificationConfig.type === NotificationType.FEISHU ? BUILD_EVENT_CARD_TEMPLATES[event] : undefined,
+        },
+        taskId,
+        userId: buildTask.userId,
+      });
     } catch (error) {
-      this.logger.error(`Failed to send build complete notification for task ${taskId}:`, error);
+      this.logger.error(`Failed to send ${event} notification for task ${taskId}:`, error);
     }
   }
 
   /**
-   * 格式化构建通知内容
+   * 构建通知从关联的通知配置读取签名密钥，直接发送的通知使用请求中的密钥
    */
-  private formatBuildNotificationContent(
-    buildTask: any,
-    success: boolean,
-    details: Record<string, any>,
-  ): string {
-    const { miniprogram, type, version, branch, operator, duration } = buildTask;
-    const buildType = type === 'UPLOAD' ? '上传' : '预览';
-    
-    let content = `### 📦 ${miniprogram.name} 构建${success ? '成功' : '失败'}\n\n`;
-    content += `- **构建类型**: ${buildType}\n`;
-    content += `- **分支**: ${branch}\n`;
-    content += `- **版本**: ${version}\n`;
-    content += `- **操作人**: ${operator}\n`;
-    
-    if (duration) {
-      content += `- **耗时**: ${duration}秒\n`;
+  private async resolveSecret(config: Record<string, any> | null): Promise<string | undefined> {
+    if (!config?.notificationConfigId) {
+      return config?.secret;
     }
 
-    if (success) {
-      if (details.qrcodeUrl) {
-        content += `\n![二维码](${details.qrcodeUrl})\n`;
-      }
-      
-      if (details.packageSize) {
-        content += `\n**包大小信息**:\n`;
-        content += `\`\`\`json\n${JSON.stringify(details.packageSize, null, 2)}\n\`\`\`\n`;
-      }
-    } else {
-      if (details.error) {
-        content += `\n**错误信息**: ${details.error}\n`;
-      }
+    const notificationConfig = await this.prisma.notificationConfig.findUnique({
+      where: { id: config.notificationConfigId },
+      select: { security: true },
+    });
+    return notificationConfig?.security || undefined;
+  }
+
+  private async getLogTail(taskId: string): Promise<string | undefined> {
+    try {
+      return (await this.logTailProvider?.(taskId)) || undefined;
+    } catch (error) {
+      this.logger.warn(`Failed to read log tail of task ${taskId}: ${error.message}`);
+      return undefined;
     }
+  }
 
-    return content;
+  /**
+   * 按通知配置的模板渲染，配置的模板有误时回退到渠道默认模板
+   */
+  private renderBuildNotification(
+    notificationConfig: NotificationConfig,
+    event: BuildNotificationEvent,
+    context: BuildNotificationContext,
+  ): NotificationTemplate {
+    try {
+      return this.templateService.render(notificationConfig.type, event, notificationConfig.template, context);
+    } catch (error) {
+      this.logger.warn(`Invalid template in notification config ${notificationConfig.id}, using default: ${error.message}`);
+      return this.templateService.render(notificationConfig.type, event, null, context);
+    }
   }
 
   /**
-   * 重试失败的通知
+   * 重试失败的通知，在原记录上更新发送状态，发送次数达到上限后不再重试
+   * 由定时任务调用，也可通过接口手动触发
    */
   async retryFailedNotifications(): Promise<number> {
-    const failedNotifications = await this.prisma.notification.findMany({
-      where: {
-        status: NotificationStatus.FAILED,
-        retryCount: { lt: 3 },
-      },
-      take: 10, // 每次最多重试10个
-    });
+    if (this.retrying) {
+      return 0;
+    }
 
-    let retryCount = 0;
-
-    for (const notification of failedNotifications) {
-      try {
-        await this.sendNotification({
-          type: notification.type,
-          title: notification.title,
-          content: notification.content,
-          recipient: notification.recipient,
-          config: notification.config as Record<string, any>,
-          taskId: notification.taskId,
-          userId: notification.userId,
+    this.retrying = true;
+    try {
+      const failedNotifications = await this.prisma.notification.findMany({
+        where: {
+          status: NotificationStatus.FAILED,
+          retryCount: { lt: MAX_NOTIFICATION_ATTEMPTS },
+        },
+        orderBy: { createdAt: 'asc' },
+        take: 10, // 每次最多重试10个
+      });
+
+      let retryCount = 0;
+
+      for (const notification of failedNotifications) {
+        // 先把状态改回待发送，多实例同时重试时只有一个实例能取得该记录
+        const { count } = await this.prisma.notification.updateMany({
+          where: { id: notification.id, status: NotificationStatus.FAILED, retryCount: notification.retryCount },
+          data: { status: NotificationStatus.PENDING },
         });
-        retryCount++;
-      } catch (error) {
-        this.logger.error(`Failed to retry notification ${notification.id}:`, error);
+        if (count === 0) {
+          continue;
+        }
+
+        try {
+          await this.deliver(notification);
+          retryCount++;
+        } catch (error) {
+          this.logger.error(`Failed to retry notification ${notification.id}:`, error);
+        }
       }
-    }
 
-    this.logger.log(`Retried ${retryCount} failed notifications`);
-    return retryCount;
+      if (failedNotifications.length > 0) {
+        this.logger.log(`Retried ${retryCount} failed notifications`);
+      }
+      return retryCount;
+    } finally {
+      this.retrying = false;
+    }
   }
 
   /**
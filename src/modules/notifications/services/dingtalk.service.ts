@@ -8,6 +8,7 @@ export interface DingtalkMessageOptions {
   content: string;
   webhook: string;
   secret?: string;
+  url?: string; // 「查看详情」按钮的跳转地址
 }
 
 @Injectable()
@@ -20,7 +21,7 @@ export class DingtalkService {
    * 发送钉钉消息
    */
   async sendMessage(options: DingtalkMessageOptions): Promise<any> {
-    const { title, content, webhook, secret } = options;
+    const { title, content, webhook, secret, url: detailUrl } = options;
 
     try {
       // 构建请求URL
@@ -40,7 +41,7 @@ export class DingtalkService {
           text: content,
           btnOrientation: '0',
           singleTitle: '查看详情',
-          singleURL: this.configService.get('app.baseUrl', 'http://localhost:3000'),
+          singleURL: detailUrl || this.configService.get('app.baseUrl', 'http://localhost:3000'),
         },
       };
 
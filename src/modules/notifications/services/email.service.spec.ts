@@ -0,0 +1,125 @@
+import { ConfigService } from '@nestjs/config';
+import { AddressInfo } from 'net';
+import { SMTPServer } from 'smtp-server';
+import { EmailService, parseEmailRecipients, QRCODE_CID } from './email.service';
+
+interface ReceivedMail {
+  from: string;
+  to: string[];
+  raw: string;
+}
+
+describe('EmailService', () => {
+  let server: SMTPServer;
+  let port: number;
+  let mails: ReceivedMail[];
+  let logins: string[];
+
+  const createService = (overrides: Record<string, any> = {}) => {
+    const config: Record<string, any> = {
+      'mail.host': '127.0.0.1',
+      'mail.port': port,
+      'mail.secure': false,
+      'mail.requireTls': true,
+      'mail.rejectUnauthorized': false, // 本地测试服务器使用自签名证书
+      'mail.user': 'notify',
+      'mail.pass': 'secret',
+      'mail.from': 'Avocado Mini <notify@example.com>',
+      ...overrides,
+    };
+    return new EmailService({ get: (key: string, defaultValue?: any) => config[key] ?? defaultValue } as ConfigService);
+  };
+
+  beforeAll(async () => {
+    server = new SMTPServer({
+      authMethods: ['PLAIN', 'LOGIN'],
+      logger: false,
+      onAuth: (auth, _session, callback) => {
+        logins.push(auth.username);
+        if (auth.username !== 'notify' || auth.password !== 'secret') {
+          return callback(new Error('Invalid username or password'));
+        }
+        callback(null, { user: auth.username });
+      },
+      onData: (stream, session, callback) => {
+        let raw = '';
+        stream.on('data', (chunk) => (raw += chunk));
+        stream.on('end', () => {
+          mails.push({
+            from: (session.envelope.mailFrom as any).address,
+            to: session.envelope.rcptTo.map(({ address }) => address),
+            raw,
+          });
+          callback();
+        });
+      },
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    port = (server.server.address() as AddressInfo).port;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    mails = [];
+    logins = [];
+  });
+
+  it('should send authenticated mail over STARTTLS', async () => {
+    const result = await createService().sendMessage({
+      title: '✅ demo 构建成功',
+      content: '<p>构建成功</p>',
+      to: ['dev@example.com', 'qa@example.com'],
+    });
+
+    expect(result.accepted).toEqual(['dev@example.com', 'qa@example.com']);
+    expect(logins).toEqual(['notify']);
+    expect(mails).toHaveLength(1);
+    expect(mails[0].from).toBe('notify@example.com');
+    expect(mails[0].to).toEqual(['dev@example.com', 'qa@example.com']);
+    expect(mails[0].raw).toContain('From: Avocado Mini <notify@example.com>');
+    expect(mails[0].raw).toContain('Content-Type: text/html');
+  });
+
+  it('should embed the QR code inline and attach the log tail', async () => {
+    const qrcode = Buffer.from('fake-jpeg-content');
+
+    await createService().sendMessage({
+      title: '构建通知',
+      content: `<img src="cid:${QRCODE_CID}">`,
+      to: ['dev@example.com'],
+      qrcode,
+      logTail: 'npm ERR! build failed',
+      logFilename: 'task-1.log',
+    });
+
+    const { raw } = mails[0];
+    expect(raw).toContain('Content-Type: multipart/related');
+    expect(raw).toContain(`Content-ID: <${QRCODE_CID}>`);
+    expect(raw).toContain(qrcode.toString('base64'));
+    expect(raw).toMatch(/Content-Disposition: attachment; filename=task-1\.log/);
+    expect(raw).toContain(Buffer.from('npm ERR! build failed').toString('base64'));
+  });
+
+  it('should reject invalid credentials and report failed tests', async () => {
+    const service = createService({ 'mail.pass': 'wrong' });
+
+    await expect(service.sendMessage({ title: 'test', content: '', to: ['dev@example.com'] })).rejects.toThrow();
+    await expect(service.testConnection(['dev@example.com'])).resolves.toBe(false);
+    expect(mails).toHaveLength(0);
+  });
+
+  it('should require an SMTP host and recipients', async () => {
+    await expect(createService({ 'mail.host': undefined }).sendMessage({ title: 'test', content: '', to: ['dev@example.com'] }))
+      .rejects.toThrow('未配置SMTP服务器');
+    await expect(createService().sendMessage({ title: 'test', content: '', to: [] })).rejects.toThrow('未配置邮件收件人');
+  });
+
+  it('should parse recipients from arrays or separated strings', () => {
+    expect(parseEmailRecipients(['dev@example.com', ' qa@example.com ', 'dev@example.com'])).toEqual(['dev@example.com', 'qa@example.com']);
+    expect(parseEmailRecipients('dev@example.com; qa@example.com,')).toEqual(['dev@example.com', 'qa@example.com']);
+    expect(parseEmailRecipients(null)).toEqual([]);
+  });
+});
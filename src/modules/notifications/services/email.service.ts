@@ -0,0 +1,131 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as nodemailer from 'nodemailer';
+import { Transporter } from 'nodemailer';
+import { Attachment } from 'nodemailer/lib/mailer';
+
+// 内嵌预览二维码的 Content-ID，邮件正文中以 cid: 引用
+export const QRCODE_CID = 'preview-qrcode@avocado-mini';
+
+export interface EmailMessageOptions {
+  title: string;
+  content: string; // HTML 正文
+  to: string[];
+  qrcode?: Buffer | null;
+  logTail?: string; // 失败日志末尾，以附件发送
+  logFilename?: string;
+}
+
+/**
+ * 解析通知配置中的收件人，支持数组或以逗号、分号分隔的字符串
+ */
+export function parseEmailRecipients(emails: unknown): string[] {
+  const values = Array.isArray(emails) ? emails : typeof emails === 'string' ? emails.split(/[,;]/) : [];
+  return [...new Set(
+    values
+      .filter((email): email is string => typeof email === 'string')
+      .map((email) => email.trim())
+      .filter(Boolean),
+  )];
+}
+
+/**
+ * SMTP 邮件通知
+ */
+@Injectable()
+export class EmailService {
+  private readonly logger = new Logger(EmailService.name);
+  private transporter?: Transporter;
+
+  constructor(private readonly configService: ConfigService) {}
+
+  /**
+   * 发送 HTML 邮件，预览二维码内嵌在正文中，日志作为文本附件
+   */
+  async sendMessage(options: EmailMessageOptions): Promise<any> {
+    const { title, content, to, qrcode, logTail, logFilename = 'build.log' } = options;
+
+    if (to.length === 0) {
+      throw new Error('未配置邮件收件人');
+    }
+
+    const attachments: Attachment[] = [];
+    if (qrcode) {
+      attachments.push({
+        filename: 'qrcode.jpg',
+        content: qrcode,
+        cid: QRCODE_CID,
+      });
+    }
+    if (logTail) {
+      attachments.push({
+        filename: logFilename,
+        content: logTail,
+        contentType: 'text/plain; charset=utf-8',
+      });
+    }
+
+    try {
+      const info = await this.getTransporter().sendMail({
+        from: this.configService.get<string>('mail.from'),
+        to,
+        subject: title,
+        html: content,
+        attachments,
+      });
+
+      this.logger.log(`Email ${info.messageId} sent to ${info.accepted.length} recipients`);
+      return {
+        messageId: info.messageId,
+        accepted: info.accepted,
+        rejected: info.rejected,
+      };
+    } catch (error) {
+      this.logger.error('Failed to send email:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * 验证 SMTP 连接并发送测试邮件
+   */
+  async testConnection(to: string[]): Promise<boolean> {
+    try {
+      await this.getTransporter().verify();
+      await this.sendMessage({
+        title: '测试邮件',
+        content: '<p>这是一条测试消息</p>',
+        to,
+      });
+      return true;
+    } catch (error) {
+      this.logger.error('Email test failed:', error);
+      return false;
+    }
+  }
+
+  private getTransporter(): Transporter {
+    if (this.transporter) {
+      return this.transporter;
+    }
+
+    const host = this.configService.get<string>('mail.host');
+    if (!host) {
+      throw new Error('未配置SMTP服务器');
+    }
+
+    const user = this.configService.get<string>('mail.user');
+    this.transporter = nodemailer.createTransport({
+      host,
+      port: this.configService.get<number>('mail.port', 465),
+      secure: this.configService.get<boolean>('mail.secure', true),
+      requireTLS: this.configService.get<boolean>('mail.requireTls', false),
+      auth: user ? { user, pass: this.configService.get<string>('mail.pass') } : undefined,
+      tls: {
+        rejectUnauthorized: this.configService.get<boolean>('mail.rejectUnauthorized', true),
+      },
+    });
+
+    return this.transporter;
+  }
+}
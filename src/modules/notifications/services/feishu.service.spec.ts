@@ -0,0 +1,140 @@
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { FeishuService } from './feishu.service';
+
+interface ReceivedRequest {
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+describe('FeishuService', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let webhook: string;
+  let response: Record<string, any>;
+  let requests: ReceivedRequest[];
+
+  const createService = (overrides: Record<string, any> = {}) => {
+    const config: Record<string, any> = {
+      'feishu.apiUrl': baseUrl,
+      'feishu.appId': 'cli_test',
+      'feishu.appSecret': 'app-secret',
+      ...overrides,
+    };
+    return new FeishuService({ get: (key: string, defaultValue?: any) => config[key] ?? defaultValue } as ConfigService);
+  };
+
+  const webhookMessages = () => requests
+    .filter(({ url }) => url.startsWith('/open-apis/bot/'))
+    .map(({ body }) => JSON.parse(body));
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        requests.push({ url: req.url, headers: req.headers, body });
+
+        let data: Record<string, any> = response;
+        if (req.url === '/open-apis/auth/v3/tenant_access_token/internal') {
+          data = { code: 0, msg: 'ok', tenant_access_token: 't-token', expire: 7200 };
+        } else if (req.url === '/open-apis/im/v1/images') {
+          data = { code: 0, msg: 'success', data: { image_key: 'img_v2_qrcode' } };
+        }
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(data));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    webhook = `${baseUrl}/open-apis/bot/v2/hook/test`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    response = { code: 0, msg: 'success', data: {} };
+    requests = [];
+  });
+
+  it('should sign messages with the timestamp and secret', async () => {
+    const service = createService();
+
+    await service.sendTextMessage(webhook, '构建完成', 'bot-secret');
+
+    const [message] = webhookMessages();
+    expect(message).toMatchObject({ msg_type: 'text', content: { text: '构建完成' } });
+    expect(Math.abs(Number(message.timestamp) - Date.now() / 1000)).toBeLessThan(5);
+    expect(message.sign).toBe(
+      crypto.createHmac('sha256', `${message.timestamp}\nbot-secret`).digest('base64'),
+    );
+  });
+
+  it('should send an interactive card with the uploaded QR code and a task button', async () => {
+    const service = createService();
+
+    await service.sendMessage({
+      title: '✅ demo 构建成功',
+      content: '**版本**：1.0.1',
+      webhook,
+      url: 'https://console.example.com/build-tasks/task-1',
+      image: Buffer.from('fake-jpeg-content'),
+      template: 'green',
+    });
+
+    const upload = requests.find(({ url }) => url === '/open-apis/im/v1/images');
+    expect(upload.headers.authorization).toBe('Bearer t-token');
+    expect(upload.headers['content-type']).toMatch(/^multipart\/form-data/);
+    expect(upload.body).toContain('name="image_type"');
+    expect(upload.body).toContain('fake-jpeg-content');
+
+    const [message] = webhookMessages();
+    expect(message.msg_type).toBe('interactive');
+    expect(message.sign).toBeUndefined();
+    expect(message.card.header).toEqual({ title: { tag: 'plain_text', content: '✅ demo 构建成功' }, template: 'green' });
+    expect(message.card.elements).toEqual([
+      { tag: 'div', text: { tag: 'lark_md', content: '**版本**：1.0.1' } },
+      { tag: 'img', img_key: 'img_v2_qrcode', alt: { tag: 'plain_text', content: '预览二维码' } },
+      {
+        tag: 'action',
+        actions: [{
+          tag: 'button',
+          text: { tag: 'plain_text', content: '查看详情' },
+          type: 'primary',
+          url: 'https://console.example.com/build-tasks/task-1',
+        }],
+      },
+    ]);
+  });
+
+  it('should reuse the tenant access token between uploads', async () => {
+    const service = createService();
+
+    await service.uploadImage(Buffer.from('a'));
+    await service.uploadImage(Buffer.from('b'));
+
+    expect(requests.filter(({ url }) => url.includes('tenant_access_token'))).toHaveLength(1);
+  });
+
+  it('should skip the image without app credentials', async () => {
+    const service = createService({ 'feishu.appId': undefined });
+
+    await service.sendMessage({ title: '构建成功', content: '', webhook, image: Buffer.from('qrcode') });
+
+    expect(requests.map(({ url }) => url)).toEqual(['/open-apis/bot/v2/hook/test']);
+    expect(webhookMessages()[0].card.elements.map((element) => element.tag)).toEqual(['div']);
+  });
+
+  it('should reject API errors and report failed webhook tests', async () => {
+    const service = createService();
+    response = { code: 19021, msg: 'sign match fail or timestamp is not within one hour from current time' };
+
+    await expect(service.sendTextMessage(webhook, 'hello', 'wrong')).rejects.toThrow('飞书API错误: sign match fail');
+    await expect(service.testWebhook(webhook, 'wrong')).resolves.toBe(false);
+  });
+});
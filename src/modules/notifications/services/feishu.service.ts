@@ -0,0 +1,210 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+import * as crypto from 'crypto';
+
+// 飞书消息图片上限
+const IMAGE_MAX_BYTES = 10 * 1024 * 1024;
+
+// tenant_access_token 提前刷新的时间（毫秒）
+const TOKEN_REFRESH_MARGIN = 5 * 60 * 1000;
+
+export interface FeishuMessageOptions {
+  title: string;
+  content: string; // lark_md 格式的正文
+  webhook: string;
+  secret?: string;
+  url?: string; // 「查看详情」按钮的跳转地址
+  image?: Buffer | null; // 卡片中显示的图片，如预览二维码
+  template?: string; // 卡片标题颜色，如 blue、green、red、grey
+}
+
+/**
+ * 飞书自定义机器人
+ * 机器人只能发送消息，图片需通过自建应用上传后以 image_key 引用
+ */
+@Injectable()
+export class FeishuService {
+  private readonly logger = new Logger(FeishuService.name);
+  private tenantToken?: { token: string; expiresAt: number };
+
+  constructor(private readonly configService: ConfigService) {}
+
+  /**
+   * 发送交互式卡片消息，未配置应用凭证时不上传图片
+   */
+  async sendMessage(options: FeishuMessageOptions): Promise<any> {
+    const { title, content, webhook, secret, url, image, template = 'blue' } = options;
+
+    const elements: Record<string, any>[] = [
+      { tag: 'div', text: { tag: 'lark_md', content } },
+    ];
+
+    if (image) {
+      if (this.canUploadImage()) {
+        elements.push({
+          tag: 'img',
+          img_key: await this.uploadImage(image),
+          alt: { tag: 'plain_text', content: '预览二维码' },
+        });
+      } else {
+        this.logger.warn('Feishu app credentials not configured, skipping image');
+      }
+    }
+
+    if (url) {
+      elements.push({
+        tag: 'action',
+        actions: [{
+          tag: 'button',
+          text: { tag: 'plain_text', content: '查看详情' },
+          type: 'primary',
+          url,
+        }],
+      });
+    }
+
+    const result = await this.sendCardMessage(webhook, {
+      config: { wide_screen_mode: true },
+      header: {
+        title: { tag: 'plain_text', content: title },
+        template,
+      },
+      elements,
+    }, secret);
+
+    this.logger.log('Feishu message sent successfully');
+    return result;
+  }
+
+  /**
+   * 发送文本消息
+   */
+  async sendTextMessage(webhook: string, text: string, secret?: string): Promise<any> {
+    return this.send(webhook, {
+      msg_type: 'text',
+      content: { text },
+    }, secret);
+  }
+
+  /**
+   * 发送交互式卡片消息
+   */
+  async sendCardMessage(webhook: string, card: Record<string, any>, secret?: string): Promise<any> {
+    return this.send(webhook, {
+      msg_type: 'interactive',
+      card,
+    }, secret);
+  }
+
+  /**
+   * 通过自建应用上传消息图片，返回 image_key
+   */
+  async uploadImage(image: Buffer): Promise<string> {
+    if (image.length > IMAGE_MAX_BYTES) {
+      throw new Error('飞书图片不能超过10MB');
+    }
+
+    const form = new FormData();
+    form.append('image_type', 'message');
+    form.append('image', new Blob([new Uint8Array(image)]), 'image.jpg');
+
+    const response = await axios.post(`${this.getApiUrl()}/open-apis/im/v1/images`, form, {
+      headers: {
+        Authorization: `Bearer ${await this.getTenantAccessToken()}`,
+      },
+      timeout: 30000,
+    });
+
+    if (response.data.code !== 0) {
+      throw new Error(`飞书图片上传失败: ${response.data.msg}`);
+    }
+
+    return response.data.data.image_key;
+  }
+
+  /**
+   * 测试机器人 Webhook 连接
+   */
+  async testWebhook(webhook: string, secret?: string): Promise<boolean> {
+    try {
+      await this.sendTextMessage(webhook, '这是一条测试消息', secret);
+      return true;
+    } catch (error) {
+      this.logger.error('Feishu webhook test failed:', error);
+      return false;
+    }
+  }
+
+  /**
+   * 生成签名，以「时间戳 + 换行 + 密钥」为 HMAC-SHA256 的密钥对空串签名
+   */
+  generateSign(timestamp: number, secret: string): string {
+    return crypto
+      .createHmac('sha256', `${timestamp}\n${secret}`)
+      .digest('base64');
+  }
+
+  private async send(webhook: string, message: Record<string, any>, secret?: string): Promise<any> {
+    try {
+      const body = { ...message };
+      if (secret) {
+        // 飞书签名使用秒级时间戳
+        const timestamp = Math.floor(Date.now() / 1000);
+        Object.assign(body, {
+          timestamp: String(timestamp),
+          sign: this.generateSign(timestamp, secret),
+        });
+      }
+
+      const response = await axios.post(webhook, body, {
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        timeout: 10000,
+      });
+
+      // 旧版接口返回 StatusCode
+      const code = response.data.code ?? response.data.StatusCode;
+      if (code !== 0) {
+        throw new Error(`飞书API错误: ${response.data.msg || response.data.StatusMessage}`);
+      }
+
+      return response.data;
+    } catch (error) {
+      this.logger.error(`Failed to send feishu ${message.msg_type} message:`, error);
+      throw error;
+    }
+  }
+
+  private canUploadImage(): boolean {
+    return !!(this.configService.get('feishu.appId') && this.configService.get('feishu.appSecret'));
+  }
+
+  private getApiUrl(): string {
+    return this.configService.get('feishu.apiUrl', 'https://open.feishu.cn').replace(/\/+$/, '');
+  }
+
+  private async getTenantAccessToken(): Promise<string> {
+    if (this.tenantToken && this.tenantToken.expiresAt > Date.now()) {
+      return this.tenantToken.token;
+    }
+
+    const response = await axios.post(`${this.getApiUrl()}/open-apis/auth/v3/tenant_access_token/internal`, {
+      app_id: this.configService.get('feishu.appId'),
+      app_secret: this.configService.get('feishu.appSecret'),
+    }, {
+      timeout: 10000,
+    });
+
+    if (response.data.code !== 0) {
+      throw new Error(`飞书应用鉴权失败: ${response.data.msg}`);
+    }
+
+    this.tenantToken = {
+      token: response.data.tenant_access_token,
+      expiresAt: Date.now() + response.data.expire * 1000 - TOKEN_REFRESH_MARGIN,
+    };
+    return this.tenantToken.token;
+  }
+}
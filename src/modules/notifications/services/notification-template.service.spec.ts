@@ -0,0 +1,110 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { BuildType, NotificationType } from '@prisma/client';
+import { BuildNotificationEvent, NotificationTemplateService } from './notification-template.service';
+
+describe('NotificationTemplateService', () => {
+  let service: NotificationTemplateService;
+
+  const config: Record<string, string> = {
+    'app.webUrl': 'https://console.example.com',
+    'app.baseUrl': 'https://api.example.com',
+  };
+
+  const context = (event = BuildNotificationEvent.SUCCESS, data: Record<string, any> = {}) => {
+    const task = { ...service.createSampleTask(event), ...data };
+    return service.buildContext(task, event, { qrcodeCid: 'qrcode@test' });
+  };
+
+  beforeEach(() => {
+    service = new NotificationTemplateService({
+      get: (key: string, defaultValue?: any) => config[key] ?? defaultValue,
+    } as ConfigService);
+  });
+
+  it('should expose task, commit and package size variables', () => {
+    const result = context();
+
+    expect(result.task).toMatchObject({
+      id: 'sample-task',
+      typeText: '预览',
+      version: '1.2.3',
+      durationText: '1分35秒',
+      url: 'https://console.example.com/build-tasks/sample-task',
+    });
+    expect(result.commit).toMatchObject({ shortId: '3f2c9a1', title: 'feat(order): 新增订单详情页', author: 'alice' });
+    expect(result.packageSize).toMatchObject({ total: 2254848, totalText: '2.15MB' });
+    expect(result.packageSize.packages.map(({ name }) => name)).toEqual(['__FULL__', '__APP__', '/packageOrder']);
+    expect(result.qrcode).toEqual({ url: 'https://api.example.com/build-tasks/sample-task/qrcode', cid: 'qrcode@test' });
+    expect(context(BuildNotificationEvent.SUCCESS, { type: BuildType.UPLOAD }).qrcode).toBeUndefined();
+  });
+
+  it('should prefer event templates, then default, then the channel template', () => {
+    const template = {
+      default: { title: '[{{miniprogram.name}}] {{eventText}}' },
+      fail: { content: '{{task.version}} 失败: {{task.errorMessage}}' },
+    };
+
+    expect(service.render(NotificationType.DINGTALK, BuildNotificationEvent.FAIL, template, context(BuildNotificationEvent.FAIL)))
+      .toEqual({ title: '[示例小程序] 构建失败', content: '1.2.3 失败: npm run build 失败: Module not found' });
+
+    const success = service.render(NotificationType.DINGTALK, BuildNotificationEvent.SUCCESS, template, context());
+    expect(success.title).toBe('[示例小程序] 构建成功');
+    expect(success.content).toContain('![预览二维码](https://api.example.com/build-tasks/sample-task/qrcode)');
+  });
+
+  it('should support block helpers over the context', () => {
+    const template = {
+      success: {
+        content: '{{#each packageSize.packages}}{{name}}={{sizeText}};{{/each}}{{#if (eq task.type "PREVIEW")}}preview{{/if}}',
+      },
+    };
+
+    expect(service.render(NotificationType.FEISHU, BuildNotificationEvent.SUCCESS, template, context()).content)
+      .toBe('__FULL__=2.15MB;__APP__=1.50MB;/packageOrder=666.0KB;preview');
+  });
+
+  it('should escape HTML only for email content', () => {
+    const data = { operator: '<alice>' };
+    const template = { default: { title: '{{task.operator}}', content: '{{task.operator}}' } };
+
+    expect(service.render(NotificationType.EMAIL, BuildNotificationEvent.START, template, context(BuildNotificationEvent.START, data)))
+      .toEqual({ title: '<alice>', content: '&lt;alice&gt;' });
+    expect(service.render(NotificationType.DINGTALK, BuildNotificationEvent.START, template, context(BuildNotificationEvent.START, data)).content)
+      .toBe('<alice>');
+  });
+
+  it('should ship a default template for every channel', () => {
+    for (const type of Object.values(NotificationType)) {
+      const { title, content } = service.render(type, BuildNotificationEvent.SUCCESS, null, context());
+      expect(title).toBe('✅ 示例小程序 构建成功');
+      expect(content).toContain('1.2.3');
+    }
+
+    const email = service.render(NotificationType.EMAIL, BuildNotificationEvent.SUCCESS, null, context()).content;
+    expect(email).toContain('<img src="cid:qrcode@test"');
+    expect(email).toContain('<title>✅ 示例小程序 构建成功</title>');
+  });
+
+  it('should bound the compiled template cache', () => {
+    const compiled: Map<string, unknown> = (service as any).compiled;
+
+    for (let i = 0; i < 250; i++) {
+      service.render(NotificationType.DINGTALK, BuildNotificationEvent.START, { start: { title: `#${i}` } }, context());
+    }
+
+    expect(compiled.size).toBeLessThanOrEqual(200);
+    expect(compiled.has('text:#249')).toBe(true);
+    expect(compiled.has('text:#0')).toBe(false);
+  });
+
+  it('should validate template structure and syntax', () => {
+    expect(() => service.validate(null)).not.toThrow();
+    expect(() => service.validate({ success: { title: '{{task.version}}' } })).not.toThrow();
+    expect(() => service.validate({ deploy: { title: 'x' } })).toThrow('不支持的通知模板事件: deploy');
+    expect(() => service.validate({ fail: { content: 1 } })).toThrow('通知模板 fail.content 必须是字符串');
+    expect(() => service.validate({ fail: { content: '{{#if isFail}}unclosed' } })).toThrow(BadRequestException);
+    expect(() => service.render(NotificationType.DINGTALK, BuildNotificationEvent.FAIL, { fail: { content: '{{#if}}' } }, context()))
+      .toThrow(BadRequestException);
+  });
+});
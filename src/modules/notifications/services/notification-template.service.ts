@@ -0,0 +1,357 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  BuildTask,
+  BuildType,
+  FailureReason,
+  Miniprogram,
+  NotificationType,
+  TaskStatus,
+  TriggerType,
+} from '@prisma/client';
+import Handlebars from 'handlebars';
+import { DEFAULT_NOTIFICATION_TEMPLATES, NotificationTemplate } from '../templates/default-templates';
+
+/**
+ * 构建通知事件，对应通知配置的 events
+ */
+export enum BuildNotificationEvent {
+  START = 'start',
+  SUCCESS = 'success',
+  FAIL = 'fail',
+  CANCEL = 'cancel',
+}
+
+export const BUILD_EVENT_LABELS: Record<BuildNotificationEvent, { emoji: string; text: string; color: string }> = {
+  [BuildNotificationEvent.START]: { emoji: '🚀', text: '开始构建', color: '#1677ff' },
+  [BuildNotificationEvent.SUCCESS]: { emoji: '✅', text: '构建成功', color: '#52c41a' },
+  [BuildNotificationEvent.FAIL]: { emoji: '❌', text: '构建失败', color: '#f5222d' },
+  [BuildNotificationEvent.CANCEL]: { emoji: '⏹', text: '构建已取消', color: '#8c8c8c' },
+};
+
+// 通知配置 template 中对所有事件生效的键
+const DEFAULT_TEMPLATE_KEY = 'default';
+
+// 编译结果缓存的模板数，模板来自用户配置，超出后淘汰最久未使用的
+const COMPILED_CACHE_SIZE = 200;
+
+/**
+ * 通知配置中的模板，按事件配置标题和正文，未配置的部分依次使用 default 和渠道默认模板
+ */
+export type NotificationTemplateConfig = Partial<
+  Record<BuildNotificationEvent | typeof DEFAULT_TEMPLATE_KEY, Partial<NotificationTemplate>>
+>;
+
+export type BuildTaskWithMiniprogram = BuildTask & { miniprogram: Pick<Miniprogram, 'id' | 'name' | 'appId'> };
+
+export interface BuildContextOptions {
+  qrcodeCid?: string; // 邮件内嵌二维码的 Content-ID
+  logAttached?: boolean;
+}
+
+/**
+ * 模板可用的变量
+ */
+export interface BuildNotificationContext {
+  event: BuildNotificationEvent;
+  eventText: string;
+  eventEmoji: string;
+  color: string;
+  isStart: boolean;
+  isSuccess: boolean;
+  isFail: boolean;
+  isCancel: boolean;
+  task: {
+    id: string;
+    type: BuildType;
+    typeText: string;
+    status: TaskStatus;
+    triggerType: TriggerType;
+    version: string;
+    previousVersion?: string;
+    buildNumber?: number;
+    branch: string;
+    tag?: string;
+    description?: string;
+    operator: string;
+    duration?: number;
+    durationText?: string;
+    errorMessage?: string;
+    failureReason?: string;
+    createTime: string;
+    url: string;
+  };
+  miniprogram: {
+    id: string;
+    name: string;
+    appId: string;
+  };
+  commit: {
+    id?: string;
+    shortId?: string;
+    title?: string;
+    message?: string;
+    author?: string;
+  };
+  packageSize?: {
+    total: number;
+    totalText: string;
+    packages: { name: string; size: number; sizeText: string }[];
+  };
+  qrcode?: {
+    url: string;
+    cid?: string;
+  };
+  logAttached: boolean;
+}
+
+/**
+ * 通知模板渲染
+ * 使用 Handlebars 语法，邮件正文按 HTML 转义，其余渠道原样输出
+ */
+@Injectable()
+export class NotificationTemplateService {
+  private readonly handlebars = Handlebars.create();
+  private readonly compiled = new Map<string, HandlebarsTemplateDelegate>();
+
+  constructor(private readonly configService: ConfigService) {
+    this.handlebars.registerHelper('eq', (a: unknown, b: unknown) => a === b);
+  }
+
+  /**
+   * 渲染通知标题和正文，模板有误时抛出 BadRequestException
+   */
+  render(
+    type: NotificationType,
+    event: BuildNotificationEvent,
+    templateConfig: unknown,
+    context: BuildNotificationContext,
+  ): NotificationTemplate {
+    const template = this.resolve(type, event, templateConfig);
+
+    // 标题用于邮件主题和消息标题，不做 HTML 转义
+    const title = this.renderTemplate(template.title, context, false).trim();
+    const content = this.renderTemplate(template.content, { ...context, title }, type === NotificationType.EMAIL).trim();
+
+    return { title, content };
+  }
+
+  /**
+   * 查找事件对应的模板：事件模板 > default 模板 > 渠道默认模板，标题和正文分别查找
+   */
+  resolve(type: NotificationType, event: BuildNotificationEvent, templateConfig: unknown): NotificationTemplate {
+    const config = this.isObject(templateConfig) ? templateConfig as NotificationTemplateConfig : {};
+    const candidates = [config[event], config[DEFAULT_TEMPLATE_KEY], DEFAULT_NOTIFICATION_TEMPLATES[type]];
+
+    const pick = (field: keyof NotificationTemplate) => candidates
+      .map((candidate) => candidate?.[field])
+      .find((value) => typeof value === 'string' && value.trim() !== '');
+
+    return { title: pick('title') ?? '', content: pick('content') ?? '' };
+  }
+
+  /**
+   * 校验通知配置中的模板结构和语法
+   */
+  validate(templateConfig: unknown): void {
+    if (templateConfig === undefined || templateConfig === null) {
+      return;
+    }
+    if (!this.isObject(templateConfig)) {
+      throw new BadRequestException('通知模板必须是对象');
+    }
+
+    const keys = [...Object.values(BuildNotificationEvent), DEFAULT_TEMPLATE_KEY] as string[];
+    for (const [key, template] of Object.entries(templateConfig)) {
+      if (!keys.includes(key)) {
+        throw new BadRequestException(`不支持的通知模板事件: ${key}`);
+      }
+      if (!this.isObject(template)) {
+        throw new BadRequestException(`通知模板 ${key} 必须是对象`);
+      }
+
+      for (const field of ['title', 'content'] as const) {
+        const source = template[field];
+        if (source === undefined || source === null) {
+          continue;
+        }
+        if (typeof source !== 'string') {
+          throw new BadRequestException(`通知模板 ${key}.${field} 必须是字符串`);
+        }
+        try {
+          this.handlebars.precompile(source);
+        } catch (error) {
+          throw new BadRequestException(`通知模板 ${key}.${field} 语法错误: ${error.message}`);
+        }
+      }
+    }
+  }
+
+  /**
+   * 从构建任务生成模板变量
+   */
+  buildContext(
+    buildTask: BuildTaskWithMiniprogram,
+    event: BuildNotificationEvent,
+    options: BuildContextOptions = {},
+  ): BuildNotificationContext {
+    const { miniprogram } = buildTask;
+    const label = BUILD_EVENT_LABELS[event];
+    const webUrl = this.configService.get('app.webUrl', 'http://localhost:3000');
+    const baseUrl = this.configService.get('app.baseUrl', 'http://localhost:3000');
+    const showQrcode = event === BuildNotificationEvent.SUCCESS && buildTask.type === BuildType.PREVIEW;
+
+    return {
+      event,
+      eventText: label.text,
+      eventEmoji: label.emoji,
+      color: label.color,
+      isStart: event === BuildNotificationEvent.START,
+      isSuccess: event === BuildNotificationEvent.SUCCESS,
+      isFail: event === BuildNotificationEvent.FAIL,
+      isCancel: event === BuildNotificationEvent.CANCEL,
+      task: {
+        id: buildTask.id,
+        type: buildTask.type,
+        typeText: buildTask.type === BuildType.UPLOAD ? '上传' : '预览',
+        status: buildTask.status,
+        triggerType: buildTask.triggerType,
+        version: buildTask.version,
+        previousVersion: buildTask.previousVersion ?? undefined,
+        buildNumber: buildTask.buildNumber ?? undefined,
+        branch: buildTask.branch,
+        tag: buildTask.tag ?? undefined,
+        description: buildTask.description ?? undefined,
+        operator: buildTask.operator,
+        duration: buildTask.duration ?? undefined,
+        durationText: buildTask.duration ? this.formatDuration(buildTask.duration) : undefined,
+        errorMessage: buildTask.errorMessage ?? undefined,
+        failureReason: buildTask.failureReason ?? undefined,
+        createTime: buildTask.createTime ? new Date(buildTask.createTime).toISOString() : undefined,
+        url: `${webUrl}/build-tasks/${buildTask.id}`,
+      },
+      miniprogram: {
+        id: miniprogram.id,
+        name: miniprogram.name,
+        appId: miniprogram.appId,
+      },
+      commit: {
+        id: buildTask.commitId ?? undefined,
+        shortId: buildTask.commitId?.substring(0, 7),
+        title: buildTask.commitMessage?.trim().split('\n')[0],
+        message: buildTask.commitMessage ?? undefined,
+        author: buildTask.commitAuthor ?? undefined,
+      },
+      packageSize: this.formatPackageSize(buildTask.packageSize),
+      qrcode: showQrcode
+        ? { url: `${baseUrl}/build-tasks/${buildTask.id}/qrcode`, cid: options.qrcodeCid }
+        : undefined,
+      logAttached: !!options.logAttached,
+    };
+  }
+
+  /**
+   * 生成用于预览模板的示例任务
+   */
+  createSampleTask(event: BuildNotificationEvent): BuildTaskWithMiniprogram {
+    const failed = event === BuildNotificationEvent.FAIL;
+    const endTime = new Date();
+
+    return {
+      id: 'sample-task',
+      appId: 'sample-miniprogram',
+      type: BuildType.PREVIEW,
+      status: failed ? TaskStatus.FAILED : TaskStatus.SUCCESS,
+      priority: 2,
+      retryCount: 0,
+      progress: 100,
+      branch: 'main',
+      commitId: '3f2c9a1d8e7b6c5a4f3e2d1c0b9a8f7e6d5c4b3a',
+      commitMessage: 'feat(order): 新增订单详情页\n\n支持查看物流信息',
+      tag: null,
+      commitAuthor: 'alice',
+      gitProvider: 'github',
+      pullRequestNumber: null,
+      version: '1.2.3',
+      previousVersion: '1.2.2',
+      buildNumber: 42,
+      description: null,
+      buildLog: null,
+      errorMessage: failed ? 'npm run build 失败: Module not found' : null,
+      failureReason: failed ? FailureReason.ERROR : null,
+      steps: null,
+      createTime: new Date(endTime.getTime() - 100 * 1000),
+      startTime: new Date(endTime.getTime() - 95 * 1000),
+      endTime,
+      duration: 95,
+      operator: 'alice',
+      triggerType: TriggerType.WEBHOOK,
+      qrcodeUrl: null,
+      packageSize: [
+        { name: '__FULL__', size: 2254848 },
+        { name: '__APP__', size: 1572864 },
+        { name: '/packageOrder', size: 681984 },
+      ],
+      userId: 'sample-user',
+      miniprogram: {
+        id: 'sample-miniprogram',
+        name: '示例小程序',
+        appId: 'wx0000000000000000',
+      },
+    };
+  }
+
+  private renderTemplate(source: string, context: Record<string, any>, escape: boolean): string {
+    const key = `${escape ? 'html' : 'text'}:${source}`;
+    let template = this.compiled.get(key);
+    if (template) {
+      // Map 按插入顺序遍历，重新插入使其成为最近使用
+      this.compiled.delete(key);
+    } else {
+      template = this.handlebars.compile(source, { noEscape: !escape });
+      if (this.compiled.size >= COMPILED_CACHE_SIZE) {
+        this.compiled.delete(this.compiled.keys().next().value);
+      }
+    }
+    this.compiled.set(key, template);
+
+    try {
+      return template(context);
+    } catch (error) {
+      throw new BadRequestException(`通知模板渲染失败: ${error.message}`);
+    }
+  }
+
+  private formatDuration(seconds: number): string {
+    const minutes = Math.floor(seconds / 60);
+    return minutes > 0 ? `${minutes}分${seconds % 60}秒` : `${seconds}秒`;
+  }
+
+  /**
+   * 解析 miniprogram-ci 返回的分包信息，__FULL__ 为整包大小
+   */
+  private formatPackageSize(packageSize: unknown): BuildNotificationContext['packageSize'] {
+    if (!Array.isArray(packageSize) || packageSize.length === 0) {
+      return undefined;
+    }
+
+    const packages = packageSize
+      .filter((item) => item && typeof item.size === 'number')
+      .map((item) => ({ name: String(item.name), size: item.size, sizeText: this.formatSize(item.size) }));
+    const total = packages.find((item) => item.name === '__FULL__')?.size
+      ?? packages.reduce((sum, item) => sum + item.size, 0);
+
+    return { total, totalText: this.formatSize(total), packages };
+  }
+
+  private formatSize(bytes: number): string {
+    if (bytes >= 1024 * 1024) {
+      return `${(bytes / 1024 / 1024).toFixed(2)}MB`;
+    }
+    return `${(bytes / 1024).toFixed(1)}KB`;
+  }
+
+  private isObject(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
@@ -0,0 +1,90 @@
+import * as crypto from 'crypto';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { WecomService } from './wecom.service';
+
+describe('WecomService', () => {
+  let service: WecomService;
+  let server: http.Server;
+  let webhook: string;
+  let response: { errcode: number; errmsg: string };
+  let messages: any[];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        messages.push(JSON.parse(body));
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(response));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    webhook = `http://127.0.0.1:${(server.address() as AddressInfo).port}/cgi-bin/webhook/send?key=test`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    service = new WecomService();
+    response = { errcode: 0, errmsg: 'ok' };
+    messages = [];
+  });
+
+  it('should send text messages with mentions', async () => {
+    await service.sendTextMessage(webhook, '构建完成', ['alice'], ['13800000000']);
+
+    expect(messages).toEqual([{
+      msgtype: 'text',
+      text: { content: '构建完成', mentioned_list: ['alice'], mentioned_mobile_list: ['13800000000'] },
+    }]);
+  });
+
+  it('should send images as base64 with their md5', async () => {
+    const image = Buffer.from('fake-jpeg-content');
+
+    await service.sendImageMessage(webhook, image);
+
+    expect(messages[0]).toEqual({
+      msgtype: 'image',
+      image: {
+        base64: image.toString('base64'),
+        md5: crypto.createHash('md5').update(image).digest('hex'),
+      },
+    });
+  });
+
+  it('should send news articles', async () => {
+    const articles = [{ title: '构建成功', description: 'demo 1.0.1', url: 'https://console.example.com/build-tasks/task-1' }];
+
+    await service.sendNewsMessage(webhook, articles);
+
+    expect(messages[0]).toEqual({ msgtype: 'news', news: { articles } });
+  });
+
+  it('should send the notification as markdown followed by the image', async () => {
+    await service.sendMessage({ title: '✅ demo 构建成功', content: '- **版本**: 1.0.1', webhook, image: Buffer.from('qrcode') });
+
+    expect(messages.map((message) => message.msgtype)).toEqual(['markdown', 'image']);
+    expect(messages[0].markdown.content).toBe('**✅ demo 构建成功**\n- **版本**: 1.0.1');
+  });
+
+  it('should truncate markdown to the byte limit', async () => {
+    await service.sendMarkdownMessage(webhook, '构建日志'.repeat(1000));
+
+    const content: string = messages[0].markdown.content;
+    expect(Buffer.byteLength(content)).toBeLessThanOrEqual(4096);
+    expect(content.endsWith('…')).toBe(true);
+    expect(content).not.toContain('�');
+  });
+
+  it('should reject API errors and report failed webhook tests', async () => {
+    response = { errcode: 93000, errmsg: 'invalid webhook url' };
+
+    await expect(service.sendMarkdownMessage(webhook, 'hello')).rejects.toThrow('企业微信API错误: invalid webhook url');
+    await expect(service.testWebhook(webhook)).resolves.toBe(false);
+  });
+});
@@ -0,0 +1,146 @@
+import { Injectable, Logger } from '@nestjs/common';
+import axios from 'axios';
+import * as crypto from 'crypto';
+
+// 企业微信 markdown 消息内容上限（字节）
+const MARKDOWN_MAX_BYTES = 4096;
+
+// 企业微信图片消息上限（base64 编码前）
+const IMAGE_MAX_BYTES = 2 * 1024 * 1024;
+
+export interface WecomMessageOptions {
+  title: string;
+  content: string;
+  webhook: string;
+  image?: Buffer; // 随消息发送的图片，如预览二维码
+}
+
+export interface WecomArticle {
+  title: string;
+  description?: string;
+  url: string;
+  picurl?: string;
+}
+
+/**
+ * 企业微信群机器人
+ */
+@Injectable()
+export class WecomService {
+  private readonly logger = new Logger(WecomService.name);
+
+  /**
+   * 发送通知，markdown 正文之后单独发送图片
+   */
+  async sendMessage(options: WecomMessageOptions): Promise<any> {
+    const { title, content, webhook, image } = options;
+
+    const result = await this.sendMarkdownMessage(webhook, `**${title}**\n${content}`);
+    if (image) {
+      await this.sendImageMessage(webhook, image);
+    }
+
+    this.logger.log('Wecom message sent successfully');
+    return result;
+  }
+
+  /**
+   * 发送文本消息，可 @ 指定成员或手机号
+   */
+  async sendTextMessage(
+    webhook: string,
+    content: string,
+    mentionedList?: string[],
+    mentionedMobileList?: string[],
+  ): Promise<any> {
+    return this.send(webhook, {
+      msgtype: 'text',
+      text: {
+        content,
+        mentioned_list: mentionedList,
+        mentioned_mobile_list: mentionedMobileList,
+      },
+    });
+  }
+
+  /**
+   * 发送 Markdown 消息，超出长度上限时截断
+   */
+  async sendMarkdownMessage(webhook: string, markdown: string): Promise<any> {
+    return this.send(webhook, {
+      msgtype: 'markdown',
+      markdown: { content: this.truncateBytes(markdown, MARKDOWN_MAX_BYTES) },
+    });
+  }
+
+  /**
+   * 发送图片消息，图片以 base64 和 md5 提交
+   */
+  async sendImageMessage(webhook: string, image: Buffer): Promise<any> {
+    if (image.length > IMAGE_MAX_BYTES) {
+      throw new Error('企业微信图片消息不能超过2MB');
+    }
+
+    return this.send(webhook, {
+      msgtype: 'image',
+      image: {
+        base64: image.toString('base64'),
+        md5: crypto.createHash('md5').update(image).digest('hex'),
+      },
+    });
+  }
+
+  /**
+   * 发送图文消息
+   */
+  async sendNewsMessage(webhook: string, articles: WecomArticle[]): Promise<any> {
+    return this.send(webhook, {
+      msgtype: 'news',
+      news: { articles },
+    });
+  }
+
+  /**
+   * 测试群机器人 Webhook 连接
+   */
+  async testWebhook(webhook: string): Promise<boolean> {
+    try {
+      await this.sendTextMessage(webhook, '这是一条测试消息');
+      return true;
+    } catch (error) {
+      this.logger.error('Wecom webhook test failed:', error);
+      return false;
+    }
+  }
+
+  private async send(webhook: string, message: Record<string, any>): Promise<any> {
+    try {
+      const response = await axios.post(webhook, message, {
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        timeout: 10000,
+      });
+
+      if (response.data.errcode !== 0) {
+        throw new Error(`企业微信API错误: ${response.data.errmsg}`);
+      }
+
+      return response.data;
+    } catch (error) {
+      this.logger.error(`Failed to send wecom ${message.msgtype} message:`, error);
+      throw error;
+    }
+  }
+
+  private truncateBytes(text: string, maxBytes: number): string {
+    if (Buffer.byteLength(text) <= maxBytes) {
+      return text;
+    }
+
+    // 按字节截断后去掉被截断的半个字符
+    const ellipsis = '…';
+    const truncated = Buffer.from(text).subarray(0, maxBytes - Buffer.byteLength(ellipsis)).toString();
+    return `${truncated.replace(/\uFFFD+$/, '')}${ellipsis}`;
+  }
+}
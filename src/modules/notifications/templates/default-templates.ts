@@ -0,0 +1,107 @@
+import { NotificationType } from '@prisma/client';
+
+export interface NotificationTemplate {
+  title: string;
+  content: string;
+}
+
+const DEFAULT_TITLE = '{{eventEmoji}} {{miniprogram.name}} {{eventText}}';
+
+// 钉钉、企业微信使用的 markdown 正文
+const MARKDOWN_CONTENT = `### 📦 {{miniprogram.name}} {{eventText}}
+
+- **构建类型**: {{task.typeText}}
+- **分支**: {{task.branch}}
+- **版本**: {{task.version}}
+- **操作人**: {{task.operator}}
+{{#if task.duration}}
+- **耗时**: {{task.durationText}}
+{{/if}}
+{{#if commit.id}}
+- **提交**: {{commit.shortId}} {{commit.title}}
+{{/if}}
+{{#if qrcode}}
+
+![预览二维码]({{qrcode.url}})
+{{/if}}
+{{#if isFail}}
+{{#if task.errorMessage}}
+
+**错误信息**: {{task.errorMessage}}
+{{/if}}
+{{/if}}
+
+[查看构建详情]({{task.url}})`;
+
+// 飞书卡片正文（lark_md），跳转按钮和二维码由卡片单独展示
+const FEISHU_CONTENT = `**构建状态**：{{eventText}}
+**构建类型**：{{task.typeText}}
+**版本**：{{task.version}}
+**分支**：{{task.branch}}
+**操作人**：{{task.operator}}
+{{#if task.duration}}
+**耗时**：{{task.durationText}}
+{{/if}}
+{{#if commit.id}}
+**提交**：{{commit.shortId}} {{commit.title}}
+{{/if}}
+{{#if isFail}}
+{{#if task.errorMessage}}
+**错误信息**：{{task.errorMessage}}
+{{/if}}
+{{/if}}`;
+
+// 邮件客户端对样式支持有限，只使用表格布局和内联样式
+const EMAIL_CONTENT = `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>{{title}}</title></head>
+<body style="margin:0;padding:24px;background:#f5f5f5;font-family:-apple-system,'PingFang SC','Microsoft YaHei',sans-serif;font-size:14px;">
+<table width="600" cellpadding="0" cellspacing="0" style="margin:0 auto;background:#fff;border-radius:4px;overflow:hidden;">
+<tr><td style="padding:16px 24px;background:{{color}};color:#fff;font-size:18px;font-weight:bold;">{{title}}</td></tr>
+<tr><td style="padding:16px 12px;">
+<table cellpadding="0" cellspacing="0">
+<tr><td style="padding:6px 12px;color:#666;">小程序</td><td style="padding:6px 12px;color:#333;">{{miniprogram.name}}</td></tr>
+<tr><td style="padding:6px 12px;color:#666;">构建类型</td><td style="padding:6px 12px;color:#333;">{{task.typeText}}</td></tr>
+<tr><td style="padding:6px 12px;color:#666;">分支</td><td style="padding:6px 12px;color:#333;">{{task.branch}}</td></tr>
+<tr><td style="padding:6px 12px;color:#666;">版本</td><td style="padding:6px 12px;color:#333;">{{task.version}}</td></tr>
+<tr><td style="padding:6px 12px;color:#666;">操作人</td><td style="padding:6px 12px;color:#333;">{{task.operator}}</td></tr>
+{{#if task.duration}}
+<tr><td style="padding:6px 12px;color:#666;">耗时</td><td style="padding:6px 12px;color:#333;">{{task.durationText}}</td></tr>
+{{/if}}
+{{#if commit.id}}
+<tr><td style="padding:6px 12px;color:#666;">提交</td><td style="padding:6px 12px;color:#333;">{{commit.shortId}} {{commit.title}}</td></tr>
+{{/if}}
+{{#if packageSize}}
+<tr><td style="padding:6px 12px;color:#666;">包大小</td><td style="padding:6px 12px;color:#333;">{{packageSize.totalText}}</td></tr>
+{{/if}}
+</table>
+{{#if qrcode.cid}}
+<p style="margin:16px 0 8px;color:#333;">微信扫码预览：</p>
+<img src="cid:{{qrcode.cid}}" alt="预览二维码" width="200" height="200" style="display:block;border:1px solid #eee;">
+{{/if}}
+{{#if isFail}}
+{{#if task.errorMessage}}
+<pre style="margin:16px 0 0;padding:12px;background:#fff4f4;color:#c0392b;white-space:pre-wrap;word-break:break-all;">{{task.errorMessage}}</pre>
+{{/if}}
+{{/if}}
+{{#if logAttached}}
+<p style="margin:16px 0 0;color:#666;">构建日志末尾已作为附件发送。</p>
+{{/if}}
+<p style="margin:24px 0 0;"><a href="{{task.url}}" style="color:#1677ff;">查看构建详情</a></p>
+</td></tr>
+</table>
+</body>
+</html>`;
+
+const SMS_CONTENT = '【{{miniprogram.name}}】{{task.typeText}} {{task.version}}（{{task.branch}}）{{eventText}}{{#if isFail}}{{#if task.errorMessage}}：{{task.errorMessage}}{{/if}}{{/if}}';
+
+/**
+ * 各通知渠道的默认模板，通知配置未配置模板时使用
+ */
+export const DEFAULT_NOTIFICATION_TEMPLATES: Record<NotificationType, NotificationTemplate> = {
+  [NotificationType.DINGTALK]: { title: DEFAULT_TITLE, content: MARKDOWN_CONTENT },
+  [NotificationType.WECHAT]: { title: DEFAULT_TITLE, content: MARKDOWN_CONTENT },
+  [NotificationType.FEISHU]: { title: DEFAULT_TITLE, content: FEISHU_CONTENT },
+  [NotificationType.EMAIL]: { title: DEFAULT_TITLE, content: EMAIL_CONTENT },
+  [NotificationType.SMS]: { title: DEFAULT_TITLE, content: SMS_CONTENT },
+};
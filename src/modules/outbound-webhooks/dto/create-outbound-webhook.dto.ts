@@ -0,0 +1,50 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ArrayNotEmpty, IsArray, IsBoolean, IsEnum, IsOptional, IsString, IsUrl, MaxLength } from 'class-validator';
+
+export enum OutboundWebhookEvent {
+  BUILD_QUEUED = 'build.queued',
+  BUILD_STARTED = 'build.started',
+  BUILD_SUCCEEDED = 'build.succeeded',
+  BUILD_FAILED = 'build.failed',
+  BUILD_CANCELLED = 'build.cancelled',
+}
+
+export class CreateOutboundWebhookDto {
+  @ApiPropertyOptional({ description: '名称', maxLength: 100 })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  name?: string;
+
+  @ApiProperty({ description: '接收地址', example: 'https://release.example.com/hooks/build' })
+  @IsUrl({ require_tld: false }, { message: 'URL格式不正确' })
+  @MaxLength(500)
+  url: string;
+
+  @ApiPropertyOptional({ description: '签名密钥，为空时自动生成' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  secret?: string;
+
+  @ApiProperty({
+    description: '订阅的事件',
+    enum: OutboundWebhookEvent,
+    isArray: true,
+    example: [OutboundWebhookEvent.BUILD_SUCCEEDED, OutboundWebhookEvent.BUILD_FAILED],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsEnum(OutboundWebhookEvent, { each: true, message: '事件类型不正确' })
+  events: OutboundWebhookEvent[];
+
+  @ApiPropertyOptional({ description: '小程序ID，为空时订阅当前用户的所有小程序' })
+  @IsOptional()
+  @IsString()
+  miniprogramId?: string;
+
+  @ApiPropertyOptional({ description: '是否启用', default: true })
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+}
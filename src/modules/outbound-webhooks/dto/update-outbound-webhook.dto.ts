@@ -0,0 +1,4 @@
+import { OmitType, PartialType } from '@nestjs/swagger';
+import { CreateOutboundWebhookDto } from './create-outbound-webhook.dto';
+
+export class UpdateOutboundWebhookDto extends PartialType(OmitType(CreateOutboundWebhookDto, ['miniprogramId'] as const)) {}
@@ -0,0 +1,134 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { User, UserRole } from '@prisma/client';
+import { RequirePermissions } from '../../common/decorators/auth.decorator';
+import { CurrentUser } from '../../common/decorators/user.decorator';
+import { PaginationDto } from '../../common/dto/pagination.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { CreateOutboundWebhookDto } from './dto/create-outbound-webhook.dto';
+import { UpdateOutboundWebhookDto } from './dto/update-outbound-webhook.dto';
+import { OutboundWebhooksService } from './outbound-webhooks.service';
+
+@ApiTags('outbound-webhooks')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@Controller('outbound-webhooks')
+export class OutboundWebhooksController {
+  constructor(private readonly outboundWebhooksService: OutboundWebhooksService) {}
+
+  @Post()
+  @RequirePermissions('miniprograms:update')
+  @ApiOperation({ summary: '创建出站Webhook' })
+  @ApiResponse({ status: 201, description: '出站Webhook创建成功' })
+  @ApiResponse({ status: 404, description: '小程序不存在' })
+  create(@CurrentUser() user: User, @Body() createDto: CreateOutboundWebhookDto) {
+    const userId = user.role === UserRole.ADMIN ? undefined : user.id;
+    return this.outboundWebhooksService.create(user.id, createDto, userId);
+  }
+
+  @Get()
+  @RequirePermissions('miniprograms:read')
+  @ApiOperation({ summary: '获取出站Webhook列表' })
+  @ApiResponse({ status: 200, description: '获取出站Webhook列表成功' })
+  @ApiQuery({ name: 'miniprogramId', required: false, description: '小程序ID' })
+  findAll(
+    @CurrentUser() user: User,
+    @Query() paginationDto: PaginationDto,
+    @Query('miniprogramId') miniprogramId?: string,
+  ) {
+    const userId = user.role === UserRole.ADMIN ? undefined : user.id;
+    return this.outboundWebhooksService.findAll(paginationDto, miniprogramId, userId);
+  }
+
+  @Get(':id')
+  @RequirePermissions('miniprograms:read')
+  @ApiOperation({ summary: '获取出站Webhook详情' })
+  @ApiResponse({ status: 200, description: '获取出站Webhook成功' })
+  @ApiResponse({ status: 404, description: '出站Webhook不存在' })
+  findOne(@CurrentUser() user: User, @Param('id') id: string) {
+    const userId = user.role === UserRole.ADMIN ? undefined : user.id;
+    return this.outboundWebhooksService.findOne(id, userId);
+  }
+
+  @Patch(':id')
+  @RequirePermissions('miniprograms:update')
+  @ApiOperation({ summary: '更新出站Webhook' })
+  @ApiResponse({ status: 200, description: '出站Webhook更新成功' })
+  @ApiResponse({ status: 404, description: '出站Webhook不存在' })
+  update(
+    @CurrentUser() user: User,
+    @Param('id') id: string,
+    @Body() updateDto: UpdateOutboundWebhookDto,
+  ) {
+    const userId = user.role === UserRole.ADMIN ? undefined : user.id;
+    return this.outboundWebhooksService.update(id, updateDto, userId);
+  }
+
+  @Delete(':id')
+  @RequirePermissions('miniprograms:update')
+  @ApiOperation({ summary: '删除出站Webhook' })
+  @ApiResponse({ status: 200, description: '出站Webhook删除成功' })
+  @ApiResponse({ status: 404, description: '出站Webhook不存在' })
+  remove(@CurrentUser() user: User, @Param('id') id: string) {
+    const userId = user.role === UserRole.ADMIN ? undefined : user.id;
+    return this.outboundWebhooksService.remove(id, userId);
+  }
+
+  @Get(':id/deliveries')
+  @RequirePermissions('miniprograms:read')
+  @ApiOperation({ summary: '获取出站Webhook投递记录' })
+  @ApiResponse({ status: 200, description: '获取投递记录成功' })
+  findDeliveries(
+    @CurrentUser() user: User,
+    @Param('id') id: string,
+    @Query() paginationDto: PaginationDto,
+  ) {
+    const userId = user.role === UserRole.ADMIN ? undefined : user.id;
+    return this.outboundWebhooksService.findDeliveries(id, paginationDto, userId);
+  }
+
+  @Get(':id/deliveries/:deliveryId')
+  @RequirePermissions('miniprograms:read')
+  @ApiOperation({ summary: '获取出站Webhook投递详情' })
+  @ApiResponse({ status: 200, description: '获取投递详情成功' })
+  @ApiResponse({ status: 404, description: '投递记录不存在' })
+  findDelivery(
+    @CurrentUser() user: User,
+    @Param('id') id: string,
+    @Param('deliveryId') deliveryId: string,
+  ) {
+    const userId = user.role === UserRole.ADMIN ? undefined : user.id;
+    return this.outboundWebhooksService.findDelivery(id, deliveryId, userId);
+  }
+
+  @Post(':id/deliveries/:deliveryId/resend')
+  @RequirePermissions('miniprograms:update')
+  @ApiOperation({ summary: '重新发送出站Webhook投递' })
+  @ApiResponse({ status: 201, description: '已加入投递队列' })
+  @ApiResponse({ status: 404, description: '投递记录不存在' })
+  resend(
+    @CurrentUser() user: User,
+    @Param('id') id: string,
+    @Param('deliveryId') deliveryId: string,
+  ) {
+    const userId = user.role === UserRole.ADMIN ? undefined : user.id;
+    return this.outboundWebhooksService.resend(id, deliveryId, userId);
+  }
+}
@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { BullModule } from '@nestjs/bull';
+import { EncryptionService } from '../../common/services/encryption.service';
+import { OutboundWebhooksController } from './outbound-webhooks.controller';
+import { OUTBOUND_WEBHOOK_QUEUE, OutboundWebhooksService } from './outbound-webhooks.service';
+import { OutboundWebhookProcessor } from './processors/outbound-webhook.processor';
+import { AuthModule } from '../auth/auth.module';
+import { MiniprogramsModule } from '../miniprograms/miniprograms.module';
+
+@Module({
+  imports: [
+    AuthModule,
+    MiniprogramsModule,
+    BullModule.registerQueue({
+      name: OUTBOUND_WEBHOOK_QUEUE,
+    }),
+  ],
+  controllers: [OutboundWebhooksController],
+  providers: [OutboundWebhooksService, OutboundWebhookProcessor, EncryptionService],
+  exports: [OutboundWebhooksService],
+})
+export class OutboundWebhooksModule {}
@@ -0,0 +1,199 @@
+import { getQueueToken } from '@nestjs/bull';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { OutboundDeliveryStatus } from '@prisma/client';
+import * as crypto from 'crypto';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { EncryptionService } from '../../common/services/encryption.service';
+import { MiniprogramsService } from '../miniprograms/miniprograms.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { OutboundWebhookEvent } from './dto/create-outbound-webhook.dto';
+import { OUTBOUND_WEBHOOK_QUEUE, OutboundWebhooksService } from './outbound-webhooks.service';
+
+describe('OutboundWebhooksService', () => {
+  let service: OutboundWebhooksService;
+  let encryptionService: EncryptionService;
+
+  const mockPrisma = {
+    outboundWebhook: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      count: jest.fn(async () => 1),
+      create: jest.fn(async ({ data }: any) => ({ id: 'wh-1', ...data })),
+    },
+    outboundWebhookDelivery: {
+      create: jest.fn(async ({ data }: any) => ({ id: `delivery-${data.webhookId}`, ...data })),
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      update: jest.fn(),
+    },
+  };
+
+  const mockQueue = {
+    add: jest.fn(),
+  };
+
+  const task: any = {
+    id: 'task-1',
+    appId: 'mp-1',
+    status: 'SUCCESS',
+    version: '1.2.0',
+    buildLog: 'very long log',
+    qrcodeUrl: '/uploads/qrcode/task-1.png',
+    packageSize: { total: 1024 },
+  };
+
+  const subscription = (id: string, events: string[]) => ({
+    id,
+    url: 'http://127.0.0.1/hook',
+    secret: 'top-secret',
+    events,
+    enabled: true,
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OutboundWebhooksService,
+        EncryptionService,
+        { provide: PrismaService, useValue: mockPrisma },
+        { provide: MiniprogramsService, useValue: { findOne: jest.fn() } },
+        { provide: ConfigService, useValue: { get: jest.fn((key: string, defaultValue?: any) => defaultValue) } },
+        { provide: getQueueToken(OUTBOUND_WEBHOOK_QUEUE), useValue: mockQueue },
+      ],
+    }).compile();
+
+    service = module.get<OutboundWebhooksService>(OutboundWebhooksService);
+    encryptionService = module.get<EncryptionService>(EncryptionService);
+  });
+
+  describe('secret', () => {
+    it('should store the secret encrypted and return it only on creation', async () => {
+      const created = await service.create('user-1', {
+        url: 'https://release.example.com/hook',
+        secret: 'top-secret',
+        events: [OutboundWebhookEvent.BUILD_SUCCEEDED],
+      });
+
+      const stored = mockPrisma.outboundWebhook.create.mock.calls[0][0].data.secret;
+      expect(stored).not.toBe('top-secret');
+      expect(encryptionService.decryptSensitiveData(stored)).toBe('top-secret');
+      expect(created.secret).toBe('top-secret');
+
+      mockPrisma.outboundWebhook.findFirst.mockResolvedValue({ id: 'wh-1', secret: stored });
+      mockPrisma.outboundWebhook.findMany.mockResolvedValue([{ id: 'wh-1', secret: stored }]);
+
+      await expect(service.findOne('wh-1')).resolves.toMatchObject({ secret: '******' });
+      expect((await service.findAll()).data).toEqual([{ id: 'wh-1', secret: '******' }]);
+    });
+  });
+
+  describe('publish', () => {
+    it('should queue a delivery for each subscriber of the event', async () => {
+      mockPrisma.outboundWebhook.findMany.mockResolvedValue([
+        subscription('wh-1', [OutboundWebhookEvent.BUILD_SUCCEEDED]),
+        subscription('wh-2', [OutboundWebhookEvent.BUILD_FAILED]),
+      ]);
+
+      await service.publish(OutboundWebhookEvent.BUILD_SUCCEEDED, task);
+
+      expect(mockPrisma.outboundWebhookDelivery.create).toHaveBeenCalledTimes(1);
+      const { data } = mockPrisma.outboundWebhookDelivery.create.mock.calls[0][0];
+      expect(data).toMatchObject({ webhookId: 'wh-1', event: 'build.succeeded', taskId: 'task-1' });
+      expect(data.payload).toMatchObject({ qrcodeUrl: task.qrcodeUrl, packageSize: task.packageSize });
+      expect(data.payload.task).not.toHaveProperty('buildLog');
+      expect(mockQueue.add).toHaveBeenCalledWith('deliver', { deliveryId: 'delivery-wh-1' }, expect.objectContaining({
+        attempts: 5,
+        backoff: { type: 'exponential', delay: 10000 },
+      }));
+    });
+
+    it('should not throw when publishing fails', async () => {
+      mockPrisma.outboundWebhook.findMany.mockRejectedValue(new Error('db down'));
+
+      await expect(service.publish(OutboundWebhookEvent.BUILD_QUEUED, task)).resolves.toBeUndefined();
+    });
+  });
+
+  describe('deliver', () => {
+    let server: http.Server;
+    let url: string;
+    let responseStatus: number;
+    let received: { headers: http.IncomingHttpHeaders; body: string }[];
+
+    beforeAll(async () => {
+      server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', (chunk) => (body += chunk));
+        req.on('end', () => {
+          received.push({ headers: req.headers, body });
+          res.writeHead(responseStatus);
+          res.end('ok');
+        });
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    beforeEach(() => {
+      responseStatus = 200;
+      received = [];
+      mockPrisma.outboundWebhookDelivery.findUnique.mockResolvedValue({
+        id: 'delivery-1',
+        event: OutboundWebhookEvent.BUILD_SUCCEEDED,
+        payload: { event: OutboundWebhookEvent.BUILD_SUCCEEDED, task: { id: 'task-1' } },
+        webhook: { ...subscription('wh-1', []), secret: encryptionService.encryptSensitiveData('top-secret'), url },
+      });
+    });
+
+    it('should POST an HMAC-signed payload and mark the delivery successful', async () => {
+      await service.deliver('delivery-1', false);
+
+      expect(received).toHaveLength(1);
+      const [{ headers, body }] = received;
+      const signature = crypto.createHmac('sha256', 'top-secret').update(body).digest('hex');
+      expect(headers['x-avocado-signature-256']).toBe(`sha256=${signature}`);
+      expect(headers['x-avocado-event']).toBe('build.succeeded');
+      expect(headers['x-avocado-delivery']).toBe('delivery-1');
+      expect(JSON.parse(body)).toEqual({ event: 'build.succeeded', task: { id: 'task-1' } });
+      expect(mockPrisma.outboundWebhookDelivery.update).toHaveBeenCalledWith(expect.objectContaining({
+        data: expect.objectContaining({ status: OutboundDeliveryStatus.SUCCESS, responseStatus: 200, error: null }),
+      }));
+    });
+
+    it('should keep the delivery pending for retry and fail it on the last attempt', async () => {
+      responseStatus = 500;
+
+      await expect(service.deliver('delivery-1', false)).rejects.toThrow('HTTP 500');
+      await expect(service.deliver('delivery-1', true)).rejects.toThrow('HTTP 500');
+
+      const statuses = mockPrisma.outboundWebhookDelivery.update.mock.calls.map(([args]) => args.data.status);
+      expect(statuses).toEqual([OutboundDeliveryStatus.PENDING, OutboundDeliveryStatus.FAILED]);
+    });
+  });
+
+  describe('resend', () => {
+    it('should queue a copy of the original delivery', async () => {
+      mockPrisma.outboundWebhookDelivery.findFirst.mockResolvedValue({
+        id: 'delivery-1',
+        webhookId: 'wh-1',
+        event: OutboundWebhookEvent.BUILD_FAILED,
+        taskId: 'task-1',
+        payload: { event: OutboundWebhookEvent.BUILD_FAILED },
+      });
+      jest.spyOn(service, 'findOne').mockResolvedValue(subscription('wh-1', []) as any);
+
+      const delivery = await service.resend('wh-1', 'delivery-1');
+
+      expect(delivery).toMatchObject({ event: 'build.failed', redeliveryOf: 'delivery-1' });
+      expect(mockQueue.add).toHaveBeenCalledWith('deliver', { deliveryId: delivery.id }, expect.anything());
+    });
+  });
+});
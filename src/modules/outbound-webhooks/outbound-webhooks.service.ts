@@ -0,0 +1,376 @@
+import { InjectQueue } from '@nestjs/bull';
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  BuildTask,
+  OutboundDeliveryStatus,
+  OutboundWebhook,
+  OutboundWebhookDelivery,
+  Prisma,
+} from '@prisma/client';
+import axios from 'axios';
+import { Queue } from 'bull';
+import * as crypto from 'crypto';
+import { PaginationDto, PaginationResult } from '../../common/dto/pagination.dto';
+import { EncryptionService } from '../../common/services/encryption.service';
+import { MiniprogramsService } from '../miniprograms/miniprograms.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { CreateOutboundWebhookDto, OutboundWebhookEvent } from './dto/create-outbound-webhook.dto';
+import { UpdateOutboundWebhookDto } from './dto/update-outbound-webhook.dto';
+
+export const OUTBOUND_WEBHOOK_QUEUE = 'outbound-webhook';
+
+export interface OutboundDeliveryJobData {
+  deliveryId: string;
+}
+
+// 响应体只保留前 2KB
+const MAX_RESPONSE_BODY_LENGTH = 2048;
+
+@Injectable()
+export class OutboundWebhooksService {
+  private readonly logger = new Logger(OutboundWebhooksService.name);
+  private readonly maskedSecret = '******';
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly encryptionService: EncryptionService,
+    private readonly miniprogramsService: MiniprogramsService,
+    private readonly configService: ConfigService,
+    @InjectQueue(OUTBOUND_WEBHOOK_QUEUE) private readonly deliveryQueue: Queue<OutboundDeliveryJobData>,
+  ) {}
+
+  /**
+   * 创建出站 Webhook
+   * 签名密钥加密存储，仅在创建时返回一次明文，之后查询只返回掩码
+   */
+  async create(userId: string, createDto: CreateOutboundWebhookDto, scopeUserId?: string): Promise<OutboundWebhook> {
+    if (createDto.miniprogramId) {
+      // 不存在或无权限时抛出 NotFoundException
+      await this.miniprogramsService.findOne(createDto.miniprogramId, scopeUserId);
+    }
+
+    const secret = createDto.secret || crypto.randomBytes(32).toString('hex');
+    const webhook = await this.prisma.outboundWebhook.create({
+      data: {
+        ...createDto,
+        secret: this.encryptionService.encryptSensitiveData(secret),
+        userId,
+      },
+    });
+
+    return { ...webhook, secret };
+  }
+
+  /**
+   * 查询出站 Webhook 列表
+   */
+  async findAll(
+    paginationDto?: PaginationDto,
+    miniprogramId?: string,
+    userId?: string,
+  ): Promise<PaginationResult<OutboundWebhook>> {
+    const { page = 1, limit = 10 } = paginationDto || {};
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.OutboundWebhookWhereInput = {
+      ...(userId && { userId }),
+      ...(miniprogramId && { miniprogramId }),
+    };
+
+    const [webhooks, total] = await Promise.all([
+      this.prisma.outboundWebhook.findMany({
+        where,
+        skip,
+        take: limit,
+        include: {
+          miniprogram: {
+            select: {
+              id: true,
+              name: true,
+              appId: true,
+            },
+          },
+        },
+        orderBy: { createdAt: 'desc' },
+      }),
+      this.prisma.outboundWebhook.count({ where }),
+    ]);
+
+    return {
+      data: webhooks.map((webhook) => this.sanitize(webhook)),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+      hasNext: page < Math.ceil(total / limit),
+      hasPrev: page > 1,
+    };
+  }
+
+  /**
+   * 获取出站 Webhook 详情
+   */
+  async findOne(id: string, userId?: string): Promise<OutboundWebhook> {
+    const webhook = await this.prisma.outboundWebhook.findFirst({
+      where: {
+        id,
+        ...(userId && { userId }),
+      },
+    });
+
+    if (!webhook) {
+      throw new NotFoundException('出站Webhook不存在');
+    }
+
+    return this.sanitize(webhook);
+  }
+
+  /**
+   * 更新出站 Webhook
+   */
+  async update(id: string, updateDto: UpdateOutboundWebhookDto, userId?: string): Promise<OutboundWebhook> {
+    await this.findOne(id, userId);
+
+    const webhook = await this.prisma.outboundWebhook.update({
+      where: { id },
+      data: {
+        ...updateDto,
+        ...(updateDto.secret && { secret: this.encryptionService.encryptSensitiveData(updateDto.secret) }),
+      },
+    });
+
+    return this.sanitize(webhook);
+  }
+
+  /**
+   * 删除出站 Webhook，投递记录一并删除
+   */
+  async remove(id: string, userId?: string): Promise<void> {
+    await this.findOne(id, userId);
+    await this.prisma.outboundWebhook.delete({ where: { id } });
+  }
+
+  /**
+   * 查询投递记录
+   */
+  async findDeliveries(
+    id: string,
+    paginationDto?: PaginationDto,
+    userId?: string,
+  ): Promise<PaginationResult<OutboundWebhookDelivery>> {
+    await this.findOne(id, userId);
+
+    const { page = 1, limit = 10 } = paginationDto || {};
+    const skip = (page - 1) * limit;
+    const where: Prisma.OutboundWebhookDeliveryWhereInput = { webhookId: id };
+
+    const [deliveries, total] = await Promise.all([
+      this.prisma.outboundWebhookDelivery.findMany({
+        where,
+        skip,
+        take: limit,
+        // 列表不返回请求和响应内容
+        select: {
+          id: true,
+          webhookId: true,
+          event: true,
+          taskId: true,
+          status: true,
+          attempts: true,
+          responseStatus: true,
+          error: true,
+          duration: true,
+          redeliveryOf: true,
+          createdAt: true,
+          deliveredAt: true,
+        },
+        orderBy: { createdAt: 'desc' },
+      }),
+      this.prisma.outboundWebhookDelivery.count({ where }),
+    ]);
+
+    return {
+      data: deliveries as OutboundWebhookDelivery[],
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+      hasNext: page < Math.ceil(total / limit),
+      hasPrev: page > 1,
+    };
+  }
+
+  /**
+   * 查询投递详情
+   */
+  async findDelivery(id: string, deliveryId: string, userId?: string): Promise<OutboundWebhookDelivery> {
+    await this.findOne(id, userId);
+
+    const delivery = await this.prisma.outboundWebhookDelivery.findFirst({
+      where: { id: deliveryId, webhookId: id },
+    });
+    if (!delivery) {
+      throw new NotFoundException('投递记录不存在');
+    }
+
+    return delivery;
+  }
+
+  /**
+   * 使用原始负载重新投递，生成新的投递记录
+   */
+  async resend(id: string, deliveryId: string, userId?: string): Promise<OutboundWebhookDelivery> {
+    const original = await this.findDelivery(id, deliveryId, userId);
+
+    const delivery = await this.prisma.outboundWebhookDelivery.create({
+      data: {
+        webhookId: id,
+        event: original.event,
+        taskId: original.taskId,
+        payload: original.payload as Prisma.InputJsonValue,
+        redeliveryOf: original.id,
+      },
+    });
+    await this.enqueue(delivery.id);
+
+    return delivery;
+  }
+
+  /**
+   * 推送构建事件给订阅者，失败只记录日志，不影响构建流程
+   */
+  async publish(event: OutboundWebhookEvent, task: BuildTask): Promise<void> {
+    try {
+      const subscribers = await this.prisma.outboundWebhook.findMany({
+        where: {
+          enabled: true,
+          OR: [
+            { miniprogramId: task.appId },
+            { miniprogramId: null, user: { miniprograms: { some: { id: task.appId } } } },
+          ],
+        },
+      });
+
+      const payload = this.buildPayload(event, task);
+      for (const webhook of subscribers) {
+        const events = Array.isArray(webhook.events) ? webhook.events : [];
+        if (!events.includes(event)) {
+          continue;
+        }
+
+        const delivery = await this.prisma.outboundWebhookDelivery.create({
+          data: {
+            webhookId: webhook.id,
+            event,
+            taskId: task.id,
+            payload: payload as unknown as Prisma.InputJsonValue,
+          },
+        });
+        await this.enqueue(delivery.id);
+      }
+    } catch (error) {
+      this.logger.error(`推送构建事件 ${event} 失败，任务: ${task.id}: ${error.message}`, error.stack);
+    }
+  }
+
+  /**
+   * 执行一次投递，失败时抛出异常由队列按指数退避重试
+   * @param finalAttempt 是否为最后一次尝试，失败后标记为投递失败
+   */
+  async deliver(deliveryId: string, finalAttempt: boolean): Promise<void> {
+    const delivery = await this.prisma.outboundWebhookDelivery.findUnique({
+      where: { id: deliveryId },
+      include: { webhook: true },
+    });
+    if (!delivery) {
+      this.logger.warn(`投递记录 ${deliveryId} 不存在，跳过`);
+      return;
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const secret = this.encryptionService.decryptSensitiveData(delivery.webhook.secret);
+    const startTime = Date.now();
+    let responseStatus: number | undefined;
+    let responseBody: string | undefined;
+    let error: string | undefined;
+
+    try {
+      const response = await axios.post(delivery.webhook.url, body, {
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'Avocado-Webhook',
+          'X-Avocado-Event': delivery.event,
+          'X-Avocado-Delivery': delivery.id,
+          'X-Avocado-Signature-256': `sha256=${this.sign(secret, body)}`,
+        },
+        timeout: this.configService.get<number>('webhook.outbound.timeout', 10000),
+        maxRedirects: 0,
+        responseType: 'text',
+        validateStatus: () => true,
+      });
+      responseStatus = response.status;
+      responseBody = String(response.data ?? '').substring(0, MAX_RESPONSE_BODY_LENGTH);
+      if (response.status < 200 || response.status >= 300) {
+        error = `接收方返回 HTTP ${response.status}`;
+      }
+    } catch (requestError) {
+      error = requestError.message;
+    }
+
+    const success = !error;
+    await this.prisma.outboundWebhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: success
+          ? OutboundDeliveryStatus.SUCCESS
+          : finalAttempt ? OutboundDeliveryStatus.FAILED : OutboundDeliveryStatus.PENDING,
+        attempts: { increment: 1 },
+        responseStatus: responseStatus ?? null,
+        responseBody: responseBody ?? null,
+        error: error ?? null,
+        duration: Date.now() - startTime,
+        deliveredAt: success ? new Date() : null,
+      },
+    });
+
+    if (!success) {
+      throw new Error(`投递 ${delivery.id} 失败: ${error}`);
+    }
+  }
+
+  private buildPayload(event: OutboundWebhookEvent, task: BuildTask): Record<string, unknown> {
+    // 日志可能很大，通过接口单独获取
+    const { buildLog, ...taskData } = task;
+    return {
+      event,
+      timestamp: new Date().toISOString(),
+      task: taskData,
+      packageSize: task.packageSize,
+      qrcodeUrl: task.qrcodeUrl,
+    };
+  }
+
+  /**
+   * 签名密钥不返回真实值
+   */
+  private sanitize<T extends OutboundWebhook>(webhook: T): T {
+    return { ...webhook, secret: this.maskedSecret };
+  }
+
+  private sign(secret: string, body: string): string {
+    return crypto.createHmac('sha256', secret).update(body).digest('hex');
+  }
+
+  private async enqueue(deliveryId: string): Promise<void> {
+    await this.deliveryQueue.add('deliver', { deliveryId }, {
+      attempts: this.configService.get<number>('webhook.outbound.attempts', 5),
+      backoff: {
+        type: 'exponential',
+        delay: this.configService.get<number>('webhook.outbound.backoff', 10000),
+      },
+      removeOnComplete: 100,
+      removeOnFail: 100,
+    });
+  }
+}
@@ -0,0 +1,28 @@
+import { Process, Processor } from '@nestjs/bull';
+import { Logger } from '@nestjs/common';
+import { Job } from 'bull';
+import {
+  OUTBOUND_WEBHOOK_QUEUE,
+  OutboundDeliveryJobData,
+  OutboundWebhooksService,
+} from '../outbound-webhooks.service';
+
+@Processor(OUTBOUND_WEBHOOK_QUEUE)
+export class OutboundWebhookProcessor {
+  private readonly logger = new Logger(OutboundWebhookProcessor.name);
+
+  constructor(private readonly outboundWebhooksService: OutboundWebhooksService) {}
+
+  @Process('deliver')
+  async handleDeliver(job: Job<OutboundDeliveryJobData>): Promise<void> {
+    // attemptsMade 为已失败的次数
+    const finalAttempt = job.attemptsMade + 1 >= (job.opts.attempts || 1);
+
+    try {
+      await this.outboundWebhooksService.deliver(job.data.deliveryId, finalAttempt);
+    } catch (error) {
+      this.logger.warn(`${error.message}${finalAttempt ? '，已停止重试' : '，等待重试'}`);
+      throw error;
+    }
+  }
+}
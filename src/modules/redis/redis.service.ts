@@ -70,6 +70,14 @@ export class RedisService implements OnModuleInit, OnModuleDestroy {
     }
   }
 
+  /**
+   * 键不存在时设置（可用作分布式锁），设置成功返回 true
+   */
+  async setNx(key: string, value: string, ttl: number): Promise<boolean> {
+    const result = await this.client.set(key, value, { NX: true, EX: ttl });
+    return result === 'OK';
+  }
+
   /**
    * 获取值
    */
@@ -0,0 +1,52 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { BuildType, VersionStrategy, WebhookRuleEvent } from '@prisma/client';
+import { IsBoolean, IsEnum, IsInt, IsOptional, IsString, MaxLength, Min } from 'class-validator';
+
+export class CreateWebhookRuleDto {
+  @ApiPropertyOptional({ description: '规则名称', maxLength: 100 })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  name?: string;
+
+  @ApiProperty({ description: '匹配的事件', enum: WebhookRuleEvent })
+  @IsEnum(WebhookRuleEvent)
+  event: WebhookRuleEvent;
+
+  @ApiProperty({
+    description: '分支或标签的 glob 模式，PR 规则匹配目标分支',
+    example: 'release/*',
+    maxLength: 200,
+  })
+  @IsString()
+  @MaxLength(200)
+  pattern: string;
+
+  @ApiProperty({ description: '构建类型', enum: BuildType })
+  @IsEnum(BuildType)
+  buildType: BuildType;
+
+  @ApiPropertyOptional({ description: '版本策略', enum: VersionStrategy, default: VersionStrategy.KEEP })
+  @IsOptional()
+  @IsEnum(VersionStrategy)
+  versionStrategy?: VersionStrategy;
+
+  @ApiPropertyOptional({
+    description: '版本描述模板，支持 {{branch}} {{tag}} {{commitId}} {{shortCommitId}} {{commitMessage}} {{author}} {{prNumber}} {{prTitle}} {{version}}',
+    example: '{{branch}}@{{shortCommitId}}: {{commitMessage}}',
+  })
+  @IsOptional()
+  @IsString()
+  descriptionTemplate?: string;
+
+  @ApiPropertyOptional({ description: '优先级，数值越小越先匹配', default: 0 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  priority?: number;
+
+  @ApiPropertyOptional({ description: '是否启用', default: true })
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+}
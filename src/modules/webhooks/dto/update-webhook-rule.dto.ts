@@ -0,0 +1,4 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateWebhookRuleDto } from './create-webhook-rule.dto';
+
+export class UpdateWebhookRuleDto extends PartialType(CreateWebhookRuleDto) {}
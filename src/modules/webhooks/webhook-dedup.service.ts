@@ -0,0 +1,96 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { BuildType } from '@prisma/client';
+import { RedisService } from '../redis/redis.service';
+import { WebhookFilterService } from './webhook-filter.service';
+import type { GitEventData } from './webhooks.service';
+
+// 各平台的投递ID请求头
+const DELIVERY_ID_HEADERS = ['x-github-delivery', 'x-gitlab-event-uuid', 'x-gitea-delivery', 'x-gogs-delivery'];
+
+export interface DedupClaim {
+  key: string;
+  duplicate: boolean;
+  taskId?: string; // 重复时为首次投递创建的任务
+}
+
+/**
+ * Webhook 去重
+ * 平台超时重试会重复投递同一事件，通过 Redis 按投递ID以及提交+分支+构建类型去重
+ */
+@Injectable()
+export class WebhookDedupService {
+  private readonly prefix = 'webhook:dedup:';
+  private readonly deliveryTtl = 24 * 60 * 60; // 投递ID保留一天
+  private readonly processing = 'processing';
+  private readonly noTask = '-';
+
+  constructor(
+    private readonly redisService: RedisService,
+    private readonly configService: ConfigService,
+    private readonly webhookFilterService: WebhookFilterService,
+  ) {}
+
+  /**
+   * 认领投递ID，没有投递ID时返回 null
+   */
+  async claimDelivery(provider: string, headers: Record<string, string>): Promise<DedupClaim | null> {
+    const header = DELIVERY_ID_HEADERS.find((name) => headers[name]);
+    if (!header) {
+      return null;
+    }
+
+    return this.claim(`${this.prefix}delivery:${provider}:${headers[header]}`, this.deliveryTtl);
+  }
+
+  /**
+   * 认领一次构建，窗口期内相同最新提交、分支和构建类型只触发一次
+   * 标签事件按标签名去重（GitHub 创建标签会同时发送 create 和 push 事件）
+   */
+  async claimBuild(appId: string, eventData: GitEventData, type: BuildType): Promise<DedupClaim | null> {
+    // 强制推送、新建分支时 commits 可能为空，按推送后的最新提交去重
+    const commitId = eventData.headCommitId || this.webhookFilterService.getHeadCommit(eventData)?.id;
+    const identity = eventData.tag
+      ? `tag:${eventData.tag}`
+      : commitId && `${commitId}:${eventData.branch}`;
+    if (!identity) {
+      return null;
+    }
+
+    return this.claim(`${this.prefix}build:${appId}:${identity}:${type}`, this.getWindow());
+  }
+
+  /**
+   * 处理完成后记录对应的任务，供重复投递返回
+   */
+  async complete(claim: DedupClaim, taskId?: string): Promise<void> {
+    const ttl = await this.redisService.ttl(claim.key);
+    if (ttl > 0) {
+      await this.redisService.set(claim.key, taskId || this.noTask, ttl);
+    }
+  }
+
+  /**
+   * 处理失败时释放，允许平台重试
+   */
+  async release(claim: DedupClaim): Promise<void> {
+    await this.redisService.del(claim.key);
+  }
+
+  private async claim(key: string, ttl: number): Promise<DedupClaim> {
+    if (await this.redisService.setNx(key, this.processing, ttl)) {
+      return { key, duplicate: false };
+    }
+
+    const value = await this.redisService.get(key);
+    return {
+      key,
+      duplicate: true,
+      taskId: value && value !== this.processing && value !== this.noTask ? value : undefined,
+    };
+  }
+
+  private getWindow(): number {
+    return this.configService.get<number>('webhook.dedupWindow', 600);
+  }
+}
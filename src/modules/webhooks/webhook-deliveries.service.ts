@@ -0,0 +1,149 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Prisma, WebhookDelivery } from '@prisma/client';
+import { PaginationDto, PaginationResult } from '../../common/dto/pagination.dto';
+import { PrismaService } from '../prisma/prisma.service';
+import type { SignatureVerification } from './webhook-signature.service';
+import type { GitEventData } from './webhooks.service';
+
+// 直接携带密钥的请求头，保存前脱敏
+const SECRET_HEADERS = ['x-gitlab-token', 'x-gitee-token', 'authorization'];
+
+/**
+ * 处理过程中逐步收集的投递信息
+ */
+export interface WebhookDeliveryRecord {
+  appId: string;
+  provider: string;
+  eventType: string;
+  headers: Record<string, string>;
+  rawBody: string;
+  webhookId?: string;
+  eventData?: GitEventData;
+  signature?: SignatureVerification;
+  triggered?: boolean;
+  reason?: string;
+  success?: boolean;
+  taskId?: string;
+  redeliveryOf?: string;
+  startTime: number;
+}
+
+@Injectable()
+export class WebhookDeliveriesService {
+  private readonly logger = new Logger(WebhookDeliveriesService.name);
+  private readonly maskedValue = '******';
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * 保存投递记录，失败时只记录日志，不影响事件处理结果
+   */
+  async record(record: WebhookDeliveryRecord): Promise<WebhookDelivery | null> {
+    try {
+      return await this.prisma.webhookDelivery.create({
+        data: {
+          appId: record.appId,
+          webhookId: record.webhookId,
+          provider: record.provider,
+          eventType: record.eventType,
+          headers: this.maskHeaders(record.headers),
+          rawBody: record.rawBody,
+          eventData: record.eventData as unknown as Prisma.InputJsonValue,
+          signatureValid: record.signature?.valid,
+          signatureMethod: record.signature?.method,
+          signatureReason: record.signature?.reason,
+          triggered: record.triggered ?? false,
+          reason: record.reason,
+          success: record.success ?? true,
+          taskId: record.taskId,
+          duration: Date.now() - record.startTime,
+          redeliveryOf: record.redeliveryOf,
+        },
+      });
+    } catch (error) {
+      this.logger.error(`保存 Webhook 投递记录失败: ${error.message}`, error.stack);
+      return null;
+    }
+  }
+
+  /**
+   * 查询 Webhook 的投递记录
+   * 同时包含该小程序下没有匹配到任何 Webhook 的投递，便于排查事件未被监听的原因
+   */
+  async findAll(
+    webhookId: string,
+    appId: string,
+    paginationDto?: PaginationDto,
+  ): Promise<PaginationResult<WebhookDelivery>> {
+    const { page = 1, limit = 10 } = paginationDto || {};
+    const skip = (page - 1) * limit;
+
+    const where: Prisma.WebhookDeliveryWhereInput = {
+      OR: [{ webhookId }, { appId, webhookId: null }],
+    };
+
+    const [deliveries, total] = await Promise.all([
+      this.prisma.webhookDelivery.findMany({
+        where,
+        skip,
+        take: limit,
+        // 列表不返回请求体和请求头
+        select: {
+          id: true,
+          appId: true,
+          webhookId: true,
+          provider: true,
+          eventType: true,
+          signatureValid: true,
+          triggered: true,
+          reason: true,
+          success: true,
+          taskId: true,
+          duration: true,
+          redeliveryOf: true,
+          createdAt: true,
+        },
+        orderBy: { createdAt: 'desc' },
+      }),
+      this.prisma.webhookDelivery.count({ where }),
+    ]);
+
+    return {
+      data: deliveries as WebhookDelivery[],
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+      hasNext: page < Math.ceil(total / limit),
+      hasPrev: page > 1,
+    };
+  }
+
+  /**
+   * 查询投递详情
+   */
+  async findOne(webhookId: string, appId: string, id: string): Promise<WebhookDelivery> {
+    const delivery = await this.prisma.webhookDelivery.findFirst({
+      where: {
+        id,
+        OR: [{ webhookId }, { appId, webhookId: null }],
+      },
+    });
+
+    if (!delivery) {
+      throw new NotFoundException('投递记录不存在');
+    }
+
+    return delivery;
+  }
+
+  private maskHeaders(headers: Record<string, string>): Record<string, string> {
+    const masked = { ...headers };
+    for (const name of SECRET_HEADERS) {
+      if (masked[name]) {
+        masked[name] = this.maskedValue;
+      }
+    }
+    return masked;
+  }
+}
@@ -0,0 +1,66 @@
+import { WebhookFilterService } from './webhook-filter.service';
+import type { GitEventData } from './webhooks.service';
+
+describe('WebhookFilterService', () => {
+  const service = new WebhookFilterService();
+
+  const commit = (id: string, message: string, files: Partial<Record<'added' | 'modified' | 'removed', string[]>> = {}) => ({
+    id,
+    message,
+    author: { name: 'alice', email: 'alice@example.com' },
+    timestamp: '2026-10-19T00:00:00Z',
+    url: '',
+    ...files,
+  });
+
+  const event = (commits: GitEventData['commits'], headCommitId?: string): GitEventData => ({
+    eventType: 'push',
+    provider: 'github',
+    repository: { name: 'demo', url: 'https://github.com/acme/demo', defaultBranch: 'main' },
+    branch: 'main',
+    headCommitId,
+    commits,
+  });
+
+  const noFilters = { includePaths: null, excludePaths: null };
+
+  describe('skip markers', () => {
+    it('should skip when the head commit contains [skip ci] or [ci skip]', () => {
+      expect(service.getSkipReason(event([commit('a', 'chore: bump [skip ci]')]), noFilters)).toContain('[skip ci]');
+      expect(service.getSkipReason(event([commit('a', 'chore: bump\n\n[CI SKIP]')]), noFilters)).toContain('[ci skip]');
+    });
+
+    it('should only look at the head commit', () => {
+      const commits = [commit('a', 'wip [skip ci]'), commit('b', 'feat: done')];
+
+      expect(service.getSkipReason(event(commits, 'b'), noFilters)).toBeNull();
+      expect(service.getSkipReason(event(commits, 'a'), noFilters)).toContain('[skip ci]');
+    });
+  });
+
+  describe('path filters', () => {
+    const filters = { includePaths: ['src/**', 'pages/**'], excludePaths: ['src/**/*.md'] };
+
+    it('should build when an included path changed', () => {
+      const data = event([commit('a', 'feat', { modified: ['README.md'] }), commit('b', 'fix', { added: ['pages/index/index.js'] })]);
+
+      expect(service.getSkipReason(data, filters)).toBeNull();
+    });
+
+    it('should skip when no changed file is included', () => {
+      const data = event([commit('a', 'docs', { modified: ['docs/guide.md'], removed: ['src/README.md'] })]);
+
+      expect(service.getSkipReason(data, filters)).toContain('不在构建路径内');
+    });
+
+    it('should skip when every changed file is excluded', () => {
+      const data = event([commit('a', 'docs', { modified: ['docs/guide.md', 'docs/.vuepress/config.js'] })]);
+
+      expect(service.getSkipReason(data, { includePaths: null, excludePaths: ['docs/**'] })).toContain('已被忽略');
+    });
+
+    it('should not filter events without file lists', () => {
+      expect(service.getSkipReason(event([commit('a', 'feat')]), filters)).toBeNull();
+    });
+  });
+});
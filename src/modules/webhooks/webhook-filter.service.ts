@@ -0,0 +1,87 @@
+import { Injectable } from '@nestjs/common';
+import { MiniprogramConfig } from '@prisma/client';
+import { minimatch } from 'minimatch';
+import type { GitEventData } from './webhooks.service';
+
+// 提交信息中跳过构建的标记
+const SKIP_MARKERS = ['[skip ci]', '[ci skip]'];
+
+type PathFilterConfig = Pick<MiniprogramConfig, 'includePaths' | 'excludePaths'>;
+
+/**
+ * 自动构建过滤
+ * 根据最新提交的跳过标记和变更文件决定是否跳过构建，返回跳过原因
+ */
+@Injectable()
+export class WebhookFilterService {
+  /**
+   * 返回跳过构建的原因，不需要跳过时返回 null
+   */
+  getSkipReason(eventData: GitEventData, config: PathFilterConfig): string | null {
+    const marker = this.findSkipMarker(eventData);
+    if (marker) {
+      return `提交信息包含 ${marker}，跳过构建`;
+    }
+
+    return this.checkPaths(eventData, config);
+  }
+
+  /**
+   * 最新提交：优先按 headCommitId 查找，否则取最后一个提交
+   */
+  getHeadCommit(eventData: GitEventData): GitEventData['commits'][number] | undefined {
+    const { commits, headCommitId } = eventData;
+    return commits.find((commit) => commit.id === headCommitId) || commits[commits.length - 1];
+  }
+
+  /**
+   * 汇总所有提交新增、修改和删除的文件
+   */
+  getChangedFiles(eventData: GitEventData): string[] {
+    const files = new Set<string>();
+    for (const commit of eventData.commits) {
+      for (const file of [...(commit.added || []), ...(commit.modified || []), ...(commit.removed || [])]) {
+        files.add(file);
+      }
+    }
+    return [...files];
+  }
+
+  private findSkipMarker(eventData: GitEventData): string | undefined {
+    const message = this.getHeadCommit(eventData)?.message?.toLowerCase() || '';
+    return SKIP_MARKERS.find((marker) => message.includes(marker));
+  }
+
+  private checkPaths(eventData: GitEventData, config: PathFilterConfig): string | null {
+    const includePaths = this.toPatterns(config.includePaths);
+    const excludePaths = this.toPatterns(config.excludePaths);
+    if (includePaths.length === 0 && excludePaths.length === 0) {
+      return null;
+    }
+
+    // 事件不包含文件列表（如 PR、标签创建）时不做路径过滤
+    const files = this.getChangedFiles(eventData);
+    if (files.length === 0) {
+      return null;
+    }
+
+    const matched = files.filter((file) =>
+      (includePaths.length === 0 || this.matchAny(file, includePaths)) && !this.matchAny(file, excludePaths),
+    );
+    if (matched.length > 0) {
+      return null;
+    }
+
+    return includePaths.length > 0
+      ? `变更文件均不在构建路径内（${includePaths.join(', ')}），跳过构建`
+      : `变更文件均已被忽略（${excludePaths.join(', ')}），跳过构建`;
+  }
+
+  private matchAny(file: string, patterns: string[]): boolean {
+    return patterns.some((pattern) => minimatch(file, pattern, { dot: true }));
+  }
+
+  private toPatterns(value: unknown): string[] {
+    return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && !!item) : [];
+  }
+}
@@ -0,0 +1,83 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { User, UserRole } from '@prisma/client';
+import { RequirePermissions } from '../../common/decorators/auth.decorator';
+import { CurrentUser } from '../../common/decorators/user.decorator';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { CreateWebhookRuleDto } from './dto/create-webhook-rule.dto';
+import { UpdateWebhookRuleDto } from './dto/update-webhook-rule.dto';
+import { WebhookRulesService } from './webhook-rules.service';
+
+@ApiTags('Webhooks')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, PermissionsGuard)
+@Controller('miniprograms/:miniprogramId/webhook-rules')
+export class WebhookRulesController {
+  constructor(private readonly webhookRulesService: WebhookRulesService) {}
+
+  @Post()
+  @RequirePermissions('miniprograms:update')
+  @ApiOperation({ summary: '创建Webhook构建规则' })
+  @ApiResponse({ status: 201, description: '构建规则创建成功' })
+  create(
+    @CurrentUser() user: User,
+    @Param('miniprogramId') miniprogramId: string,
+    @Body() createWebhookRuleDto: CreateWebhookRuleDto,
+  ) {
+    const userId = user.role === UserRole.ADMIN ? undefined : user.id;
+    return this.webhookRulesService.create(miniprogramId, createWebhookRuleDto, userId);
+  }
+
+  @Get()
+  @RequirePermissions('miniprograms:read')
+  @ApiOperation({ summary: '获取Webhook构建规则列表（按匹配顺序）' })
+  @ApiResponse({ status: 200, description: '获取构建规则列表成功' })
+  findAll(@CurrentUser() user: User, @Param('miniprogramId') miniprogramId: string) {
+    const userId = user.role === UserRole.ADMIN ? undefined : user.id;
+    return this.webhookRulesService.findAll(miniprogramId, userId);
+  }
+
+  @Patch(':id')
+  @RequirePermissions('miniprograms:update')
+  @ApiOperation({ summary: '更新Webhook构建规则' })
+  @ApiResponse({ status: 200, description: '构建规则更新成功' })
+  @ApiResponse({ status: 404, description: '构建规则不存在' })
+  update(
+    @CurrentUser() user: User,
+    @Param('miniprogramId') miniprogramId: string,
+    @Param('id') id: string,
+    @Body() updateWebhookRuleDto: UpdateWebhookRuleDto,
+  ) {
+    const userId = user.role === UserRole.ADMIN ? undefined : user.id;
+    return this.webhookRulesService.update(miniprogramId, id, updateWebhookRuleDto, userId);
+  }
+
+  @Delete(':id')
+  @RequirePermissions('miniprograms:update')
+  @ApiOperation({ summary: '删除Webhook构建规则' })
+  @ApiResponse({ status: 200, description: '构建规则删除成功' })
+  @ApiResponse({ status: 404, description: '构建规则不存在' })
+  remove(
+    @CurrentUser() user: User,
+    @Param('miniprogramId') miniprogramId: string,
+    @Param('id') id: string,
+  ) {
+    const userId = user.role === UserRole.ADMIN ? undefined : user.id;
+    return this.webhookRulesService.remove(miniprogramId, id, userId);
+  }
+}
@@ -0,0 +1,121 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BuildType, VersionStrategy, WebhookRule, WebhookRuleEvent } from '@prisma/client';
+import { MiniprogramsService } from '../miniprograms/miniprograms.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { WebhookFilterService } from './webhook-filter.service';
+import { WebhookRulesService } from './webhook-rules.service';
+import { GitEventData } from './webhooks.service';
+
+describe('WebhookRulesService', () => {
+  let service: WebhookRulesService;
+
+  const rule = (data: Partial<WebhookRule>): WebhookRule => ({
+    id: data.pattern,
+    miniprogramId: 'mp-1',
+    name: null,
+    event: WebhookRuleEvent.PUSH,
+    pattern: '*',
+    buildType: BuildType.PREVIEW,
+    versionStrategy: VersionStrategy.KEEP,
+    descriptionTemplate: null,
+    priority: 0,
+    enabled: true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...data,
+  });
+
+  const event = (data: Partial<GitEventData>): GitEventData => ({
+    eventType: 'push',
+    provider: 'github',
+    repository: { name: 'repo', url: 'https://github.com/acme/repo', defaultBranch: 'main' },
+    branch: 'main',
+    commits: [
+      {
+        id: '0123456789abcdef',
+        message: 'feat: add login page\n\nbody',
+        author: { name: 'alice', email: 'alice@example.com' },
+        timestamp: '2026-10-19T00:00:00Z',
+        url: '',
+      },
+    ],
+    ...data,
+  });
+
+  const rules = [
+    rule({ pattern: 'release/*', buildType: BuildType.UPLOAD, versionStrategy: VersionStrategy.PATCH }),
+    rule({ pattern: 'develop' }),
+    rule({ event: WebhookRuleEvent.TAG, pattern: 'v*', buildType: BuildType.UPLOAD, versionStrategy: VersionStrategy.TAG }),
+    rule({ event: WebhookRuleEvent.PULL_REQUEST, pattern: 'main' }),
+  ];
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WebhookRulesService,
+        { provide: PrismaService, useValue: {} },
+        { provide: MiniprogramsService, useValue: { findOne: jest.fn() } },
+        WebhookFilterService,
+      ],
+    }).compile();
+
+    service = module.get<WebhookRulesService>(WebhookRulesService);
+  });
+
+  describe('match', () => {
+    it('should map branch pushes by glob pattern', () => {
+      expect(service.match(rules, event({ branch: 'release/1.2' }))?.buildType).toBe(BuildType.UPLOAD);
+      expect(service.match(rules, event({ branch: 'develop' }))?.buildType).toBe(BuildType.PREVIEW);
+      expect(service.match(rules, event({ branch: 'feature/login' }))).toBeNull();
+    });
+
+    it('should match tags only against tag rules', () => {
+      const matched = service.match(rules, event({ eventType: 'tag', branch: 'v1.2.3', tag: 'v1.2.3' }));
+
+      expect(matched?.event).toBe(WebhookRuleEvent.TAG);
+      expect(matched?.versionStrategy).toBe(VersionStrategy.TAG);
+    });
+
+    it('should match open pull requests by target branch', () => {
+      const pullRequest = {
+        id: 1,
+        number: 7,
+        title: 'Add login page',
+        state: 'open',
+        merged: false,
+        headRef: 'feature/login',
+        baseRef: 'main',
+        fork: false,
+        user: { login: 'alice' },
+      };
+
+      expect(service.match(rules, event({ eventType: 'pull_request', pullRequest }))?.event)
+        .toBe(WebhookRuleEvent.PULL_REQUEST);
+      expect(service.match(rules, event({ eventType: 'pull_request', pullRequest: { ...pullRequest, state: 'closed' } })))
+        .toBeNull();
+    });
+  });
+
+  describe('renderDescription', () => {
+    it('should fill known variables and blank unknown ones', () => {
+      const result = service.renderDescription(
+        '{{ branch }}@{{shortCommitId}} v{{version}}: {{commitMessage}}{{unknown}}',
+        event({ branch: 'release/1.2' }),
+        '1.2.0',
+      );
+
+      expect(result).toBe('release/1.2@0123456 v1.2.0: feat: add login page');
+    });
+
+    it('should describe the head commit of a multi-commit push', () => {
+      const data = event({});
+      const head = { ...data.commits[0], id: 'fedcba9876543210', message: 'fix: login redirect', author: { name: 'bob', email: '' } };
+      const template = '{{shortCommitId}} {{commitMessage}} by {{author}}';
+
+      expect(service.renderDescription(template, { ...data, commits: [...data.commits, head], headCommitId: head.id }, '1.0.0'))
+        .toBe('fedcba9 fix: login redirect by bob');
+      expect(service.renderDescription('{{commitId}}', { ...data, commits: [], headCommitId: 'abc1234' }, '1.0.0'))
+        .toBe('abc1234');
+    });
+  });
+});
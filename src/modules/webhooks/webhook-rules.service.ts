@@ -0,0 +1,163 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { WebhookRule, WebhookRuleEvent } from '@prisma/client';
+import { minimatch } from 'minimatch';
+import { MiniprogramsService } from '../miniprograms/miniprograms.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { CreateWebhookRuleDto } from './dto/create-webhook-rule.dto';
+import { UpdateWebhookRuleDto } from './dto/update-webhook-rule.dto';
+import { WebhookFilterService } from './webhook-filter.service';
+import type { GitEventData } from './webhooks.service';
+
+// 处于打开状态的 PR/MR（GitHub 为 open，GitLab 为 opened）
+const OPEN_PULL_REQUEST_STATES = ['open', 'opened', 'reopened'];
+
+// 需要构建预览的 PR 动作：新建、推送新提交、重新打开
+const PREVIEW_PULL_REQUEST_ACTIONS = ['opened', 'synchronize', 'reopened'];
+
+/**
+ * PR 是否需要构建预览，编辑标题等动作不触发
+ */
+export const isPreviewablePullRequest = (pullRequest?: GitEventData['pullRequest']): boolean =>
+  !!pullRequest
+  && !pullRequest.merged
+  && OPEN_PULL_REQUEST_STATES.includes(pullRequest.state)
+  && (!pullRequest.action || PREVIEW_PULL_REQUEST_ACTIONS.includes(pullRequest.action));
+
+@Injectable()
+export class WebhookRulesService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly miniprogramsService: MiniprogramsService,
+    private readonly webhookFilterService: WebhookFilterService,
+  ) {}
+
+  /**
+   * 创建构建规则
+   */
+  async create(miniprogramId: string, createWebhookRuleDto: CreateWebhookRuleDto, userId?: string): Promise<WebhookRule> {
+    await this.ensureMiniprogram(miniprogramId, userId);
+
+    return this.prisma.webhookRule.create({
+      data: {
+        ...createWebhookRuleDto,
+        miniprogramId,
+      },
+    });
+  }
+
+  /**
+   * 查询小程序的构建规则（按匹配顺序）
+   */
+  async findAll(miniprogramId: string, userId?: string): Promise<WebhookRule[]> {
+    await this.ensureMiniprogram(miniprogramId, userId);
+    return this.findRules(miniprogramId);
+  }
+
+  /**
+   * 更新构建规则
+   */
+  async update(
+    miniprogramId: string,
+    id: string,
+    updateWebhookRuleDto: UpdateWebhookRuleDto,
+    userId?: string,
+  ): Promise<WebhookRule> {
+    await this.findRule(miniprogramId, id, userId);
+
+    return this.prisma.webhookRule.update({
+      where: { id },
+      data: updateWebhookRuleDto,
+    });
+  }
+
+  /**
+   * 删除构建规则
+   */
+  async remove(miniprogramId: string, id: string, userId?: string): Promise<void> {
+    await this.findRule(miniprogramId, id, userId);
+    await this.prisma.webhookRule.delete({ where: { id } });
+  }
+
+  /**
+   * 获取已启用的规则，按优先级排序
+   */
+  findEnabled(miniprogramId: string): Promise<WebhookRule[]> {
+    return this.findRules(miniprogramId, true);
+  }
+
+  /**
+   * 返回第一条匹配事件的规则
+   */
+  match(rules: WebhookRule[], eventData: GitEventData): WebhookRule | null {
+    return rules.find((rule) => this.matchRule(rule, eventData)) || null;
+  }
+
+  /**
+   * 渲染版本描述模板，未知变量替换为空
+   */
+  renderDescription(template: string, eventData: GitEventData, version: string): string {
+    const commit = this.webhookFilterService.getHeadCommit(eventData);
+    const commitId = commit?.id || eventData.headCommitId;
+    const variables: Record<string, string | number | undefined> = {
+      event: eventData.eventType,
+      branch: eventData.branch,
+      tag: eventData.tag,
+      commitId,
+      shortCommitId: commitId?.substring(0, 7),
+      commitMessage: commit?.message?.split('\n')[0],
+      author: commit?.author?.name || eventData.pusher?.name || eventData.pullRequest?.user.login,
+      prNumber: eventData.pullRequest?.number,
+      prTitle: eventData.pullRequest?.title,
+      version,
+    };
+
+    return template
+      .replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => String(variables[name] ?? ''))
+      .trim();
+  }
+
+  private matchRule(rule: WebhookRule, eventData: GitEventData): boolean {
+    switch (rule.event) {
+      case WebhookRuleEvent.PUSH:
+        return eventData.eventType === 'push' && minimatch(eventData.branch, rule.pattern);
+
+      case WebhookRuleEvent.TAG:
+        return eventData.eventType === 'tag' && !!eventData.tag && minimatch(eventData.tag, rule.pattern);
+
+      case WebhookRuleEvent.PULL_REQUEST:
+        return eventData.eventType === 'pull_request'
+          && isPreviewablePullRequest(eventData.pullRequest)
+          && minimatch(eventData.pullRequest.baseRef, rule.pattern);
+
+      default:
+        return false;
+    }
+  }
+
+  private findRules(miniprogramId: string, enabledOnly = false): Promise<WebhookRule[]> {
+    return this.prisma.webhookRule.findMany({
+      where: {
+        miniprogramId,
+        ...(enabledOnly && { enabled: true }),
+      },
+      orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  private async findRule(miniprogramId: string, id: string, userId?: string): Promise<WebhookRule> {
+    await this.ensureMiniprogram(miniprogramId, userId);
+
+    const rule = await this.prisma.webhookRule.findFirst({
+      where: { id, miniprogramId },
+    });
+    if (!rule) {
+      throw new NotFoundException('构建规则不存在');
+    }
+    return rule;
+  }
+
+  private async ensureMiniprogram(miniprogramId: string, userId?: string): Promise<void> {
+    // 不存在或无权限时抛出 NotFoundException
+    await this.miniprogramsService.findOne(miniprogramId, userId);
+  }
+}
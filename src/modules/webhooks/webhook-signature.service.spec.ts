@@ -0,0 +1,52 @@
+import * as crypto from 'crypto';
+import { WebhookSignatureService } from './webhook-signature.service';
+
+describe('WebhookSignatureService', () => {
+  const service = new WebhookSignatureService();
+  const secret = 'top-secret';
+  const body = Buffer.from('{"ref":"refs/heads/main"}');
+
+  const hmac = (algorithm: string, data: string | Buffer, encoding: 'hex' | 'base64' = 'hex') =>
+    crypto.createHmac(algorithm, secret).update(data).digest(encoding);
+
+  it('should refuse requests without any signature header', () => {
+    const result = service.verify(secret, body, {});
+
+    expect(result.valid).toBe(false);
+  });
+
+  it('should verify GitHub and Coding HMAC signatures', () => {
+    expect(service.verify(secret, body, { 'x-hub-signature-256': `sha256=${hmac('sha256', body)}` }).valid).toBe(true);
+    expect(service.verify(secret, body, { 'x-coding-signature': `sha1=${hmac('sha1', body)}` }).valid).toBe(true);
+    expect(service.verify(secret, Buffer.from('{}'), { 'x-hub-signature-256': `sha256=${hmac('sha256', body)}` }).valid)
+      .toBe(false);
+  });
+
+  it('should verify Gitea and Gogs signatures without prefix', () => {
+    expect(service.verify(secret, body, { 'x-gitea-signature': hmac('sha256', body) }).method).toBe('gitea-sha256');
+    expect(service.verify(secret, body, { 'x-gogs-signature': hmac('sha256', body) }).valid).toBe(true);
+  });
+
+  it('should support Gitee password mode', () => {
+    expect(service.verify(secret, body, { 'x-gitee-token': secret }).valid).toBe(true);
+    expect(service.verify(secret, body, { 'x-gitee-token': 'wrong' }).valid).toBe(false);
+  });
+
+  it('should support Gitee signature mode and reject stale timestamps', () => {
+    const timestamp = String(Date.now());
+    const sign = hmac('sha256', `${timestamp}\n${secret}`, 'base64');
+
+    const result = service.verify(secret, body, {
+      'x-gitee-token': encodeURIComponent(sign),
+      'x-gitee-timestamp': timestamp,
+    });
+    expect(result).toMatchObject({ valid: true, method: 'gitee-signature' });
+
+    const staleTimestamp = String(Date.now() - 2 * 60 * 60 * 1000);
+    const stale = service.verify(secret, body, {
+      'x-gitee-token': hmac('sha256', `${staleTimestamp}\n${secret}`, 'base64'),
+      'x-gitee-timestamp': staleTimestamp,
+    });
+    expect(stale.valid).toBe(false);
+  });
+});
@@ -0,0 +1,108 @@
+import { Injectable } from '@nestjs/common';
+import * as crypto from 'crypto';
+
+export interface SignatureVerification {
+  valid: boolean;
+  method?: string; // 实际使用的校验方式
+  reason: string;
+}
+
+/**
+ * Webhook 签名校验
+ * 按平台约定的请求头校验原始请求体，配置了密钥但请求未携带签名时一律拒绝
+ */
+@Injectable()
+export class WebhookSignatureService {
+  // Gitee 签名模式的时间戳有效期
+  private readonly giteeTimestampTolerance = 60 * 60 * 1000;
+
+  verify(
+    secret: string,
+    rawBody: Buffer | string,
+    headers: Record<string, string>,
+  ): SignatureVerification {
+    const body = Buffer.isBuffer(rawBody) ? rawBody : Buffer.from(rawBody);
+
+    // GitHub
+    if (headers['x-hub-signature-256']) {
+      return this.verifyHmac('github-sha256', headers['x-hub-signature-256'], `sha256=${this.hmac('sha256', secret, body)}`);
+    }
+    if (headers['x-hub-signature']) {
+      return this.verifyHmac('github-sha1', headers['x-hub-signature'], `sha1=${this.hmac('sha1', secret, body)}`);
+    }
+
+    // GitLab 直接传递密钥
+    if (headers['x-gitlab-token']) {
+      return this.verifyToken('gitlab-token', headers['x-gitlab-token'], secret);
+    }
+
+    // Gitee 密码模式或签名模式
+    if (headers['x-gitee-token']) {
+      return headers['x-gitee-timestamp']
+        ? this.verifyGiteeSignature(secret, headers['x-gitee-token'], headers['x-gitee-timestamp'])
+        : this.verifyToken('gitee-password', headers['x-gitee-token'], secret);
+    }
+
+    // Coding
+    if (headers['x-coding-signature']) {
+      return this.verifyHmac('coding-sha1', headers['x-coding-signature'], `sha1=${this.hmac('sha1', secret, body)}`);
+    }
+
+    // Gitea / Gogs
+    if (headers['x-gitea-signature']) {
+      return this.verifyHmac('gitea-sha256', headers['x-gitea-signature'], this.hmac('sha256', secret, body));
+    }
+    if (headers['x-gogs-signature']) {
+      return this.verifyHmac('gogs-sha256', headers['x-gogs-signature'], this.hmac('sha256', secret, body));
+    }
+
+    return { valid: false, reason: '已配置密钥，但请求未携带签名' };
+  }
+
+  /**
+   * Gitee 签名模式：sign = Base64(HmacSHA256(secret, timestamp + "\n" + secret))，传输时可能经过 URL 编码
+   */
+  private verifyGiteeSignature(secret: string, token: string, timestamp: string): SignatureVerification {
+    const method = 'gitee-signature';
+    const time = Number(timestamp);
+    if (!Number.isFinite(time) || Math.abs(Date.now() - time) > this.giteeTimestampTolerance) {
+      return { valid: false, method, reason: '签名时间戳无效或已过期' };
+    }
+
+    const expected = crypto
+      .createHmac('sha256', secret)
+      .update(`${timestamp}\n${secret}`)
+      .digest('base64');
+
+    let received = token;
+    try {
+      received = decodeURIComponent(token);
+    } catch {
+      // 未编码的签名直接比较
+    }
+
+    return this.verifyHmac(method, received, expected);
+  }
+
+  private verifyHmac(method: string, received: string, expected: string): SignatureVerification {
+    return this.safeEqual(received, expected)
+      ? { valid: true, method, reason: '签名校验通过' }
+      : { valid: false, method, reason: '签名不匹配' };
+  }
+
+  private verifyToken(method: string, received: string, secret: string): SignatureVerification {
+    return this.safeEqual(received, secret)
+      ? { valid: true, method, reason: '令牌校验通过' }
+      : { valid: false, method, reason: '令牌不匹配' };
+  }
+
+  private hmac(algorithm: 'sha1' | 'sha256', secret: string, body: Buffer): string {
+    return crypto.createHmac(algorithm, secret).update(body).digest('hex');
+  }
+
+  private safeEqual(a: string, b: string): boolean {
+    const bufferA = Buffer.from(a);
+    const bufferB = Buffer.from(b);
+    return bufferA.length === bufferB.length && crypto.timingSafeEqual(bufferA, bufferB);
+  }
+}
@@ -12,10 +12,13 @@ import {
   Patch,
   Post,
   Query,
+  RawBodyRequest,
+  Req,
   Request,
   UseGuards,
 } from '@nestjs/common';
 import { ApiBearerAuth, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Request as ExpressRequest } from 'express';
 import { PaginationDto } from '../../common/dto/pagination.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { CreateWebhookDto } from './dto/create-webhook.dto';
@@ -152,6 +155,48 @@ export class WebhooksController {
     return this.webhooksService.testWebhook(id, req.user.id);
   }
 
+  @Get(':id/deliveries')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: '获取 Webhook 投递记录' })
+  @ApiResponse({ status: 200, description: '获取成功' })
+  async findDeliveries(
+    @Request() req: any,
+    @Param('id') id: string,
+    @Query() paginationDto: PaginationDto,
+  ) {
+    return this.webhooksService.findDeliveries(id, paginationDto, req.user.id);
+  }
+
+  @Get(':id/deliveries/:deliveryId')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: '获取 Webhook 投递详情' })
+  @ApiResponse({ status: 200, description: '获取成功' })
+  @ApiResponse({ status: 404, description: '投递记录不存在' })
+  async findDelivery(
+    @Request() req: any,
+    @Param('id') id: string,
+    @Param('deliveryId') deliveryId: string,
+  ) {
+    return this.webhooksService.findDelivery(id, deliveryId, req.user.id);
+  }
+
+  @Post(':id/deliveries/:deliveryId/redeliver')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: '重新投递 Webhook 事件' })
+  @ApiResponse({ status: 200, description: '重新投递完成' })
+  @ApiResponse({ status: 404, description: '投递记录不存在' })
+  async redeliver(
+    @Request() req: any,
+    @Param('id') id: string,
+    @Param('deliveryId') deliveryId: string,
+  ) {
+    return this.webhooksService.redeliver(id, deliveryId, req.user.id);
+  }
+
   // 接收 Git 仓库事件的公开端点
   @Post('events/:appId')
   @HttpCode(HttpStatus.OK)
@@ -161,6 +206,7 @@ export class WebhooksController {
     @Param('appId') appId: string,
     @Body() payload: any,
     @Headers() headers: Record<string, string>,
+    @Req() req: RawBodyRequest<ExpressRequest>,
   ) {
     try {
       this.logger.log(`接收到 Git 事件，小程序ID: ${appId}`);
@@ -173,12 +219,16 @@ export class WebhooksController {
         throw new BadRequestException('无法识别的事件类型');
       }
 
-      // 处理事件
+      // 通用端点根据请求头识别平台
+      const provider = headers['x-git-provider'] || this.detectProvider(headers);
+
+      // 处理事件，签名基于原始请求体校验
       const result = await this.webhooksService.handleGitEvent(
         appId,
         eventType,
         payload,
-        headers,
+        { ...headers, 'x-git-provider': provider },
+        req.rawBody,
       );
 
       return {
@@ -200,6 +250,7 @@ export class WebhooksController {
     @Param('appId') appId: string,
     @Body() payload: any,
     @Headers() headers: Record<string, string>,
+    @Req() req: RawBodyRequest<ExpressRequest>,
   ) {
     const eventType = headers['x-github-event'];
     if (!eventType) {
@@ -210,7 +261,7 @@ export class WebhooksController {
       ...headers,
       'x-event-type': eventType,
       'x-git-provider': 'github',
-    });
+    }, req);
   }
 
   // GitLab Webhook 端点
@@ -221,6 +272,7 @@ export class WebhooksController {
     @Param('appId') appId: string,
     @Body() payload: any,
     @Headers() headers: Record<string, string>,
+    @Req() req: RawBodyRequest<ExpressRequest>,
   ) {
     const eventType = headers['x-gitlab-event'];
     if (!eventType) {
@@ -231,7 +283,7 @@ export class WebhooksController {
       ...headers,
       'x-event-type': eventType,
       'x-git-provider': 'gitlab',
-    });
+    }, req);
   }
 
   // Gitee Webhook 端点
@@ -242,6 +294,7 @@ export class WebhooksController {
     @Param('appId') appId: string,
     @Body() payload: any,
     @Headers() headers: Record<string, string>,
+    @Req() req: RawBodyRequest<ExpressRequest>,
   ) {
     const eventType = headers['x-gitee-event'];
     if (!eventType) {
@@ -252,13 +305,113 @@ export class WebhooksController {
       ...headers,
       'x-event-type': eventType,
       'x-git-provider': 'gitee',
-    });
+    }, req);
+  }
+
+  // Gitea Webhook 端点
+  @Post('gitea/:appId')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: '接收 Gitea Webhook 事件' })
+  async handleGiteaEvent(
+    @Param('appId') appId: string,
+    @Body() payload: any,
+    @Headers() headers: Record<string, string>,
+    @Req() req: RawBodyRequest<ExpressRequest>,
+  ) {
+    const eventType = headers['x-gitea-event'];
+    if (!eventType) {
+      throw new BadRequestException('缺少 Gitea 事件类型');
+    }
+
+    return this.handleGitEvent(appId, payload, {
+      ...headers,
+      'x-event-type': eventType,
+      'x-git-provider': 'gitea',
+    }, req);
+  }
+
+  // Gogs Webhook 端点
+  @Post('gogs/:appId')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: '接收 Gogs Webhook 事件' })
+  async handleGogsEvent(
+    @Param('appId') appId: string,
+    @Body() payload: any,
+    @Headers() headers: Record<string, string>,
+    @Req() req: RawBodyRequest<ExpressRequest>,
+  ) {
+    const eventType = headers['x-gogs-event'];
+    if (!eventType) {
+      throw new BadRequestException('缺少 Gogs 事件类型');
+    }
+
+    return this.handleGitEvent(appId, payload, {
+      ...headers,
+      'x-event-type': eventType,
+      'x-git-provider': 'gogs',
+    }, req);
+  }
+
+  // Coding Webhook 端点
+  @Post('coding/:appId')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: '接收 Coding Webhook 事件' })
+  async handleCodingEvent(
+    @Param('appId') appId: string,
+    @Body() payload: any,
+    @Headers() headers: Record<string, string>,
+    @Req() req: RawBodyRequest<ExpressRequest>,
+  ) {
+    const eventType = headers['x-coding-event'];
+    if (!eventType) {
+      throw new BadRequestException('缺少 Coding 事件类型');
+    }
+
+    return this.handleGitEvent(appId, payload, {
+      ...headers,
+      'x-event-type': eventType,
+      'x-git-provider': 'coding',
+    }, req);
+  }
+
+  /**
+   * 从请求头中识别 Git 平台
+   */
+  private detectProvider(headers: Record<string, string>): string {
+    // Gitea 同时发送 X-GitHub-Event 和 X-Gogs-Event 兼容头，需要优先判断
+    if (headers['x-gitea-event']) {
+      return 'gitea';
+    }
+    if (headers['x-gogs-event']) {
+      return 'gogs';
+    }
+    if (headers['x-github-event']) {
+      return 'github';
+    }
+    if (headers['x-gitlab-event']) {
+      return 'gitlab';
+    }
+    if (headers['x-gitee-event']) {
+      return 'gitee';
+    }
+    if (headers['x-coding-event']) {
+      return 'coding';
+    }
+    return 'unknown';
   }
 
   /**
    * 从请求头中提取事件类型
    */
   private extractEventType(headers: Record<string, string>): string | null {
+    // Gitea / Gogs（同时携带 GitHub 兼容头，需要优先判断）
+    if (headers['x-gitea-event']) {
+      return headers['x-gitea-event'];
+    }
+    if (headers['x-gogs-event']) {
+      return headers['x-gogs-event'];
+    }
+
     // GitHub
     if (headers['x-github-event']) {
       return headers['x-github-event'];
@@ -274,6 +427,11 @@ export class WebhooksController {
       return headers['x-gitee-event'];
     }
 
+    // Coding
+    if (headers['x-coding-event']) {
+      return headers['x-coding-event'];
+    }
+
     // 通用事件类型
     if (headers['x-event-type']) {
       return headers['x-event-type'];
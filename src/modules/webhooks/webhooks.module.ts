@@ -1,18 +1,33 @@
 import { Module } from '@nestjs/common';
 import { WebhooksService } from './webhooks.service';
 import { WebhooksController } from './webhooks.controller';
+import { WebhookRulesService } from './webhook-rules.service';
+import { WebhookRulesController } from './webhook-rules.controller';
+import { WebhookSignatureService } from './webhook-signature.service';
+import { WebhookDeliveriesService } from './webhook-deliveries.service';
+import { WebhookDedupService } from './webhook-dedup.service';
+import { WebhookFilterService } from './webhook-filter.service';
 import { PrismaModule } from '../prisma/prisma.module';
+import { AuthModule } from '../auth/auth.module';
 import { BuildTasksModule } from '../build-tasks/build-tasks.module';
 import { MiniprogramsModule } from '../miniprograms/miniprograms.module';
 
 @Module({
   imports: [
     PrismaModule,
+    AuthModule,
     BuildTasksModule,
     MiniprogramsModule,
   ],
-  controllers: [WebhooksController],
-  providers: [WebhooksService],
-  exports: [WebhooksService],
+  controllers: [WebhooksController, WebhookRulesController],
+  providers: [
+    WebhooksService,
+    WebhookRulesService,
+    WebhookSignatureService,
+    WebhookDeliveriesService,
+    WebhookDedupService,
+    WebhookFilterService,
+  ],
+  exports: [WebhooksService, WebhookRulesService],
 })
 export class WebhooksModule {}
\ No newline at end of file
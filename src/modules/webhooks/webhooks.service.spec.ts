@@ -0,0 +1,558 @@
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import * as crypto from 'crypto';
+import { BuildType, TriggerType, VersionStrategy } from '@prisma/client';
+import { BuildTasksService } from '../build-tasks/build-tasks.service';
+import { PullRequestPreviewService } from '../build-tasks/services/pull-request-preview.service';
+import { MiniprogramsService } from '../miniprograms/miniprograms.service';
+import { VersionService } from '../miniprograms/version.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { RedisService } from '../redis/redis.service';
+import { WebhookRulesService } from './webhook-rules.service';
+import { WebhookDedupService } from './webhook-dedup.service';
+import { WebhookFilterService } from './webhook-filter.service';
+import { WebhookDeliveriesService } from './webhook-deliveries.service';
+import { WebhookSignatureService } from './webhook-signature.service';
+import { WebhooksService } from './webhooks.service';
+
+describe('WebhooksService', () => {
+  let service: WebhooksService;
+
+  const repository = {
+    name: 'repo',
+    html_url: 'https://github.com/acme/repo',
+    default_branch: 'main',
+  };
+
+  const mockPrisma = {
+    webhook: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    user: {
+      findUnique: jest.fn(),
+    },
+    webhookRule: {
+      findMany: jest.fn(),
+    },
+    webhookDelivery: {
+      create: jest.fn(async ({ data }) => ({ id: 'delivery-1', createdAt: new Date(), ...data })),
+      findFirst: jest.fn(),
+    },
+  };
+
+  const mockMiniprogramsService = {
+    findOne: jest.fn(async (): Promise<any> => ({
+      id: 'mp-1',
+      name: 'demo',
+      userId: 'user-1',
+      config: { autoBuild: true, gitBranch: 'main' },
+    })),
+  };
+
+  const mockVersionService = {
+    reserve: jest.fn(async (id: string, options: any) => ({ version: options.tag || '1.0.1' })),
+    release: jest.fn(),
+  };
+
+  // 内存版 Redis，仅实现去重用到的命令
+  let store: Map<string, string>;
+  const mockRedisService = {
+    setNx: jest.fn(async (key: string, value: string) => {
+      if (store.has(key)) {
+        return false;
+      }
+      store.set(key, value);
+      return true;
+    }),
+    get: jest.fn(async (key: string) => store.get(key) ?? null),
+    set: jest.fn(async (key: string, value: string) => {
+      store.set(key, value);
+    }),
+    ttl: jest.fn(async (key: string) => (store.has(key) ? 600 : -2)),
+    del: jest.fn(async (key: string) => Number(store.delete(key))),
+  };
+
+  const mockBuildTasksService = {
+    create: jest.fn(async (userId: string, dto: any) => ({ id: 'task-1', ...dto })),
+    cancelPullRequestPreviews: jest.fn(async () => 0),
+  };
+
+  const mockPullRequestPreviewService = {
+    track: jest.fn(),
+    close: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    store = new Map();
+    mockPrisma.webhook.findMany.mockResolvedValue([
+      { id: 'wh-1', appId: 'mp-1', events: ['push', 'tag'], secret: null },
+    ]);
+    mockPrisma.webhookRule.findMany.mockResolvedValue([]);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WebhooksService,
+        WebhookRulesService,
+        WebhookSignatureService,
+        WebhookDeliveriesService,
+        WebhookDedupService,
+        WebhookFilterService,
+        { provide: RedisService, useValue: mockRedisService },
+        { provide: ConfigService, useValue: { get: jest.fn((key: string, defaultValue?: any) => defaultValue) } },
+        { provide: PrismaService, useValue: mockPrisma },
+        { provide: MiniprogramsService, useValue: mockMiniprogramsService },
+        { provide: BuildTasksService, useValue: mockBuildTasksService },
+        { provide: PullRequestPreviewService, useValue: mockPullRequestPreviewService },
+        { provide: VersionService, useValue: mockVersionService },
+      ],
+    }).compile();
+
+    service = module.get<WebhooksService>(WebhooksService);
+  });
+
+  const expectTagUpload = (tag: string) => {
+    expect(mockVersionService.reserve).toHaveBeenCalledWith('mp-1', expect.objectContaining({
+      strategy: VersionStrategy.TAG,
+      type: BuildType.UPLOAD,
+      tag,
+    }));
+    expect(mockBuildTasksService.create).toHaveBeenCalledWith('user-1', expect.objectContaining({
+      type: BuildType.UPLOAD,
+      branch: tag,
+      tag,
+      version: tag,
+      triggerType: TriggerType.WEBHOOK,
+    }), expect.anything());
+  };
+
+  describe('tag events', () => {
+    it('should build GitHub tag pushes from the tag instead of a refs/tags branch', async () => {
+      const result = await service.handleGitEvent('mp-1', 'push', {
+        ref: 'refs/tags/v1.2.3',
+        deleted: false,
+        repository,
+        commits: [],
+        head_commit: {
+          id: 'abc123',
+          message: 'release',
+          author: { name: 'alice', email: 'alice@example.com' },
+          timestamp: '2026-10-19T00:00:00Z',
+          url: '',
+        },
+        pusher: { name: 'alice', email: 'alice@example.com' },
+      }, { 'x-git-provider': 'github' });
+
+      expect(result.triggered).toBe(true);
+      expectTagUpload('v1.2.3');
+    });
+
+    it('should build GitHub create events for tags only', async () => {
+      await service.handleGitEvent('mp-1', 'create', {
+        ref: 'v2.0.0',
+        ref_type: 'tag',
+        repository,
+        sender: { login: 'alice' },
+      }, { 'x-git-provider': 'github' });
+
+      expectTagUpload('v2.0.0');
+
+      const result = await service.handleGitEvent('mp-1', 'create', {
+        ref: 'feature/x',
+        ref_type: 'branch',
+        repository,
+        sender: { login: 'alice' },
+      }, { 'x-git-provider': 'github' });
+
+      expect(result.triggered).toBe(false);
+    });
+
+    it('should parse GitLab Tag Push Hook and ignore tag deletion', async () => {
+      const payload = {
+        ref: 'refs/tags/v3.0.0',
+        checkout_sha: 'def456',
+        message: 'Release 3.0',
+        user_name: 'bob',
+        user_email: 'bob@example.com',
+        project: { name: 'repo', web_url: 'https://gitlab.com/acme/repo', default_branch: 'main' },
+        commits: [],
+      };
+
+      await service.handleGitEvent('mp-1', 'Tag Push Hook', payload, { 'x-git-provider': 'gitlab' });
+
+      expectTagUpload('v3.0.0');
+      expect(mockBuildTasksService.create.mock.calls[0][1]).toMatchObject({ commitId: 'def456' });
+
+      const deleted = await service.handleGitEvent(
+        'mp-1',
+        'Tag Push Hook',
+        { ...payload, checkout_sha: null },
+        { 'x-git-provider': 'gitlab' },
+      );
+      expect(deleted.triggered).toBe(false);
+    });
+
+    it('should parse Gitee tag pushes', async () => {
+      await service.handleGitEvent('mp-1', 'Tag Push Hook', {
+        ref: 'refs/tags/v4.0.0',
+        repository,
+        commits: [],
+        head_commit: null,
+        pusher: { name: 'carol', email: 'carol@example.com' },
+      }, { 'x-git-provider': 'gitee' });
+
+      expectTagUpload('v4.0.0');
+    });
+  });
+
+  describe('signature verification', () => {
+    const payload = {
+      ref: 'refs/heads/main',
+      repository,
+      commits: [],
+      pusher: { name: 'alice', email: 'alice@example.com' },
+    };
+    // 平台发送的原始请求体格式与 JSON.stringify 的结果不同
+    const rawBody = Buffer.from(JSON.stringify(payload, null, 2));
+
+    beforeEach(() => {
+      mockPrisma.webhook.findMany.mockResolvedValue([
+        { id: 'wh-1', appId: 'mp-1', events: ['push'], secret: 'top-secret' },
+      ]);
+    });
+
+    it('should refuse unsigned requests when a secret is configured', async () => {
+      await expect(
+        service.handleGitEvent('mp-1', 'push', payload, { 'x-git-provider': 'github' }, rawBody),
+      ).rejects.toThrow('未携带签名');
+      expect(mockBuildTasksService.create).not.toHaveBeenCalled();
+    });
+
+    it('should verify against the raw request body', async () => {
+      const signature = `sha256=${crypto.createHmac('sha256', 'top-secret').update(rawBody).digest('hex')}`;
+
+      const result = await service.handleGitEvent('mp-1', 'push', payload, {
+        'x-git-provider': 'github',
+        'x-hub-signature-256': signature,
+      }, rawBody);
+
+      expect(result.triggered).toBe(true);
+    });
+  });
+
+  describe('deliveries', () => {
+    const payload = {
+      ref: 'refs/heads/feature/x',
+      repository,
+      commits: [],
+      pusher: { name: 'alice', email: 'alice@example.com' },
+    };
+
+    it('should record the parsed event, decision and masked headers', async () => {
+      const result = await service.handleGitEvent('mp-1', 'Push Hook', payload, {
+        'x-git-provider': 'gitee',
+        'x-gitee-token': 'should-not-be-stored',
+      }, Buffer.from(JSON.stringify(payload)));
+
+      const { data } = mockPrisma.webhookDelivery.create.mock.calls[0][0];
+      expect(result.deliveryId).toBe('delivery-1');
+      expect(data).toMatchObject({
+        appId: 'mp-1',
+        webhookId: 'wh-1',
+        provider: 'gitee',
+        eventType: 'Push Hook',
+        triggered: false,
+        success: true,
+        rawBody: JSON.stringify(payload),
+      });
+      expect(data.reason).toContain('分支不匹配');
+      expect(data.headers['x-gitee-token']).toBe('******');
+    });
+
+    it('should record failures and rethrow', async () => {
+      mockPrisma.webhook.findMany.mockResolvedValue([
+        { id: 'wh-1', appId: 'mp-1', events: ['push'], secret: 'top-secret' },
+      ]);
+
+      await expect(
+        service.handleGitEvent('mp-1', 'push', payload, { 'x-git-provider': 'github' }),
+      ).rejects.toThrow();
+
+      const { data } = mockPrisma.webhookDelivery.create.mock.calls[0][0];
+      expect(data).toMatchObject({ success: false, signatureValid: false });
+    });
+
+    it('should redeliver a stored payload reusing its signature result', async () => {
+      mockPrisma.webhook.findMany.mockResolvedValue([
+        { id: 'wh-1', appId: 'mp-1', events: ['push'], secret: 'top-secret' },
+      ]);
+      mockPrisma.webhook.findUnique.mockResolvedValue({
+        id: 'wh-1',
+        appId: 'mp-1',
+        miniprogram: { userId: 'user-1' },
+      });
+      mockPrisma.user.findUnique.mockResolvedValue({ id: 'user-1', role: 'USER' });
+      const mainPayload = { ...payload, ref: 'refs/heads/main' };
+      mockPrisma.webhookDelivery.findFirst.mockResolvedValue({
+        id: 'delivery-0',
+        appId: 'mp-1',
+        webhookId: 'wh-1',
+        eventType: 'Push Hook',
+        headers: { 'x-git-provider': 'gitee', 'x-gitee-token': '******', 'x-gitee-timestamp': '1' },
+        rawBody: JSON.stringify(mainPayload),
+        signatureValid: true,
+        signatureMethod: 'gitee-signature',
+      });
+
+      const result = await service.redeliver('wh-1', 'delivery-0', 'user-1');
+
+      expect(result.triggered).toBe(true);
+      expect(mockPrisma.webhookDelivery.create.mock.calls[0][0].data).toMatchObject({
+        redeliveryOf: 'delivery-0',
+        signatureValid: true,
+      });
+    });
+  });
+
+  describe('deduplication', () => {
+    let taskCount: number;
+
+    const payload = {
+      ref: 'refs/heads/main',
+      repository,
+      commits: [
+        {
+          id: 'abc123',
+          message: 'fix: login',
+          author: { name: 'alice', email: 'alice@example.com' },
+          timestamp: '2026-10-19T00:00:00Z',
+          url: '',
+        },
+      ],
+      pusher: { name: 'alice', email: 'alice@example.com' },
+    };
+
+    beforeEach(() => {
+      taskCount = 0;
+      mockBuildTasksService.create.mockImplementation(async (userId: string, dto: any) => ({
+        id: `task-${++taskCount}`,
+        ...dto,
+      }));
+    });
+
+    it('should ignore a retried delivery and point to the original task', async () => {
+      const headers = { 'x-git-provider': 'github', 'x-github-delivery': 'guid-1' };
+
+      const first = await service.handleGitEvent('mp-1', 'push', payload, headers);
+      const retry = await service.handleGitEvent('mp-1', 'push', payload, headers);
+
+      expect(first).toMatchObject({ triggered: true, taskId: 'task-1' });
+      expect(retry).toMatchObject({ triggered: false, duplicate: true, taskId: 'task-1' });
+      expect(mockBuildTasksService.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('should ignore the same commit delivered with a different delivery ID', async () => {
+      await service.handleGitEvent('mp-1', 'push', payload, { 'x-git-provider': 'github', 'x-github-delivery': 'guid-1' });
+      const second = await service.handleGitEvent('mp-1', 'push', payload, {
+        'x-git-provider': 'github',
+        'x-github-delivery': 'guid-2',
+      });
+
+      expect(second).toMatchObject({ duplicate: true, taskId: 'task-1' });
+      expect(mockBuildTasksService.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('should allow a retry after the first delivery failed', async () => {
+      const headers = { 'x-git-provider': 'github', 'x-github-delivery': 'guid-1' };
+      mockBuildTasksService.create.mockRejectedValueOnce(new Error('queue is full'));
+
+      await expect(service.handleGitEvent('mp-1', 'push', payload, headers)).rejects.toThrow('queue is full');
+      const retry = await service.handleGitEvent('mp-1', 'push', payload, headers);
+
+      expect(retry).toMatchObject({ triggered: true, taskId: 'task-1' });
+    });
+
+    it('should deduplicate pushes by the pushed head commit', async () => {
+      const forcePush = { ...payload, after: 'def456', commits: [] };
+      const headers = { 'x-git-provider': 'github' };
+
+      await service.handleGitEvent('mp-1', 'push', forcePush, headers);
+      const retry = await service.handleGitEvent('mp-1', 'push', forcePush, headers);
+      expect(retry).toMatchObject({ duplicate: true, taskId: 'task-1' });
+
+      // 与上一次推送最早的提交相同，但最新提交不同
+      const next = await service.handleGitEvent('mp-1', 'push', {
+        ...payload,
+        after: 'fed789',
+        commits: [...payload.commits, { ...payload.commits[0], id: 'fed789' }],
+      }, headers);
+      const again = await service.handleGitEvent('mp-1', 'push', { ...payload, after: 'fed789' }, headers);
+
+      expect(next).toMatchObject({ triggered: true, taskId: 'task-2' });
+      expect(again).toMatchObject({ duplicate: true, taskId: 'task-2' });
+      expect(mockBuildTasksService.create).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('build filters', () => {
+    const pushWith = (message: string, modified: string[]) => ({
+      ref: 'refs/heads/main',
+      after: 'def456',
+      repository,
+      commits: [
+        {
+          id: 'def456',
+          message,
+          author: { name: 'alice', email: 'alice@example.com' },
+          timestamp: '2026-10-19T00:00:00Z',
+          url: '',
+          added: [],
+          modified,
+          removed: [],
+        },
+      ],
+      pusher: { name: 'alice', email: 'alice@example.com' },
+    });
+
+    it('should return the skip reason for a [skip ci] head commit', async () => {
+      const result = await service.handleGitEvent('mp-1', 'push', pushWith('docs: typo [skip ci]', ['src/app.js']), {
+        'x-git-provider': 'github',
+      });
+
+      expect(result).toMatchObject({ triggered: false, skipReason: '提交信息包含 [skip ci]，跳过构建' });
+      expect(mockBuildTasksService.create).not.toHaveBeenCalled();
+    });
+
+    it('should keep the message and author of the pushed commit on the task', async () => {
+      const result = await service.handleGitEvent('mp-1', 'push', pushWith('feat: order page\n\nwith details', ['src/app.js']), {
+        'x-git-provider': 'github',
+      });
+
+      expect(result.triggered).toBe(true);
+      expect(mockBuildTasksService.create).toHaveBeenCalledWith('user-1', expect.objectContaining({
+        commitId: 'def456',
+        commitMessage: 'feat: order page\n\nwith details',
+        commitAuthor: 'alice',
+      }), expect.anything());
+    });
+
+    it('should skip pushes that only touch excluded paths', async () => {
+      mockMiniprogramsService.findOne.mockResolvedValueOnce({
+        id: 'mp-1',
+        name: 'demo',
+        userId: 'user-1',
+        config: { autoBuild: true, gitBranch: 'main', includePaths: ['src/**', 'pages/**'], excludePaths: ['docs/**'] },
+      });
+
+      const result = await service.handleGitEvent('mp-1', 'push', pushWith('docs: guide', ['docs/guide.md', 'README.md']), {
+        'x-git-provider': 'github',
+      });
+
+      expect(result.triggered).toBe(false);
+      expect(result.skipReason).toContain('src/**, pages/**');
+    });
+  });
+
+  describe('pull requests', () => {
+    const pullRequestEvent = (action: string, data: Record<string, any> = {}) => ({
+      action,
+      repository,
+      pull_request: {
+        id: 1001,
+        number: 42,
+        title: 'feat: new page',
+        state: 'open',
+        merged: false,
+        head: { ref: 'feature/page', sha: 'fedcba987654', repo: { full_name: 'acme/repo' } },
+        base: { ref: 'main', repo: { full_name: 'acme/repo' } },
+        user: { login: 'alice' },
+        ...data,
+      },
+    });
+
+    beforeEach(() => {
+      mockPrisma.webhook.findMany.mockResolvedValue([
+        { id: 'wh-1', appId: 'mp-1', events: ['pull_request'], secret: null },
+      ]);
+    });
+
+    it('should build a preview from the head ref when a PR is opened or updated', async () => {
+      const result = await service.handleGitEvent('mp-1', 'pull_request', pullRequestEvent('synchronize'), {
+        'x-git-provider': 'github',
+      });
+
+      expect(result.triggered).toBe(true);
+      expect(mockBuildTasksService.cancelPullRequestPreviews).toHaveBeenCalledWith('mp-1', 42);
+      expect(mockBuildTasksService.create).toHaveBeenCalledWith('user-1', expect.objectContaining({
+        type: BuildType.PREVIEW,
+        branch: 'feature/page',
+        description: 'PR #42: feat: new page',
+      }), expect.anything());
+      expect(mockPullRequestPreviewService.track).toHaveBeenCalledWith(
+        expect.objectContaining({ id: result.taskId }),
+        expect.objectContaining({ number: 42, headRef: 'feature/page' }),
+      );
+    });
+
+    it('should ignore PR actions that do not change the code', async () => {
+      const result = await service.handleGitEvent('mp-1', 'pull_request', pullRequestEvent('edited'), {
+        'x-git-provider': 'github',
+      });
+
+      expect(result.triggered).toBe(false);
+      expect(mockBuildTasksService.create).not.toHaveBeenCalled();
+    });
+
+    it('should not build previews for PRs from forks', async () => {
+      const result = await service.handleGitEvent('mp-1', 'pull_request', pullRequestEvent('opened', {
+        head: { ref: 'main', sha: 'fedcba987654', repo: { full_name: 'mallory/repo' } },
+      }), {
+        'x-git-provider': 'github',
+      });
+
+      expect(result).toMatchObject({ triggered: false, message: 'PR #42 来自 Fork 仓库，不自动构建预览' });
+      expect(mockBuildTasksService.create).not.toHaveBeenCalled();
+    });
+
+    it('should cancel and clean up previews when a PR is closed', async () => {
+      const result = await service.handleGitEvent('mp-1', 'pull_request', pullRequestEvent('closed', { state: 'closed' }), {
+        'x-git-provider': 'github',
+      });
+
+      expect(result.triggered).toBe(false);
+      expect(mockBuildTasksService.cancelPullRequestPreviews).toHaveBeenCalledWith('mp-1', 42);
+      expect(mockPullRequestPreviewService.close).toHaveBeenCalledWith('mp-1', 42);
+    });
+
+    it('should build the PR head commit and keep the provider and PR number for status reporting', async () => {
+      mockPrisma.webhookRule.findMany.mockResolvedValue([
+        { id: 'rule-1', event: 'PULL_REQUEST', pattern: 'main', buildType: BuildType.PREVIEW, versionStrategy: VersionStrategy.KEEP, enabled: true },
+      ]);
+
+      const result = await service.handleGitEvent('mp-1', 'pull_request', {
+        repository,
+        pull_request: {
+          id: 1001,
+          number: 42,
+          title: 'feat: new page',
+          state: 'open',
+          merged: false,
+          head: { ref: 'feature/page', sha: 'fedcba987654', repo: { full_name: 'acme/repo' } },
+          base: { ref: 'main', repo: { full_name: 'acme/repo' } },
+          user: { login: 'alice' },
+        },
+      }, { 'x-git-provider': 'github' });
+
+      expect(result.triggered).toBe(true);
+      expect(mockBuildTasksService.create).toHaveBeenCalledWith('user-1', expect.objectContaining({
+        branch: 'feature/page',
+        commitId: 'fedcba987654',
+      }), expect.objectContaining({
+        gitProvider: 'github',
+        pullRequestNumber: 42,
+      }));
+    });
+  });
+});
@@ -5,14 +5,40 @@ import {
   Logger,
   NotFoundException,
 } from '@nestjs/common';
-import { Prisma, TriggerType, UserRole, Webhook, WebhookStatus } from '@prisma/client';
+import {
+  BuildTask,
+  BuildType,
+  Prisma,
+  TriggerType,
+  UserRole,
+  VersionStrategy,
+  Webhook,
+  WebhookDelivery,
+  WebhookRule,
+  WebhookStatus,
+} from '@prisma/client';
 import * as crypto from 'crypto';
 import { PaginationDto, PaginationResult } from '../../common/dto/pagination.dto';
 import { BuildTasksService } from '../build-tasks/build-tasks.service';
+import { PullRequestPreviewService } from '../build-tasks/services/pull-request-preview.service';
 import { MiniprogramsService } from '../miniprograms/miniprograms.service';
+import { VersionService } from '../miniprograms/version.service';
 import { PrismaService } from '../prisma/prisma.service';
 import { CreateWebhookDto } from './dto/create-webhook.dto';
 import { UpdateWebhookDto } from './dto/update-webhook.dto';
+import { isPreviewablePullRequest, WebhookRulesService } from './webhook-rules.service';
+import { SignatureVerification, WebhookSignatureService } from './webhook-signature.service';
+import { WebhookDeliveriesService, WebhookDeliveryRecord } from './webhook-deliveries.service';
+import { WebhookDedupService } from './webhook-dedup.service';
+import { WebhookFilterService } from './webhook-filter.service';
+
+// GitLab/Gitee 的 PR 动作统一为 GitHub 的命名
+const PULL_REQUEST_ACTIONS: Record<string, string> = {
+  open: 'opened',
+  reopen: 'reopened',
+  close: 'closed',
+  merge: 'merged',
+};
 
 export interface GitEventData {
   eventType: string;
@@ -23,6 +49,8 @@ export interface GitEventData {
     defaultBranch: string;
   };
   branch: string;
+  tag?: string;
+  headCommitId?: string; // 推送后的最新提交
   commits: Array<{
     id: string;
     message: string;
@@ -32,6 +60,9 @@ export interface GitEventData {
     };
     timestamp: string;
     url: string;
+    added?: string[];
+    modified?: string[];
+    removed?: string[];
   }>;
   pusher?: {
     name: string;
@@ -43,14 +74,38 @@ export interface GitEventData {
     title: string;
     state: string;
     merged: boolean;
+    action?: string; // 统一为 opened、synchronize、reopened、closed、merged，其他动作保留原值
     headRef: string;
+    headSha?: string;
     baseRef: string;
+    fork: boolean; // 源分支来自 Fork 仓库
     user: {
       login: string;
     };
   };
 }
 
+export interface GitEventResult {
+  triggered: boolean;
+  taskId?: string;
+  message: string;
+  duplicate?: boolean; // 重复投递被忽略，taskId 为首次投递创建的任务
+  skipReason?: string; // 被跳过标记或路径过滤跳过的原因
+  deliveryId?: string;
+}
+
+interface BuildTriggerDecision {
+  should: boolean;
+  reason: string;
+  rule?: WebhookRule;
+  skipped?: boolean; // 事件已匹配，但被跳过标记或路径过滤跳过
+}
+
+interface RedeliveryOptions {
+  redeliveryOf?: string;
+  signature?: SignatureVerification; // 重新投递时沿用的签名校验结果
+}
+
 @Injectable()
 export class WebhooksService {
   private readonly logger = new Logger(WebhooksService.name);
@@ -59,6 +114,13 @@ export class WebhooksService {
     private readonly prisma: PrismaService,
     private readonly buildTasksService: BuildTasksService,
     private readonly miniprogramsService: MiniprogramsService,
+    private readonly webhookRulesService: WebhookRulesService,
+    private readonly webhookSignatureService: WebhookSignatureService,
+    private readonly webhookDeliveriesService: WebhookDeliveriesService,
+    private readonly webhookDedupService: WebhookDedupService,
+    private readonly webhookFilterService: WebhookFilterService,
+    private readonly pullRequestPreviewService: PullRequestPreviewService,
+    private readonly versionService: VersionService,
   ) {}
 
   /**
@@ -282,7 +344,8 @@ export class WebhooksService {
       }
 
       // 模拟事件处理流程
-      const shouldTrigger = this.shouldTriggerBuild(testEventData, miniprogram);
+      const rules = await this.webhookRulesService.findEnabled(miniprogram.id);
+      const shouldTrigger = this.shouldTriggerBuild(testEventData, miniprogram, rules);
       
       // 记录测试日志
       this.logger.log(`测试 Webhook ${id}，小程序: ${miniprogram.name} (ID: ${webhook.appId})`);
@@ -381,101 +444,245 @@ export class WebhooksService {
   }
 
   /**
-   * 处理 Git 事件
+   * 处理 Git 事件，每次投递都会记录请求内容和处理结果
    */
   async handleGitEvent(
     appId: string,
     eventType: string,
     payload: any,
     headers: Record<string, string>,
-  ): Promise<{ triggered: boolean; taskId?: string; message: string }> {
+    rawBody?: Buffer,
+    options: RedeliveryOptions = {},
+  ): Promise<GitEventResult> {
+    // 获取小程序信息
+    const miniprogram = await this.miniprogramsService.findOne(appId);
+    if (!miniprogram) {
+      throw new NotFoundException('小程序不存在');
+    }
+
+    const delivery: WebhookDeliveryRecord = {
+      appId,
+      provider: headers['x-git-provider'] || 'unknown',
+      eventType,
+      headers,
+      rawBody: rawBody ? rawBody.toString('utf8') : JSON.stringify(payload),
+      redeliveryOf: options.redeliveryOf,
+      startTime: Date.now(),
+    };
+
+    // 同一投递ID只处理一次，手动重新投递除外
+    const deliveryClaim = options.redeliveryOf
+      ? null
+      : await this.webhookDedupService.claimDelivery(delivery.provider, headers);
+
+    let result: GitEventResult;
     try {
-      // 获取小程序信息
-      const miniprogram = await this.miniprogramsService.findOne(appId);
-      if (!miniprogram) {
-        throw new NotFoundException('小程序不存在');
+      result = deliveryClaim?.duplicate
+        ? this.duplicateResult('重复投递，已忽略', deliveryClaim.taskId)
+        : await this.processGitEvent(miniprogram, eventType, payload, headers, rawBody, delivery, options);
+    } catch (error) {
+      this.logger.error(`处理 Git 事件失败: ${error.message}`, error.stack);
+      if (deliveryClaim) {
+        await this.webhookDedupService.release(deliveryClaim);
       }
+      await this.webhookDeliveriesService.record({ ...delivery, success: false, reason: error.message });
+      throw error;
+    }
 
-      // 获取该小程序的 webhook 配置
-      const webhooks = await this.prisma.webhook.findMany({
-        where: {
-          appId,
-          status: WebhookStatus.ACTIVE,
-        },
-      });
+    if (deliveryClaim && !deliveryClaim.duplicate) {
+      await this.webhookDedupService.complete(deliveryClaim, result.taskId);
+    }
 
-      if (webhooks.length === 0) {
-        return {
-          triggered: false,
-          message: '该小程序未配置活跃的Webhook',
-        };
-      }
+    const saved = await this.webhookDeliveriesService.record({
+      ...delivery,
+      triggered: result.triggered,
+      reason: result.message,
+      taskId: result.taskId,
+    });
 
-      // 解析事件数据
-      const eventData = this.parseGitEvent(eventType, payload, headers);
-      if (!eventData) {
-        return {
-          triggered: false,
-          message: '不支持的事件类型或数据格式',
-        };
-      }
+    return { ...result, deliveryId: saved?.id };
+  }
 
-      // 检查是否有webhook监听该事件类型
-      const matchingWebhook = webhooks.find(webhook => {
-        const events = Array.isArray(webhook.events) ? webhook.events : [];
-        return events.includes(eventData.eventType);
-      });
+  /**
+   * 查询 Webhook 的投递记录
+   */
+  async findDeliveries(
+    id: string,
+    paginationDto?: PaginationDto,
+    userId?: string,
+  ): Promise<PaginationResult<WebhookDelivery>> {
+    const webhook = await this.findOne(id, userId);
+    return this.webhookDeliveriesService.findAll(webhook.id, webhook.appId, paginationDto);
+  }
 
-      if (!matchingWebhook) {
-        return {
-          triggered: false,
-          message: `没有Webhook监听 ${eventData.eventType} 事件`,
-        };
-      }
+  /**
+   * 查询投递详情
+   */
+  async findDelivery(id: string, deliveryId: string, userId?: string): Promise<WebhookDelivery> {
+    const webhook = await this.findOne(id, userId);
+    return this.webhookDeliveriesService.findOne(webhook.id, webhook.appId, deliveryId);
+  }
 
-      // 验证签名（如果配置了密钥）
-      if (matchingWebhook.secret) {
-        const isValid = this.verifySignature(
-          matchingWebhook.secret,
-          JSON.stringify(payload),
-          headers,
-        );
-        if (!isValid) {
-          throw new BadRequestException('Webhook签名验证失败');
-        }
-      }
+  /**
+   * 使用保存的请求重新处理一次投递
+   * 原始投递已通过签名校验时沿用其结果（Gitee 签名带时间戳，重放时会过期）
+   */
+  async redeliver(id: string, deliveryId: string, userId?: string): Promise<GitEventResult> {
+    const delivery = await this.findDelivery(id, deliveryId, userId);
+    const headers = delivery.headers as Record<string, string>;
 
-      // 更新webhook最后触发时间
-      await this.prisma.webhook.update({
-        where: { id: matchingWebhook.id },
-        data: { lastTrigger: new Date() },
-      });
+    let payload: any;
+    try {
+      payload = JSON.parse(delivery.rawBody);
+    } catch {
+      throw new BadRequestException('投递记录的请求体不是有效的JSON');
+    }
 
-      // 根据事件类型决定是否触发构建
-      const shouldTriggerBuild = this.shouldTriggerBuild(eventData, miniprogram);
-      if (!shouldTriggerBuild.should) {
-        return {
-          triggered: false,
-          message: shouldTriggerBuild.reason,
-        };
-      }
+    return this.handleGitEvent(
+      delivery.appId,
+      delivery.eventType,
+      payload,
+      headers,
+      Buffer.from(delivery.rawBody, 'utf8'),
+      {
+        redeliveryOf: delivery.id,
+        signature: delivery.signatureValid
+          ? { valid: true, method: delivery.signatureMethod, reason: '沿用原始投递的签名校验结果' }
+          : undefined,
+      },
+    );
+  }
+
+  /**
+   * 匹配 Webhook、校验签名并决定是否触发构建，处理过程写入投递记录
+   */
+  private async processGitEvent(
+    miniprogram: any,
+    eventType: string,
+    payload: any,
+    headers: Record<string, string>,
+    rawBody: Buffer | undefined,
+    delivery: WebhookDeliveryRecord,
+    options: RedeliveryOptions,
+  ): Promise<GitEventResult> {
+    const appId = miniprogram.id;
+
+    // 获取该小程序的 webhook 配置
+    const webhooks = await this.prisma.webhook.findMany({
+      where: {
+        appId,
+        status: WebhookStatus.ACTIVE,
+      },
+    });
 
-      // 触发构建任务
-      const buildTask = await this.triggerBuild(eventData, miniprogram);
+    if (webhooks.length === 0) {
+      return {
+        triggered: false,
+        message: '该小程序未配置活跃的Webhook',
+      };
+    }
 
-      this.logger.log(
-        `Webhook 事件处理成功，触发构建任务: ${buildTask.id}，小程序: ${miniprogram.name}`,
+    // 解析事件数据
+    const eventData = this.parseGitEvent(eventType, payload, headers);
+    delivery.eventData = eventData ?? undefined;
+    if (!eventData) {
+      return {
+        triggered: false,
+        message: '不支持的事件类型或数据格式',
+      };
+    }
+
+    // 检查是否有webhook监听该事件类型
+    const matchingWebhook = webhooks.find(webhook => {
+      const events = Array.isArray(webhook.events) ? webhook.events : [];
+      return events.includes(eventData.eventType);
+    });
+
+    if (!matchingWebhook) {
+      return {
+        triggered: false,
+        message: `没有Webhook监听 ${eventData.eventType} 事件`,
+      };
+    }
+    delivery.webhookId = matchingWebhook.id;
+
+    // 验证签名（如果配置了密钥），必须基于原始请求体计算
+    if (matchingWebhook.secret) {
+      const verification = options.signature ?? this.webhookSignatureService.verify(
+        matchingWebhook.secret,
+        rawBody ?? JSON.stringify(payload),
+        headers,
       );
+      delivery.signature = verification;
+      if (!verification.valid) {
+        throw new BadRequestException(`Webhook签名验证失败: ${verification.reason}`);
+      }
+    }
 
+    // 更新webhook最后触发时间
+    await this.prisma.webhook.update({
+      where: { id: matchingWebhook.id },
+      data: { lastTrigger: new Date() },
+    });
+
+    // PR 关闭或合并后取消未完成的预览并清理二维码
+    const pullRequest = eventData.pullRequest;
+    if (pullRequest && (pullRequest.merged || pullRequest.action === 'closed')) {
+      await this.closePullRequestPreview(miniprogram.id, pullRequest.number);
+    }
+
+    // 根据构建规则或事件类型决定是否触发构建
+    const rules = await this.webhookRulesService.findEnabled(miniprogram.id);
+    const shouldTriggerBuild = this.shouldTriggerBuild(eventData, miniprogram, rules);
+    if (!shouldTriggerBuild.should) {
       return {
-        triggered: true,
-        taskId: buildTask.id,
-        message: '构建任务已触发',
+        triggered: false,
+        message: shouldTriggerBuild.reason,
+        skipReason: shouldTriggerBuild.skipped ? shouldTriggerBuild.reason : undefined,
       };
+    }
+
+    // 窗口期内同一提交、分支和构建类型只触发一次
+    const buildType = this.resolveBuildType(eventData, shouldTriggerBuild.rule);
+    const buildClaim = options.redeliveryOf
+      ? null
+      : await this.webhookDedupService.claimBuild(appId, eventData, buildType);
+    if (buildClaim?.duplicate) {
+      return this.duplicateResult('相同提交已触发过构建，已忽略', buildClaim.taskId);
+    }
+
+    // 触发构建任务
+    let buildTask: BuildTask;
+    try {
+      buildTask = await this.triggerBuild(eventData, miniprogram, buildType, shouldTriggerBuild.rule);
     } catch (error) {
-      this.logger.error(`处理 Git 事件失败: ${error.message}`, error.stack);
+      if (buildClaim) {
+        await this.webhookDedupService.release(buildClaim);
+      }
       throw error;
     }
+    if (buildClaim) {
+      await this.webhookDedupService.complete(buildClaim, buildTask.id);
+    }
+
+    this.logger.log(
+      `Webhook 事件处理成功，触发构建任务: ${buildTask.id}，小程序: ${miniprogram.name}`,
+    );
+
+    return {
+      triggered: true,
+      taskId: buildTask.id,
+      message: '构建任务已触发',
+    };
+  }
+
+  private duplicateResult(message: string, taskId?: string): GitEventResult {
+    return {
+      triggered: false,
+      duplicate: true,
+      taskId,
+      message: taskId ? `${message}，原任务: ${taskId}` : message,
+    };
   }
 
   /**
@@ -496,6 +703,11 @@ export class WebhooksService {
           return this.parseGitLabEvent(eventType, payload);
         case 'gitee':
           return this.parseGiteeEvent(eventType, payload);
+        case 'gitea':
+        case 'gogs':
+          return this.parseGiteaEvent(provider, eventType, payload);
+        case 'coding':
+          return this.parseCodingEvent(eventType, payload);
         default:
           // 尝试通用解析
           return this.parseGenericEvent(eventType, payload);
@@ -512,6 +724,9 @@ export class WebhooksService {
   private parseGitHubEvent(eventType: string, payload: any): GitEventData | null {
     switch (eventType) {
       case 'push':
+        if (payload.ref?.startsWith('refs/tags/')) {
+          return this.parseGitHubTagPush(payload);
+        }
         return {
           eventType: 'push',
           provider: 'github',
@@ -521,22 +736,36 @@ export class WebhooksService {
             defaultBranch: payload.repository.default_branch,
           },
           branch: payload.ref.replace('refs/heads/', ''),
-          commits: payload.commits.map((commit: any) => ({
-            id: commit.id,
-            message: commit.message,
-            author: {
-              name: commit.author.name,
-              email: commit.author.email,
-            },
-            timestamp: commit.timestamp,
-            url: commit.url,
-          })),
+          headCommitId: payload.after,
+          commits: payload.commits.map((commit: any) => this.parseCommit(commit)),
           pusher: {
             name: payload.pusher.name,
             email: payload.pusher.email,
           },
         };
 
+      case 'create':
+        // 只处理标签创建，分支创建由 push 事件处理
+        if (payload.ref_type !== 'tag') {
+          return null;
+        }
+        return {
+          eventType: 'tag',
+          provider: 'github',
+          repository: {
+            name: payload.repository.name,
+            url: payload.repository.html_url,
+            defaultBranch: payload.repository.default_branch,
+          },
+          branch: payload.ref,
+          tag: payload.ref,
+          commits: [], // create 事件不包含提交信息
+          pusher: {
+            name: payload.sender?.login,
+            email: '',
+          },
+        };
+
       case 'pull_request':
         return {
           eventType: 'pull_request',
@@ -554,8 +783,13 @@ export class WebhooksService {
             title: payload.pull_request.title,
             state: payload.pull_request.state,
             merged: payload.pull_request.merged || false,
+            action: this.parseGitHubPullRequestAction(payload),
             headRef: payload.pull_request.head.ref,
+            headSha: payload.pull_request.head.sha,
             baseRef: payload.pull_request.base.ref,
+            // Fork 仓库被删除时 head.repo 为空
+            fork: !payload.pull_request.head.repo
+              || payload.pull_request.head.repo.full_name !== payload.pull_request.base.repo?.full_name,
             user: {
               login: payload.pull_request.user.login,
             },
@@ -567,6 +801,69 @@ export class WebhooksService {
     }
   }
 
+  /**
+   * 解析 GitHub 标签推送
+   */
+  private parseGitHubTagPush(payload: any): GitEventData | null {
+    // 删除标签时同样会推送 push 事件
+    if (payload.deleted) {
+      return null;
+    }
+
+    const tag = this.parseTagRef(payload.ref);
+    const headCommit = payload.head_commit;
+    return {
+      eventType: 'tag',
+      provider: 'github',
+      repository: {
+        name: payload.repository.name,
+        url: payload.repository.html_url,
+        defaultBranch: payload.repository.default_branch,
+      },
+      branch: tag,
+      tag,
+      commits: headCommit ? [this.parseCommit(headCommit)] : [],
+      pusher: {
+        name: payload.pusher.name,
+        email: payload.pusher.email,
+      },
+    };
+  }
+
+  /**
+   * GitHub 关闭 PR 时通过 merged 区分是否合并，Gitea 推送新提交的动作为 synchronized
+   */
+  private parseGitHubPullRequestAction(payload: any): string {
+    if (payload.action === 'closed') {
+      return payload.pull_request.merged ? 'merged' : 'closed';
+    }
+    return payload.action === 'synchronized' ? 'synchronize' : payload.action;
+  }
+
+  /**
+   * GitLab 的 update 动作只有推送新提交时才带 oldrev
+   */
+  private parseGitLabMergeRequestAction(attributes: any): string {
+    if (attributes.action === 'update') {
+      return attributes.oldrev ? 'synchronize' : 'update';
+    }
+    return PULL_REQUEST_ACTIONS[attributes.action] || attributes.action;
+  }
+
+  /**
+   * Gitee 的 update 动作通过 action_desc 区分是否推送了新提交
+   */
+  private parseGiteePullRequestAction(payload: any): string {
+    if (payload.action === 'update') {
+      return !payload.action_desc || payload.action_desc === 'source_branch_changed' ? 'synchronize' : 'update';
+    }
+    return PULL_REQUEST_ACTIONS[payload.action] || payload.action;
+  }
+
+  private parseTagRef(ref: string): string {
+    return ref.replace('refs/tags/', '');
+  }
+
   /**
    * 解析 GitLab 事件
    */
@@ -582,21 +879,45 @@ export class WebhooksService {
             defaultBranch: payload.project.default_branch,
           },
           branch: payload.ref.replace('refs/heads/', ''),
-          commits: payload.commits.map((commit: any) => ({
-            id: commit.id,
-            message: commit.message,
-            author: {
-              name: commit.author.name,
-              email: commit.author.email,
-            },
-            timestamp: commit.timestamp,
-            url: commit.url,
-          })),
+          headCommitId: payload.checkout_sha || payload.after,
+          commits: payload.commits.map((commit: any) => this.parseCommit(commit)),
+          pusher: {
+            name: payload.user_name,
+            email: payload.user_email,
+          },
+        };
+
+      case 'Tag Push Hook': {
+        // 删除标签时 checkout_sha 为空
+        if (!payload.checkout_sha) {
+          return null;
+        }
+        const tag = this.parseTagRef(payload.ref);
+        const commits = (payload.commits || []).map((commit: any) => this.parseCommit(commit));
+        return {
+          eventType: 'tag',
+          provider: 'gitlab',
+          repository: {
+            name: payload.project.name,
+            url: payload.project.web_url,
+            defaultBranch: payload.project.default_branch,
+          },
+          branch: tag,
+          tag,
+          // 标签指向的提交放在首位
+          commits: commits.length > 0 ? commits : [{
+            id: payload.checkout_sha,
+            message: payload.message || `Tag ${tag}`,
+            author: { name: payload.user_name, email: payload.user_email },
+            timestamp: new Date().toISOString(),
+            url: '',
+          }],
           pusher: {
             name: payload.user_name,
             email: payload.user_email,
           },
         };
+      }
 
       case 'Merge Request Hook':
         return {
@@ -615,8 +936,11 @@ export class WebhooksService {
             title: payload.object_attributes.title,
             state: payload.object_attributes.state,
             merged: payload.object_attributes.state === 'merged',
+            action: this.parseGitLabMergeRequestAction(payload.object_attributes),
             headRef: payload.object_attributes.source_branch,
+            headSha: payload.object_attributes.last_commit?.id,
             baseRef: payload.object_attributes.target_branch,
+            fork: payload.object_attributes.source_project_id !== payload.object_attributes.target_project_id,
             user: {
               login: payload.user.username,
             },
@@ -632,8 +956,122 @@ export class WebhooksService {
    * 解析 Gitee 事件
    */
   private parseGiteeEvent(eventType: string, payload: any): GitEventData | null {
-    // Gitee 事件格式类似 GitHub，可以复用部分逻辑
-    return this.parseGitHubEvent(eventType, payload);
+    const repository = {
+      name: payload.repository?.name,
+      url: payload.repository?.html_url || payload.repository?.url,
+      defaultBranch: payload.repository?.default_branch,
+    };
+
+    switch (eventType) {
+      case 'Push Hook':
+      case 'Tag Push Hook': {
+        // 删除分支或标签时同样会推送事件
+        if (payload.deleted) {
+          return null;
+        }
+
+        const commits = (payload.commits || []).map((commit: any) => this.parseCommit(commit));
+        const pusher = {
+          name: payload.pusher?.name || payload.user_name,
+          email: payload.pusher?.email,
+        };
+
+        if (payload.ref?.startsWith('refs/tags/')) {
+          const tag = this.parseTagRef(payload.ref);
+          return {
+            eventType: 'tag',
+            provider: 'gitee',
+            repository,
+            branch: tag,
+            tag,
+            commits: commits.length > 0 || !payload.head_commit ? commits : [this.parseCommit(payload.head_commit)],
+            pusher,
+          };
+        }
+
+        return {
+          eventType: 'push',
+          provider: 'gitee',
+          repository,
+          branch: payload.ref.replace('refs/heads/', ''),
+          headCommitId: payload.after,
+          commits,
+          pusher,
+        };
+      }
+
+      case 'Merge Request Hook': {
+        const pullRequest = payload.pull_request;
+        return {
+          eventType: 'pull_request',
+          provider: 'gitee',
+          repository,
+          branch: pullRequest.head.ref,
+          commits: [],
+          pullRequest: {
+            id: pullRequest.id,
+            number: pullRequest.number,
+            title: pullRequest.title,
+            state: pullRequest.state,
+            // Gitee 合并后的状态为 merged
+            merged: pullRequest.merged || pullRequest.state === 'merged',
+            action: this.parseGiteePullRequestAction(payload),
+            headRef: pullRequest.head.ref,
+            headSha: pullRequest.head.sha,
+            baseRef: pullRequest.base.ref,
+            fork: !pullRequest.head.repo || pullRequest.head.repo.full_name !== pullRequest.base.repo?.full_name,
+            user: {
+              login: pullRequest.user?.login || pullRequest.user?.name,
+            },
+          },
+        };
+      }
+
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * 解析 Gitea/Gogs 事件
+   * 事件名和负载与 GitHub 兼容，推送者使用 username 字段
+   */
+  private parseGiteaEvent(provider: string, eventType: string, payload: any): GitEventData | null {
+    const pusher = payload.pusher && {
+      name: payload.pusher.username || payload.pusher.login || payload.pusher.full_name,
+      email: payload.pusher.email,
+    };
+    const data = this.parseGitHubEvent(eventType, { ...payload, pusher });
+    return data ? { ...data, provider } : null;
+  }
+
+  /**
+   * 解析 Coding 事件
+   * Coding 推送负载兼容 GitHub 格式，事件名区分新旧两种
+   */
+  private parseCodingEvent(eventType: string, payload: any): GitEventData | null {
+    if (eventType !== 'push' && eventType !== 'GIT_PUSHED') {
+      return null;
+    }
+
+    const data = this.parseGitHubEvent('push', payload);
+    return data ? { ...data, provider: 'coding' } : null;
+  }
+
+  private parseCommit(commit: any): GitEventData['commits'][number] {
+    return {
+      id: commit.id,
+      message: commit.message,
+      author: {
+        name: commit.author?.name,
+        email: commit.author?.email,
+      },
+      timestamp: commit.timestamp,
+      url: commit.url,
+      added: commit.added,
+      modified: commit.modified,
+      removed: commit.removed,
+    };
   }
 
   /**
@@ -660,52 +1098,34 @@ export class WebhooksService {
   }
 
   /**
-   * 验证 Webhook 签名
+   * 判断是否应该触发构建，匹配后再按跳过标记和路径过滤
    */
-  private verifySignature(
-    secret: string,
-    payload: string,
-    headers: Record<string, string>,
-  ): boolean {
-    try {
-      // GitHub 签名验证
-      const githubSignature = headers['x-hub-signature-256'];
-      if (githubSignature) {
-        const expectedSignature = `sha256=${crypto
-          .createHmac('sha256', secret)
-          .update(payload)
-          .digest('hex')}`;
-        return crypto.timingSafeEqual(
-          Buffer.from(githubSignature),
-          Buffer.from(expectedSignature),
-        );
-      }
-
-      // GitLab 签名验证
-      const gitlabToken = headers['x-gitlab-token'];
-      if (gitlabToken) {
-        return crypto.timingSafeEqual(
-          Buffer.from(gitlabToken),
-          Buffer.from(secret),
-        );
-      }
-
-      // 其他平台的签名验证可以在这里添加
+  private shouldTriggerBuild(
+    eventData: GitEventData,
+    miniprogram: any,
+    rules: WebhookRule[] = [],
+  ): BuildTriggerDecision {
+    const decision = this.matchBuildTrigger(eventData, miniprogram, rules);
+    if (!decision.should) {
+      return decision;
+    }
 
-      return true; // 如果没有签名头，则跳过验证
-    } catch (error) {
-      this.logger.error(`签名验证失败: ${error.message}`, error.stack);
-      return false;
+    const skipReason = this.webhookFilterService.getSkipReason(eventData, miniprogram.config);
+    if (skipReason) {
+      return { should: false, reason: skipReason, skipped: true };
     }
+
+    return decision;
   }
 
   /**
-   * 判断是否应该触发构建
+   * 按构建规则或配置分支匹配事件
    */
-  private shouldTriggerBuild(
+  private matchBuildTrigger(
     eventData: GitEventData,
     miniprogram: any,
-  ): { should: boolean; reason: string } {
+    rules: WebhookRule[],
+  ): BuildTriggerDecision {
     // 检查小程序配置
     if (!miniprogram.config) {
       return {
@@ -722,6 +1142,52 @@ export class WebhooksService {
       };
     }
 
+    // Fork 仓库的代码不可信，不使用服务器的环境变量、密钥和上传密钥构建
+    if (eventData.pullRequest?.fork && !eventData.pullRequest.merged) {
+      return {
+        should: false,
+        reason: `PR #${eventData.pullRequest.number} 来自 Fork 仓库，不自动构建预览`,
+      };
+    }
+
+    // 配置了构建规则时按规则匹配，否则沿用配置分支
+    if (rules.length > 0) {
+      const rule = this.webhookRulesService.match(rules, eventData);
+      if (!rule) {
+        const target = eventData.tag ? `标签 ${eventData.tag}` : `分支 ${eventData.branch}`;
+        return {
+          should: false,
+          reason: `没有匹配的构建规则，事件: ${eventData.eventType}，${target}`,
+        };
+      }
+      return {
+        should: true,
+        reason: `匹配构建规则 ${rule.name || rule.pattern}`,
+        rule,
+      };
+    }
+
+    // 标签不属于任何分支，监听了标签事件即触发发布构建
+    if (eventData.eventType === 'tag') {
+      return { should: true, reason: `标签 ${eventData.tag} 触发发布构建` };
+    }
+
+    // 目标分支为配置分支的 PR，打开或推送新提交时构建预览
+    const pullRequest = eventData.pullRequest;
+    if (eventData.eventType === 'pull_request' && pullRequest && !pullRequest.merged) {
+      const configBranch = miniprogram.config.gitBranch || 'master';
+      if (pullRequest.baseRef !== configBranch) {
+        return {
+          should: false,
+          reason: `PR目标分支不匹配，配置分支: ${configBranch}，目标分支: ${pullRequest.baseRef}`,
+        };
+      }
+      if (!isPreviewablePullRequest(pullRequest)) {
+        return { should: false, reason: `PR #${pullRequest.number} ${pullRequest.action || pullRequest.state}，不触发预览构建` };
+      }
+      return { should: true, reason: `PR #${pullRequest.number} 触发预览构建` };
+    }
+
     // 检查分支匹配
     const configBranch = miniprogram.config.gitBranch || 'master';
     if (eventData.branch !== configBranch) {
@@ -738,46 +1204,100 @@ export class WebhooksService {
         return { should: true, reason: '推送事件触发构建' };
 
       case 'pull_request':
-        // 只有合并的PR才触发构建
-        if (eventData.pullRequest?.merged) {
-          return { should: true, reason: 'PR合并触发构建' };
-        }
-        return { should: false, reason: 'PR未合并，不触发构建' };
+        // 未合并的 PR 已在上面处理
+        return { should: true, reason: 'PR合并触发构建' };
 
       default:
         return { should: false, reason: `不支持的事件类型: ${eventData.eventType}` };
     }
   }
 
+  /**
+   * 确定构建类型：未匹配规则时标签发布上传，其他事件默认创建预览任务
+   */
+  private resolveBuildType(eventData: GitEventData, rule?: WebhookRule): BuildType {
+    return rule?.buildType ?? (eventData.eventType === 'tag' ? BuildType.UPLOAD : BuildType.PREVIEW);
+  }
+
   /**
    * 触发构建任务
    */
-  private async triggerBuild(eventData: GitEventData, miniprogram: any) {
+  private async triggerBuild(eventData: GitEventData, miniprogram: any, type: BuildType, rule?: WebhookRule) {
     const latestCommit = eventData.commits[0] || {
       id: 'unknown',
       message: `${eventData.eventType} event`,
       author: eventData.pusher || { name: 'Unknown', email: 'unknown@example.com' },
     };
 
-    // 自动递增版本号
-    const newVersion = await this.miniprogramsService.autoIncrementVersion(
-      miniprogram.id,
-      miniprogram.userId,
-    );
+    // 匹配规则时按规则的版本策略预留版本号；未匹配规则时标签以标签名为版本号，其他事件按小程序配置的策略
+    const reservation = await this.versionService.reserve(miniprogram.id, {
+      strategy: rule?.versionStrategy ?? (eventData.eventType === 'tag' ? VersionStrategy.TAG : undefined),
+      type,
+      tag: eventData.tag,
+      commitMessages: eventData.commits.map((commit) => commit.message),
+    });
+    const newVersion = reservation.version;
+
+    const pullRequest = eventData.pullRequest;
+    const description = rule?.descriptionTemplate
+      ? this.webhookRulesService.renderDescription(rule.descriptionTemplate, eventData, newVersion)
+      : pullRequest
+        ? `PR #${pullRequest.number}: ${pullRequest.title}`
+        : `Webhook触发: ${latestCommit.message}`;
+
+    // 同一 PR 的新预览取代尚未完成的旧预览
+    const previewPullRequest = type === BuildType.PREVIEW && isPreviewablePullRequest(pullRequest);
+    if (previewPullRequest) {
+      await this.buildTasksService.cancelPullRequestPreviews(miniprogram.id, pullRequest.number);
+    }
 
     // 创建构建任务
     const buildTaskDto = {
       appId: miniprogram.id,
-      type: 'PREVIEW' as const, // 默认创建预览任务
+      type,
       branch: eventData.branch,
-      commitId: latestCommit.id,
+      tag: eventData.tag,
+      // PR 事件不包含提交列表，使用源分支的最新提交
+      commitId: eventData.pullRequest?.headSha || latestCommit.id,
+      // 没有提交列表的事件由构建时读取检出的提交补全
+      commitMessage: eventData.commits.length > 0 ? latestCommit.message : undefined,
+      commitAuthor: eventData.commits.length > 0 ? latestCommit.author.name?.slice(0, 100) : undefined,
       version: newVersion,
-      description: `Webhook触发: ${latestCommit.message}`,
+      description,
       operator: latestCommit.author.name,
       triggerType: TriggerType.WEBHOOK,
     };
 
-    return this.buildTasksService.create(miniprogram.userId, buildTaskDto);
+    let buildTask: BuildTask;
+    try {
+      buildTask = await this.buildTasksService.create(miniprogram.userId, buildTaskDto, {
+        previousVersion: reservation.previousVersion,
+        buildNumber: reservation.buildNumber,
+        gitProvider: eventData.provider,
+        pullRequestNumber: eventData.pullRequest?.number,
+      });
+    } catch (error) {
+      // 任务未创建，预留的版本号没有被使用
+      await this.versionService.release(miniprogram.id, reservation, true);
+      throw error;
+    }
+    if (previewPullRequest) {
+      await this.pullRequestPreviewService.track(buildTask, pullRequest);
+    }
+
+    return buildTask;
+  }
+
+  /**
+   * PR 关闭时清理预览，失败不影响事件处理
+   */
+  private async closePullRequestPreview(miniprogramId: string, number: number): Promise<void> {
+    try {
+      await this.buildTasksService.cancelPullRequestPreviews(miniprogramId, number);
+      await this.pullRequestPreviewService.close(miniprogramId, number);
+    } catch (error) {
+      this.logger.warn(`清理 PR #${number} 的预览失败: ${error.message}`);
+    }
   }
 
   /**
@@ -796,6 +1316,9 @@ export class WebhooksService {
     githubUrl: string;
     gitlabUrl: string;
     giteeUrl: string;
+    giteaUrl: string;
+    gogsUrl: string;
+    codingUrl: string;
   }> {
     // 检查小程序是否存在且用户有权限
     const miniprogram = await this.miniprogramsService.findOne(appId, userId);
@@ -812,6 +1335,9 @@ export class WebhooksService {
       githubUrl: `${baseUrl}/webhooks/github/${appId}`,
       gitlabUrl: `${baseUrl}/webhooks/gitlab/${appId}`,
       giteeUrl: `${baseUrl}/webhooks/gitee/${appId}`,
+      giteaUrl: `${baseUrl}/webhooks/gitea/${appId}`,
+      gogsUrl: `${baseUrl}/webhooks/gogs/${appId}`,
+      codingUrl: `${baseUrl}/webhooks/coding/${appId}`,
     };
   }
 }
\ No newline at end of file
@@ -0,0 +1,71 @@
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { Test, TestingModule } from '@nestjs/testing';
+import { UserRole } from '@prisma/client';
+import { LogRedactionService } from '../../../common/services/log-redaction.service';
+import { PrismaService } from '../../prisma/prisma.service';
+import { UsersService } from '../../users/users.service';
+import { BuildGateway } from './build.gateway';
+
+describe('BuildGateway', () => {
+  let gateway: BuildGateway;
+
+  const mockPrisma = {
+    buildTask: {
+      findFirst: jest.fn(),
+    },
+  };
+
+  const client = (role: UserRole = UserRole.USER): any => ({
+    userId: 'user-1',
+    username: 'alice',
+    role,
+    join: jest.fn(),
+    emit: jest.fn(),
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        BuildGateway,
+        LogRedactionService,
+        { provide: PrismaService, useValue: mockPrisma },
+        { provide: JwtService, useValue: {} },
+        { provide: UsersService, useValue: {} },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+      ],
+    }).compile();
+
+    gateway = module.get<BuildGateway>(BuildGateway);
+  });
+
+  it('should not join or replay logs of tasks owned by other users', async () => {
+    const history = jest.fn(async () => [{ line: 0 }]);
+    gateway.setLogHistoryProvider(history);
+    mockPrisma.buildTask.findFirst.mockResolvedValue(null);
+    const socket = client();
+
+    await gateway.handleSubscribeTask(socket, { taskId: 'task-2' });
+
+    expect(mockPrisma.buildTask.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+      where: { id: 'task-2', userId: 'user-1' },
+    }));
+    expect(socket.join).not.toHaveBeenCalled();
+    expect(history).not.toHaveBeenCalled();
+    expect(socket.emit).toHaveBeenCalledWith('error', { message: '构建任务不存在' });
+  });
+
+  it('should let admins subscribe to any task and replay its logs', async () => {
+    gateway.setLogHistoryProvider(async () => [{ line: 0 }, { line: 1 }]);
+    mockPrisma.buildTask.findFirst.mockResolvedValue({ id: 'task-2' });
+    const socket = client(UserRole.ADMIN);
+
+    await gateway.handleSubscribeTask(socket, { taskId: 'task-2' });
+
+    expect(mockPrisma.buildTask.findFirst.mock.calls[0][0].where).toEqual({ id: 'task-2' });
+    expect(socket.join).toHaveBeenCalledWith('task:task-2');
+    expect(socket.emit).toHaveBeenCalledWith('build-log-replay', expect.objectContaining({ taskId: 'task-2', lastLine: 1 }));
+  });
+});
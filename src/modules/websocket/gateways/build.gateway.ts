@@ -10,14 +10,20 @@ import {
   WebSocketGateway,
   WebSocketServer,
 } from '@nestjs/websockets';
+import { UserRole } from '@prisma/client';
 import { Server, Socket } from 'socket.io';
+import { LogRedactionService } from '../../../common/services/log-redaction.service';
+import { PrismaService } from '../../prisma/prisma.service';
 import { UsersService } from '../../users/users.service';
 
 interface AuthenticatedSocket extends Socket {
   userId?: string;
   username?: string;
+  role?: UserRole;
 }
 
+type LogHistoryProvider = (taskId: string) => Promise<Array<{ line: number }>>;
+
 @WebSocketGateway({
   namespace: '/build',
   cors: {
@@ -31,11 +37,14 @@ export class BuildGateway implements OnGatewayConnection, OnGatewayDisconnect {
 
   private readonly logger = new Logger(BuildGateway.name);
   private connectedClients = new Map<string, AuthenticatedSocket>();
+  private logHistoryProvider?: LogHistoryProvider;
 
   constructor(
     private readonly jwtService: JwtService,
     private readonly usersService: UsersService,
     private readonly configService: ConfigService,
+    private readonly logRedactionService: LogRedactionService,
+    private readonly prisma: PrismaService,
   ) {}
 
   async handleConnection(client: AuthenticatedSocket) {
@@ -62,6 +71,7 @@ export class BuildGateway implements OnGatewayConnection, OnGatewayDisconnect {
       // 设置用户信息
       client.userId = user.id;
       client.username = user.username;
+      client.role = user.role;
       
       // 加入用户专属房间
       await client.join(`user:${user.id}`);
@@ -107,7 +117,17 @@ export class BuildGateway implements OnGatewayConnection, OnGatewayDisconnect {
       return;
     }
     const { taskId } = data;
-    
+
+    // 只能订阅自己的构建任务，管理员可订阅全部
+    const task = await this.prisma.buildTask.findFirst({
+      where: client.role === UserRole.ADMIN ? { id: taskId } : { id: taskId, userId: client.userId },
+      select: { id: true },
+    });
+    if (!task) {
+      client.emit('error', { message: '构建任务不存在' });
+      return;
+    }
+
     // 加入任务房间
     await client.join(`task:${taskId}`);
     
@@ -117,6 +137,28 @@ export class BuildGateway implements OnGatewayConnection, OnGatewayDisconnect {
       taskId,
       message: `已订阅任务 ${taskId}`,
     });
+
+    // 回放已有日志；加入房间后才读取历史，客户端按行号丢弃重复的实时日志
+    if (this.logHistoryProvider) {
+      try {
+        const lines = await this.logHistoryProvider(taskId);
+        client.emit('build-log-replay', {
+          taskId,
+          lines,
+          lastLine: lines.length > 0 ? lines[lines.length - 1].line : -1,
+          timestamp: new Date().toISOString(),
+        });
+      } catch (error) {
+        this.logger.error(`Failed to replay logs of task ${taskId}:`, error);
+      }
+    }
+  }
+
+  /**
+   * 设置日志历史来源，用于订阅时回放
+   */
+  setLogHistoryProvider(provider: LogHistoryProvider) {
+    this.logHistoryProvider = provider;
   }
 
   /**
@@ -148,11 +190,19 @@ export class BuildGateway implements OnGatewayConnection, OnGatewayDisconnect {
   /**
    * 发送构建日志
    */
-  sendBuildLog(taskId: string, log: string, level: 'info' | 'warn' | 'error' = 'info') {
+  sendBuildLog(
+    taskId: string,
+    log: string,
+    level: 'info' | 'warn' | 'error' = 'info',
+    stage?: string,
+    line?: number,
+  ) {
     this.server.to(`task:${taskId}`).emit('build-log', {
       taskId,
-      log,
+      log: this.logRedactionService.redact(log, taskId),
       level,
+      stage,
+      line,
       timestamp: new Date().toISOString(),
     });
   }
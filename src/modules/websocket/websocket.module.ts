@@ -2,13 +2,15 @@ import { Module } from '@nestjs/common';
 import { JwtModule } from '@nestjs/jwt';
 import { BuildGateway } from './gateways/build.gateway';
 import { UsersModule } from '../users/users.module';
+import { LogRedactionService } from '../../common/services/log-redaction.service';
 
 @Module({
   imports: [
     UsersModule,
     JwtModule.register({}), // 配置将从全局配置中继承
   ],
-  providers: [BuildGateway],
-  exports: [BuildGateway],
+  // 脱敏服务保存构建期间登记的敏感值，需与网关共享同一实例
+  providers: [BuildGateway, LogRedactionService],
+  exports: [BuildGateway, LogRedactionService],
 })
 export class WebsocketModule {}
\ No newline at end of file